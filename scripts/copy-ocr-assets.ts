@@ -0,0 +1,39 @@
+// Copies the Tesseract worker, core and language data from node_modules into public/,
+// so OCR runs without fetching anything from a CDN
+import { copyFileSync, existsSync, mkdirSync, statSync } from 'node:fs';
+import { dirname, resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { OCR_LANGUAGES } from '../src/config/ocrLanguages';
+
+const root = resolve(dirname(fileURLToPath(import.meta.url)), '..');
+const modules = resolve(root, 'node_modules');
+const publicDir = resolve(root, 'public');
+
+const assets: { from: string; to: string }[] = [
+  { from: 'tesseract.js/dist/worker.min.js', to: 'tesseract/worker.min.js' },
+  // Only the LSTM engine is used; the worker picks the SIMD build when the browser supports it
+  { from: 'tesseract.js-core/tesseract-core-lstm.wasm.js', to: 'tesseract/tesseract-core-lstm.wasm.js' },
+  { from: 'tesseract.js-core/tesseract-core-simd-lstm.wasm.js', to: 'tesseract/tesseract-core-simd-lstm.wasm.js' },
+  ...OCR_LANGUAGES.map(({ value: lang }) => ({
+    from: `@tesseract.js-data/${lang}/4.0.0_best_int/${lang}.traineddata.gz`,
+    to: `tessdata/${lang}.traineddata.gz`
+  }))
+];
+
+let copied = 0;
+for (const { from, to } of assets) {
+  const source = resolve(modules, from);
+  const target = resolve(publicDir, to);
+  if (!existsSync(source)) {
+    console.error(`Missing ${from}; run npm install first`);
+    process.exit(1);
+  }
+  if (existsSync(target) && statSync(target).size === statSync(source).size) {
+    continue;
+  }
+  mkdirSync(dirname(target), { recursive: true });
+  copyFileSync(source, target);
+  copied++;
+}
+
+console.log(copied > 0 ? `Copied ${copied} OCR asset(s) to public/` : 'OCR assets are up to date');
@@ -0,0 +1,60 @@
+import { existsSync } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+import { LLM_PROVIDERS, LlmProviderId } from '../src/config/settings';
+
+// Load a local .env file when present so the key never has to be exported in the shell
+if (existsSync('.env')) {
+  process.loadEnvFile('.env');
+}
+
+const readNumber = (name: string, fallback: number): number => {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+};
+
+const ALL_PROVIDERS = LLM_PROVIDERS.map(provider => provider.value);
+
+// LLM_PROVIDERS limits which backends may receive data, e.g. "openai-compatible,mock" to stay on-premises
+const readEnabledProviders = (): LlmProviderId[] => {
+  if (process.argv.includes('--mock') || process.env.LLM_MOCK === '1') {
+    return ['mock'];
+  }
+  const listed = (process.env.LLM_PROVIDERS ?? '').split(',').map(id => id.trim()).filter(Boolean);
+  const unknown = listed.filter(id => !ALL_PROVIDERS.includes(id as LlmProviderId));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown provider(s) in LLM_PROVIDERS: ${unknown.join(', ')}`);
+  }
+  return listed.length > 0 ? (listed as LlmProviderId[]) : ALL_PROVIDERS;
+};
+
+export interface ServerConfig {
+  port: number;
+  openaiApiKey: string | undefined;
+  localLlm: {
+    baseUrl: string | undefined;
+    apiKey: string | undefined;
+    model: string;
+  };
+  enabledProviders: LlmProviderId[];
+  mockFixturesPath: string;
+  maxBodyBytes: number;
+  rateLimitPerMinute: number;
+  allowedOrigin: string;
+}
+
+export const config: ServerConfig = {
+  port: readNumber('PORT', 8787),
+  openaiApiKey: process.env.OPENAI_API_KEY,
+  // Any server that speaks the OpenAI chat completions API, e.g. http://localhost:11434/v1
+  localLlm: {
+    baseUrl: process.env.LOCAL_LLM_BASE_URL,
+    apiKey: process.env.LOCAL_LLM_API_KEY,
+    model: process.env.LOCAL_LLM_MODEL || 'llama3.1'
+  },
+  // Mock mode (--mock) only enables the fixture provider and never touches the network
+  enabledProviders: readEnabledProviders(),
+  mockFixturesPath: process.env.MOCK_FIXTURES || fileURLToPath(new URL('./fixtures/mock-responses.json', import.meta.url)),
+  maxBodyBytes: readNumber('MAX_BODY_BYTES', 256 * 1024),
+  rateLimitPerMinute: readNumber('RATE_LIMIT_PER_MINUTE', 30),
+  allowedOrigin: process.env.CORS_ORIGIN || 'http://localhost:5173'
+};
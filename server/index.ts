@@ -0,0 +1,194 @@
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import { config } from './config';
+import { createRateLimiter } from './rateLimit';
+import { analyzeBloodwork, generatePatientLetter, InvalidResponseError, structureTableData } from './llm';
+import { listProviders, ProviderUnavailableError } from './providers';
+import { AnalysisFinding, FINDING_SEVERITIES, FindingSeverity } from '../src/utils/analysisFindings';
+import { LETTER_LANGUAGES, LETTER_TEMPLATES, LetterOptions, READING_LEVELS } from '../src/utils/letterTemplates';
+import { LLM_PROVIDERS, LlmSettings } from '../src/config/settings';
+
+// Raised for requests the server refuses before doing any work
+class HttpError extends Error {
+  constructor(public readonly status: number, message: string, public readonly headers: Record<string, string> = {}) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+const isLimited = createRateLimiter(config.rateLimitPerMinute);
+
+const sendJson = (res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) => {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(body));
+};
+
+// Reads the body while counting bytes, so an oversized request is cut off instead of buffered
+const readJsonBody = async (req: IncomingMessage): Promise<Record<string, unknown>> => {
+  const declared = Number(req.headers['content-length']);
+  if (declared > config.maxBodyBytes) {
+    throw new HttpError(413, `Request body exceeds ${config.maxBodyBytes} bytes`);
+  }
+
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > config.maxBodyBytes) {
+      throw new HttpError(413, `Request body exceeds ${config.maxBodyBytes} bytes`);
+    }
+    chunks.push(chunk);
+  }
+
+  try {
+    const json = JSON.parse(Buffer.concat(chunks).toString('utf8'));
+    if (json && typeof json === 'object' && !Array.isArray(json)) {
+      return json;
+    }
+  } catch {
+    // Reported below
+  }
+  throw new HttpError(400, 'Request body must be a JSON object');
+};
+
+const requireString = (body: Record<string, unknown>, key: string): string => {
+  const value = body[key];
+  if (typeof value !== 'string' || !value.trim()) {
+    throw new HttpError(400, `"${key}" must be a non-empty string`);
+  }
+  return value;
+};
+
+const readStringList = (body: Record<string, unknown>, key: string): string[] => {
+  const value = body[key] ?? [];
+  if (!Array.isArray(value) || value.some(item => typeof item !== 'string')) {
+    throw new HttpError(400, `"${key}" must be a list of strings`);
+  }
+  return value;
+};
+
+const readFindings = (body: Record<string, unknown>): AnalysisFinding[] => {
+  const value = body.findings;
+  const valid = Array.isArray(value) && value.every(item =>
+    item && typeof item === 'object' &&
+    typeof item.testName === 'string' &&
+    typeof item.interpretation === 'string' &&
+    FINDING_SEVERITIES.includes(item.severity as FindingSeverity) &&
+    (item.section === undefined || typeof item.section === 'string')
+  );
+  if (!valid) {
+    throw new HttpError(400, '"findings" must be a list of { testName, severity, interpretation }');
+  }
+  return (value as AnalysisFinding[]).map(({ testName, severity, interpretation, section }) => ({ testName, severity, interpretation, section }));
+};
+
+const readLetterOptions = (body: Record<string, unknown>): LetterOptions => {
+  const options = (body.options ?? {}) as Partial<LetterOptions>;
+  if (
+    !LETTER_TEMPLATES.some(t => t.value === options.template) ||
+    !LETTER_LANGUAGES.some(l => l.value === options.language) ||
+    !READING_LEVELS.some(r => r.value === options.readingLevel)
+  ) {
+    throw new HttpError(400, '"options" must contain a valid template, language and readingLevel');
+  }
+  return {
+    template: options.template!,
+    language: options.language!,
+    readingLevel: options.readingLevel!,
+    mentionSampleDate: options.mentionSampleDate === true
+  };
+};
+
+// Settings are optional; without them the first enabled provider is used with its default model
+const readLlmSettings = (body: Record<string, unknown>): LlmSettings => {
+  const llm = (body.llm ?? {}) as Partial<LlmSettings>;
+  const provider = llm.provider ?? listProviders()[0]?.id;
+  if (!LLM_PROVIDERS.some(p => p.value === provider)) {
+    throw new HttpError(400, `"llm.provider" must be one of ${LLM_PROVIDERS.map(p => p.value).join(', ')}`);
+  }
+  if (llm.model !== undefined && (typeof llm.model !== 'string' || llm.model.length > 100)) {
+    throw new HttpError(400, '"llm.model" must be a model name');
+  }
+  const temperature = llm.temperature ?? 0;
+  if (typeof temperature !== 'number' || temperature < 0 || temperature > 2) {
+    throw new HttpError(400, '"llm.temperature" must be a number between 0 and 2');
+  }
+  const model = llm.model?.trim() || listProviders().find(p => p.id === provider)?.defaultModel || '';
+  return { provider: provider!, model, temperature };
+};
+
+type RouteHandler = (body: Record<string, unknown>) => Promise<unknown>;
+
+const ROUTES: Record<string, RouteHandler> = {
+  '/analyze': async body =>
+    analyzeBloodwork(
+      requireString(body, 'text'),
+      readStringList(body, 'testNames'),
+      readStringList(body, 'instructions'),
+      readLlmSettings(body)
+    ),
+  '/structure': async body => ({
+    rows: await structureTableData(requireString(body, 'text'), readLlmSettings(body))
+  }),
+  '/letter': async body => ({
+    letter: await generatePatientLetter(readFindings(body), readLetterOptions(body), readLlmSettings(body))
+  })
+};
+
+// What the settings panel may offer; never includes keys or endpoints
+const describeProviders = () =>
+  listProviders().map(({ id, label, defaultModel, configured }) => ({ id, label, defaultModel, configured }));
+
+const handleRequest = async (req: IncomingMessage, res: ServerResponse) => {
+  const cors = {
+    'Access-Control-Allow-Origin': config.allowedOrigin,
+    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type'
+  };
+
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204, cors);
+    res.end();
+    return;
+  }
+
+  try {
+    const pathname = new URL(req.url ?? '/', 'http://localhost').pathname;
+    if (pathname === '/providers' && req.method === 'GET') {
+      sendJson(res, 200, { providers: describeProviders() }, cors);
+      return;
+    }
+
+    const route = ROUTES[pathname];
+    if (!route) {
+      throw new HttpError(404, 'Not found');
+    }
+    if (req.method !== 'POST') {
+      throw new HttpError(405, 'Use POST', { Allow: 'POST, OPTIONS' });
+    }
+
+    const { allowed, retryAfterSeconds } = isLimited(req.socket.remoteAddress ?? 'unknown');
+    if (!allowed) {
+      throw new HttpError(429, 'Too many requests, please wait a moment', { 'Retry-After': String(retryAfterSeconds) });
+    }
+
+    sendJson(res, 200, await route(await readJsonBody(req)), cors);
+  } catch (error) {
+    if (error instanceof HttpError) {
+      sendJson(res, error.status, { error: error.message }, { ...cors, ...error.headers });
+    } else if (error instanceof InvalidResponseError) {
+      sendJson(res, 422, { error: error.message, details: error.errors }, cors);
+    } else if (error instanceof ProviderUnavailableError) {
+      sendJson(res, 503, { error: error.message }, cors);
+    } else {
+      console.error(`${req.method} ${req.url} failed:`, error);
+      sendJson(res, 502, { error: error instanceof Error ? error.message : 'The language model request failed' }, cors);
+    }
+  }
+};
+
+createServer((req, res) => {
+  void handleRequest(req, res);
+}).listen(config.port, '127.0.0.1', () => {
+  console.log(`Lab letter API listening on http://127.0.0.1:${config.port}`);
+  console.log(`Providers: ${describeProviders().map(p => `${p.id}${p.configured ? '' : ' (not configured)'}`).join(', ')}`);
+});
@@ -0,0 +1,246 @@
+import { mapStructuredText, StructuredLabRow, validateStructuredRows } from '../src/utils/structuredRows';
+import { AnalysisFinding, BloodworkAnalysis, groupFindings, validateAnalysisResponse } from '../src/utils/analysisFindings';
+import { LETTER_PLACEHOLDERS, LetterOptions } from '../src/utils/letterTemplates';
+import { LlmSettings } from '../src/config/settings';
+import { applyRedactionHooks } from './redaction';
+import { ChatMessage, getProvider, LlmTask } from './providers';
+
+const STRUCTURING_SYSTEM_PROMPT = `You are an AI assistant that specializes in converting OCR'd table text into structured data.
+          Your task is to interpret the provided OCR text that originated from a table and convert it into a well-structured JSON format. Example:   {
+            "test_name": "Cortisol ochtend",
+            "results": [
+              { "value": 16.8, "date": "12/03/2026" },
+              { "value": 12.6, "date": "01/11/2025" }
+            ],
+            "reference_range_lower_value": "4.3",
+            "reference_range_upper_value": "22.4",
+            "unit": "µg/dL",
+            "comment": "Risico indicatie bij hoge waardes",
+            "section": "HORMONEN"
+          }
+          Follow these guidelines:
+          1. Ensure all values are taken into account. Copy every unit exactly as printed (mg/dL, mmol/L, µmol/L, etc.) and never convert values between units
+          2. Stick to the example format, do not add any other keys. If you cannot find a value, use null.
+          3. Create an array of objects where each object represents a row in the original table, and return it as {"rows": [...]}
+          4. Handle any misalignments or OCR errors intelligently and feed possible errors to the user with the tag "ERROR".
+             Put the tag inside the affected value as "<best reading> ERROR: <short reason>", e.g. "1.5 ERROR: decimal point unclear".
+          5. List every result column of the row in "results", newest sample first, each with the sample date printed above its column exactly as written, or null when no date is printed.
+          6. Put the panel heading the row is printed under (e.g. "HEMATOLOGIE") in "section" as written, or null when there is none.
+          7. Return only valid JSON with no explanations or markdown`;
+
+const ANALYSIS_SYSTEM_PROMPT = `You are a medical assistant specializing in blood work analysis. Analyze the provided blood test results and report every result that is out of range.
+          When a 'Locally evaluated results' section is present, treat its LOW/NORMAL/HIGH flags as authoritative and do not re-classify those values.
+          Each result line gives the newest value of a test; values after 'earlier:' are older samples of the same test. Judge the newest value and use the earlier ones only to describe its course.
+          Results are grouped per panel under headings such as 'Haematology (1 of 5 out of range):'. In the summary, discuss the results panel by panel, and relate findings within the same panel to each other.
+          When a 'Trends over saved reports' section is present, mention relevant trends in the interpretation of the affected tests, also for values within range.
+          Results listed under 'Unit warnings' have a unit that could not be verified: do not judge their magnitude, and say in their interpretation that the unit should be checked.
+          Respond with JSON only, in this format:
+          {
+            "summary": "One or two sentences on the overall picture",
+            "findings": [
+              { "test_name": "Ferritine", "severity": "moderate", "interpretation": "Low ferritin suggests depleted iron stores." }
+            ]
+          }
+          Follow these guidelines:
+          1. Create one finding per out-of-range test and no findings for values within range.
+          2. "test_name" must be copied exactly from the list of test names given by the user.
+          3. "severity" is one of "mild", "moderate" or "severe".
+          4. "interpretation" is a single line of clear, professional text.`;
+
+// How many times a malformed response is sent back for repair
+const MAX_RESPONSE_ATTEMPTS = 3;
+
+// Raised when the model keeps returning JSON that does not match the expected schema
+export class InvalidResponseError extends Error {
+  constructor(message: string, public readonly errors: string[]) {
+    super(message);
+    this.name = 'InvalidResponseError';
+  }
+}
+
+/**
+ * Requests a JSON completion and sends invalid responses back to the model with the
+ * validation errors until it produces a valid one or the attempts run out
+ */
+const requestValidatedJson = async <T>(
+  settings: LlmSettings,
+  task: LlmTask,
+  messages: ChatMessage[],
+  validate: (json: unknown) => { value: T | null; errors: string[] },
+  repairInstruction: string,
+  label: string
+): Promise<T> => {
+  const provider = getProvider(settings);
+  let errors: string[] = [];
+
+  for (let attempt = 1; attempt <= MAX_RESPONSE_ATTEMPTS; attempt++) {
+    const content = await provider.complete({
+      task,
+      messages,
+      model: settings.model,
+      temperature: settings.temperature,
+      json: true
+    });
+
+    try {
+      const { value, errors: validationErrors } = validate(JSON.parse(content));
+      if (value !== null && validationErrors.length === 0) {
+        return value;
+      }
+      errors = validationErrors;
+    } catch (error) {
+      errors = [`Response is not valid JSON: ${error instanceof Error ? error.message : String(error)}`];
+    }
+
+    console.warn(`${label} attempt ${attempt} returned an invalid response:`, errors);
+    // Send the response back with the violations so the model can repair it
+    messages.push(
+      { role: "assistant", content },
+      {
+        role: "user",
+        content: `Your response did not match the required format:\n- ${errors.join('\n- ')}\n\n${repairInstruction}`
+      }
+    );
+  }
+
+  throw new InvalidResponseError(
+    `The ${label.toLowerCase()} response was still invalid after ${MAX_RESPONSE_ATTEMPTS} attempts`,
+    errors
+  );
+};
+
+/**
+ * Analyzes blood work and returns one finding per out-of-range test
+ * @param text The report text as redacted in the browser, including the local evaluation
+ * @param testNames Template test names the findings must be keyed to
+ * @param instructions Practice rules that apply to these results
+ * @param settings Provider, model and temperature chosen in the settings panel
+ * @returns A summary and the findings
+ * @throws InvalidResponseError when no valid response is produced within the retry budget
+ */
+export const analyzeBloodwork = async (
+  text: string,
+  testNames: string[],
+  instructions: string[],
+  settings: LlmSettings
+): Promise<BloodworkAnalysis> => {
+  const { text: redactedText, restore } = applyRedactionHooks(text);
+
+  const systemPrompt = instructions.length > 0
+    ? `${ANALYSIS_SYSTEM_PROMPT}\n          Practice rules, which take precedence over general guidance:\n${instructions.map(i => `          - ${i}`).join('\n')}`
+    : ANALYSIS_SYSTEM_PROMPT;
+  const nameList = testNames.length > 0 ? `Test names:\n${testNames.map(name => `- ${name}`).join('\n')}\n\n` : '';
+  const analysis = await requestValidatedJson(
+    settings,
+    'analysis',
+    [
+      { role: "system", content: systemPrompt },
+      { role: "user", content: `${nameList}Please analyze these blood test results:\n\n${redactedText}` }
+    ],
+    json => {
+      const { analysis, errors } = validateAnalysisResponse(json, testNames);
+      return { value: analysis, errors };
+    },
+    'Return the complete corrected JSON with "summary" and "findings" only.',
+    'Analysis'
+  );
+
+  return {
+    summary: restore(analysis.summary),
+    findings: analysis.findings.map(finding => ({ ...finding, interpretation: restore(finding.interpretation) }))
+  };
+};
+
+/**
+ * Converts OCR'd text from tables to structured rows, repairing malformed responses
+ * @param ocrText The unstructured OCR'd text from a table
+ * @param settings Provider, model and temperature chosen in the settings panel
+ * @returns Rows that match the structuring schema
+ * @throws InvalidResponseError when no valid response is produced within the retry budget
+ */
+export const structureTableData = async (ocrText: string, settings: LlmSettings): Promise<StructuredLabRow[]> => {
+  const { text: redactedText, restore } = applyRedactionHooks(ocrText);
+
+  const rows = await requestValidatedJson(
+    settings,
+    'structuring',
+    [
+      { role: "system", content: STRUCTURING_SYSTEM_PROMPT },
+      { role: "user", content: `Convert this extracted text (OCR) to structured JSON:\n\n${redactedText}` }
+    ],
+    json => {
+      const { rows, errors } = validateStructuredRows(json);
+      return { value: errors.length === 0 ? rows : null, errors };
+    },
+    'Return the complete corrected JSON as {"rows": [...]} using exactly the keys from the example.',
+    'Structuring'
+  );
+
+  // Restore inside the parsed values; restoring the raw JSON could break its quoting
+  return mapStructuredText(rows, restore);
+};
+
+const LETTER_INSTRUCTIONS: Record<LetterOptions['template'], string> = {
+  'normal': 'The results are reassuring; no action is needed.',
+  'follow-up': 'Some results need a follow-up appointment; ask the patient to make one.',
+  'urgent': 'Some results need prompt attention; ask the patient to contact the practice as soon as possible.'
+};
+
+/**
+ * Turns curated findings into a letter for the patient
+ * @param findings The findings the clinician kept
+ * @param options Template, language and reading level
+ * @param settings Provider, model and temperature chosen in the settings panel
+ * @returns The letter, still containing the practice placeholders
+ */
+export const generatePatientLetter = async (
+  findings: AnalysisFinding[],
+  options: LetterOptions,
+  settings: LlmSettings
+): Promise<string> => {
+  const language = options.language === 'nl' ? 'Dutch' : 'English';
+  const level = options.readingLevel === 'plain'
+    ? 'Use plain language at a primary-school reading level: short sentences, no medical jargon.'
+    : 'Use clear, standard language; medical terms are fine if briefly explained.';
+  const findingList = findings.length > 0
+    ? groupFindings(findings)
+      .map(({ section, findings: grouped }) => {
+        const lines = grouped.map(f => `- ${f.testName} (${f.severity}): ${f.interpretation}`).join('\n');
+        return section ? `${section}:\n${lines}` : lines;
+      })
+      .join('\n\n')
+    : '- No out-of-range results.';
+  const { text: redactedFindings, restore } = applyRedactionHooks(findingList);
+  // The date never reaches the model; the placeholder is filled in the browser
+  const sampleDate = options.mentionSampleDate
+    ? `\n          Mention when the blood was taken by writing ${LETTER_PLACEHOLDERS.sampleDate} exactly as written, never a date.`
+    : '';
+
+  const content = await getProvider(settings).complete({
+    task: 'letter',
+    model: settings.model,
+    temperature: settings.temperature,
+    json: false,
+    messages: [
+      {
+        role: "system",
+        content: `You are a general practitioner writing a short letter to a patient about their blood test results.
+          Write in ${language}. ${level} ${LETTER_INSTRUCTIONS[options.template]}
+          Do not use the patient's name; address them generically.${sampleDate}
+          When the findings are grouped under panel headings, discuss them panel by panel.
+          End the letter with these placeholders, each on its own line, exactly as written: ${LETTER_PLACEHOLDERS.signature}, ${LETTER_PLACEHOLDERS.physicianName}, ${LETTER_PLACEHOLDERS.practiceName}.
+          Return only the letter text.`
+      },
+      {
+        role: "user",
+        content: `Findings reviewed by the physician:\n${redactedFindings}`
+      }
+    ]
+  });
+
+  const letter = content.trim();
+  if (!letter) {
+    throw new Error('The letter response was empty');
+  }
+  return restore(letter);
+}; 
\ No newline at end of file
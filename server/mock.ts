@@ -0,0 +1,69 @@
+import { StructuredLabRow } from '../src/utils/structuredRows';
+import { LETTER_PLACEHOLDERS } from '../src/utils/letterTemplates';
+import { parseLabReport } from '../src/utils/labReportParser';
+
+// Responses the mock provider derives from a request when no fixture matches. Each receives the
+// last user message and returns what a model would, so validation and repair run unchanged.
+
+// The catalogue identity in brackets is not part of the test name
+const EVALUATION_LINE = /^- (.+?)(?: \[[^\]]*\])?: .* => (HIGH|LOW)\b/;
+const FINDING_LINE = /^- (.+?) \((mild|moderate|severe)\): (.*)$/;
+
+// Everything after the first blank line, i.e. the text below the instruction
+const stripInstruction = (input: string): string => input.slice(input.indexOf('\n\n') + 2);
+
+/**
+ * Builds one finding per HIGH/LOW line of the "Locally evaluated results" block
+ */
+export const mockAnalysisResponse = (input: string) => {
+  const findings = input
+    .split('\n')
+    .map(line => EVALUATION_LINE.exec(line.trim()))
+    .filter((match): match is RegExpExecArray => match !== null)
+    .map(([, testName, status]) => ({
+      test_name: testName,
+      severity: 'mild',
+      interpretation: `${testName} is ${status === 'HIGH' ? 'above' : 'below'} the reference range (mock response).`
+    }));
+
+  return {
+    summary: findings.length > 0
+      ? `Mock analysis: ${findings.length} result(s) outside the reference range.`
+      : 'Mock analysis: all evaluated results are within range.',
+    findings
+  };
+};
+
+/**
+ * Structures the text with the local parser instead of a model
+ */
+export const mockStructuringResponse = (input: string): { rows: StructuredLabRow[] } => ({
+  rows: parseLabReport(stripInstruction(input)).rows.map(row => ({
+    test_name: row.testName,
+    results: row.results.map(result => ({ value: result.value || null, date: result.date || null })),
+    reference_range_lower_value: row.referenceLower || null,
+    reference_range_upper_value: row.referenceUpper || null,
+    unit: row.unit || null,
+    comment: row.comments || null,
+    section: row.section ?? null
+  }))
+});
+
+export const mockLetterResponse = (input: string): string => {
+  const lines = input
+    .split('\n')
+    .map(line => FINDING_LINE.exec(line.trim()))
+    .filter((match): match is RegExpExecArray => match !== null)
+    .map(([, testName, , interpretation]) => `- ${testName}: ${interpretation}`);
+
+  return [
+    'Dear patient,',
+    '',
+    'This is a mock letter about your recent blood test.',
+    ...(lines.length > 0 ? ['', ...lines] : []),
+    '',
+    LETTER_PLACEHOLDERS.signature,
+    LETTER_PLACEHOLDERS.physicianName,
+    LETTER_PLACEHOLDERS.practiceName
+  ].join('\n');
+};
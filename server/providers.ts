@@ -0,0 +1,147 @@
+import OpenAI from 'openai';
+import { readFileSync } from 'node:fs';
+import { config } from './config';
+import { LlmProviderId, LlmSettings } from '../src/config/settings';
+import { mockAnalysisResponse, mockLetterResponse, mockStructuringResponse } from './mock';
+
+export type LlmTask = 'analysis' | 'structuring' | 'letter';
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface CompletionRequest {
+  task: LlmTask;
+  messages: ChatMessage[];
+  model: string;
+  temperature: number;
+  // Ask for a JSON object response where the backend supports it
+  json: boolean;
+}
+
+// A backend that turns chat messages into a completion; prompts and validation stay in llm.ts
+export interface LlmProvider {
+  id: LlmProviderId;
+  label: string;
+  defaultModel: string;
+  // True when the provider can run on this machine or its configured endpoint
+  configured: boolean;
+  complete: (request: CompletionRequest) => Promise<string>;
+}
+
+// Raised when a request names a provider that is disabled or not configured on this server
+export class ProviderUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProviderUnavailableError';
+  }
+}
+
+const createOpenAiProvider = (
+  id: LlmProviderId,
+  label: string,
+  defaultModel: string,
+  client: OpenAI | null
+): LlmProvider => ({
+  id,
+  label,
+  defaultModel,
+  configured: client !== null,
+  complete: async ({ messages, model, temperature, json }) => {
+    if (!client) {
+      throw new ProviderUnavailableError(`The ${label} provider is not configured on the server`);
+    }
+    const completion = await client.chat.completions.create({
+      model,
+      temperature,
+      ...(json ? { response_format: { type: 'json_object' as const } } : {}),
+      messages
+    });
+    return completion.choices[0]?.message.content ?? '';
+  }
+});
+
+interface MockFixture {
+  task: LlmTask;
+  // Regular expression (^ and $ match per line) tested on the last user message; no match means always
+  match?: string;
+  response: unknown;
+}
+
+const loadFixtures = (): MockFixture[] => {
+  try {
+    return JSON.parse(readFileSync(config.mockFixturesPath, 'utf8')) as MockFixture[];
+  } catch (error) {
+    console.warn(`Mock fixtures could not be read from ${config.mockFixturesPath}`, error);
+    return [];
+  }
+};
+
+// Answers from fixtures first and otherwise derives a response from the request, so it is
+// deterministic and never touches the network
+const createMockProvider = (): LlmProvider => {
+  const fixtures = loadFixtures();
+  const generators: Record<LlmTask, (input: string) => unknown> = {
+    analysis: mockAnalysisResponse,
+    structuring: mockStructuringResponse,
+    letter: mockLetterResponse
+  };
+
+  return {
+    id: 'mock',
+    label: 'Mock (fixtures, offline)',
+    defaultModel: 'fixtures',
+    configured: true,
+    complete: async ({ task, messages }) => {
+      const input = messages.filter(m => m.role === 'user').at(-1)?.content ?? '';
+      const fixture = fixtures.find(f => f.task === task && (!f.match || new RegExp(f.match, 'm').test(input)));
+      const response = fixture ? fixture.response : generators[task](input);
+      return typeof response === 'string' ? response : JSON.stringify(response);
+    }
+  };
+};
+
+const PROVIDERS: LlmProvider[] = [
+  createOpenAiProvider(
+    'openai',
+    'OpenAI',
+    'gpt-4o',
+    config.openaiApiKey ? new OpenAI({ apiKey: config.openaiApiKey }) : null
+  ),
+  createOpenAiProvider(
+    'openai-compatible',
+    'Local (OpenAI-compatible)',
+    config.localLlm.model,
+    config.localLlm.baseUrl
+      // Local servers usually ignore the key, but the client requires one
+      ? new OpenAI({ baseURL: config.localLlm.baseUrl, apiKey: config.localLlm.apiKey || 'not-needed' })
+      : null
+  ),
+  createMockProvider()
+];
+
+/**
+ * Lists the providers this server allows, for the settings panel
+ */
+export const listProviders = (): LlmProvider[] =>
+  PROVIDERS.filter(provider => config.enabledProviders.includes(provider.id));
+
+/**
+ * Finds the provider named in the request settings
+ * @throws ProviderUnavailableError when it is disabled or has no credentials/endpoint
+ */
+export const getProvider = (settings: LlmSettings): LlmProvider => {
+  const provider = listProviders().find(p => p.id === settings.provider);
+  if (!provider) {
+    throw new ProviderUnavailableError(`The "${settings.provider}" provider is not enabled on this server`);
+  }
+  if (!provider.configured) {
+    throw new ProviderUnavailableError(
+      provider.id === 'openai'
+        ? 'OPENAI_API_KEY is not set on the server. Add it to .env or choose another provider.'
+        : 'LOCAL_LLM_BASE_URL is not set on the server. Add it to .env or choose another provider.'
+    );
+  }
+  return provider;
+};
@@ -0,0 +1,36 @@
+interface Window {
+  startedAt: number;
+  count: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  retryAfterSeconds: number;
+}
+
+/**
+ * Creates a fixed-window rate limiter keyed by client address
+ * @param limit Requests allowed per window
+ * @param windowMs Window length in milliseconds
+ */
+export const createRateLimiter = (limit: number, windowMs = 60_000) => {
+  const windows = new Map<string, Window>();
+
+  return (key: string, now = Date.now()): RateLimitResult => {
+    const current = windows.get(key);
+    if (!current || now - current.startedAt >= windowMs) {
+      windows.set(key, { startedAt: now, count: 1 });
+      // Drop stale windows so the map does not grow with every client ever seen
+      windows.forEach((window, otherKey) => {
+        if (now - window.startedAt >= windowMs) windows.delete(otherKey);
+      });
+      return { allowed: true, retryAfterSeconds: 0 };
+    }
+
+    current.count++;
+    if (current.count > limit) {
+      return { allowed: false, retryAfterSeconds: Math.ceil((current.startedAt + windowMs - now) / 1000) };
+    }
+    return { allowed: true, retryAfterSeconds: 0 };
+  };
+};
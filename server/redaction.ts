@@ -0,0 +1,41 @@
+import { redactText, restoreRedactions } from '../src/utils/redaction';
+
+// A hook that removes sensitive data before text leaves the server; restore puts it back in the response
+export interface RedactionHook {
+  name: string;
+  apply: (text: string) => { text: string; restore: (response: string) => string };
+}
+
+// Safety net behind the browser-side preview. Placeholders the browser already inserted are
+// left alone and new ones are numbered after them, so both sides can restore their own values.
+const piiHook: RedactionHook = {
+  name: 'pii',
+  apply: text => {
+    const { redactedText, entities } = redactText(text);
+    return { text: redactedText, restore: response => restoreRedactions(response, entities) };
+  }
+};
+
+const hooks: RedactionHook[] = process.env.SERVER_REDACTION === 'off' ? [] : [piiHook];
+
+export const registerRedactionHook = (hook: RedactionHook) => {
+  hooks.push(hook);
+};
+
+/**
+ * Runs an outbound text through every registered hook
+ * @returns The redacted text and a function that restores a response in reverse hook order
+ */
+export const applyRedactionHooks = (text: string): { text: string; restore: (response: string) => string } => {
+  const restorers: ((response: string) => string)[] = [];
+  const redacted = hooks.reduce((current, hook) => {
+    const result = hook.apply(current);
+    restorers.unshift(result.restore);
+    return result.text;
+  }, text);
+
+  return {
+    text: redacted,
+    restore: response => restorers.reduce((current, restore) => restore(current), response)
+  };
+};
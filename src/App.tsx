@@ -1,63 +1,169 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import FileUpload from './components/FileUpload';
 import StatusDisplay from './components/StatusDisplay';
 import TextSection from './components/TextSection';
 import Button from './components/ui/Button';
 import Section from './components/ui/Section';
-import useOcrProcessing from './hooks/useOcrProcessing';
-import LabResultsTemplate, { LabResultRow } from './components/LabResultsTemplate.tsx';
+import useOcrProcessing, { DocumentInput } from './hooks/useOcrProcessing';
+import LabResultsTemplate, { CellPosition, LabResultRow } from './components/LabResultsTemplate.tsx';
+import RedactionPreview from './components/RedactionPreview';
+import UnparsedLines from './components/UnparsedLines';
+import FindingsPanel from './components/FindingsPanel';
+import PatientLetter from './components/PatientLetter';
+import RulesEditor from './components/RulesEditor';
+import SettingsPanel from './components/SettingsPanel';
+import ColumnMappingReview from './components/ColumnMappingReview';
+import SourceViewer from './components/SourceViewer';
+import PreprocessingPanel from './components/PreprocessingPanel';
+import CornerCropper from './components/CornerCropper';
+import DocumentQueue from './components/DocumentQueue';
+import HistoryPanel from './components/HistoryPanel';
+import useReportHistory from './hooks/useReportHistory';
+import { AppSettings, loadSettings, saveSettings, withAvailableProvider } from './config/settings';
+import { fetchProviders } from './services/labApi';
+import { OcrLanguageChoice } from './config/ocrLanguages';
+import { evaluateRules, loadRulesFile, PatientContext, RulesFile } from './utils/rulesEngine';
+import { checkRowUnit } from './utils/units';
+import { resolveRowAnalytes } from './utils/analytes';
+import { parseLabReport } from './utils/labReportParser';
+import { findUncertainValues } from './utils/confidence';
+import { documentKind } from './utils/documentFiles';
+import { buildTrends } from './utils/trends';
+import { newestSampleDate } from './utils/resultSeries';
+
+// Today as YYYY-MM-DD in local time, the sample date when the report prints none
+const today = (): string => {
+  const date = new Date();
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+};
 
 const App: React.FC = () => {
-  const [file, setFile] = useState<File | null>(null);
-  const [labResults, setLabResults] = useState<LabResultRow[]>([]);
+  const [fillMode, setFillMode] = useState<'parser' | 'ai'>('parser');
+  const [rulesFile, setRulesFile] = useState<RulesFile>(loadRulesFile);
+  const [patientContext, setPatientContext] = useState<PatientContext>({ sex: 'unknown' });
+  const [settings, setSettings] = useState<AppSettings>(loadSettings);
+  const [activeCell, setActiveCell] = useState<CellPosition | null>(null);
+  const [ocrLanguage, setOcrLanguage] = useState<OcrLanguageChoice>(() => loadSettings().ocr.language);
+  const [showCropper, setShowCropper] = useState(false);
+  const [patientId, setPatientId] = useState('');
+  // Per document: its sample date and the id of its saved copy in the history
+  const [sampleDates, setSampleDates] = useState<Record<string, string>>({});
+  const [savedReportIds, setSavedReportIds] = useState<Record<string, string>>({});
+  const history = useReportHistory(patientId);
+
+  // The stored provider may not be enabled on this server, e.g. when it runs with --mock
+  useEffect(() => {
+    fetchProviders()
+      .then(providers => {
+        const current = loadSettings();
+        const available = withAvailableProvider(current, providers);
+        if (available === current) return;
+        saveSettings(available);
+        setSettings(available);
+      })
+      .catch(error => console.warn('Providers could not be listed, keeping the stored provider', error));
+  }, []);
   const {
     state: {
       extractedText,
-      analysisText,
-      isOcrProcessing,
+      ocrWords,
+      table,
+      analysisSummary,
+      findings,
+      letterText,
+      isLetterProcessing,
       isAnalysisProcessing,
+      isStructuringProcessing,
       error,
       processingStatus,
-      progress
+      progress,
+      pageMethods,
+      pageRenders,
+      ocrLanguage: documentLanguage,
+      pageCorrections,
+      redaction,
+      labResults,
+      unparsedLines
     },
-    handleOcr,
+    documents,
+    activeDocument,
+    selectDocument,
+    addDocuments,
+    removeDocument,
+    retryDocument,
+    setDocumentQuad,
+    processQueue,
+    handleStructuring,
+    prepareAnalysis,
+    toggleRedactionEntity,
+    cancelAnalysis,
     handleAnalysis,
+    handleLetter,
     updateState,
     cancelProcessing
   } = useOcrProcessing();
 
-  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files && e.target.files.length > 0) {
-      const selectedFile = e.target.files[0];
-      if (selectedFile.type === 'application/pdf' || selectedFile.type.startsWith('image/')) {
-        setFile(selectedFile);
-      } else {
-        alert('Please upload a PDF or image file');
-      }
+  // Every change re-resolves the analytes, so an edited test name is matched again
+  const setLabResults = (rows: LabResultRow[]) => updateState({ labResults: resolveRowAnalytes(rows) });
+
+  const handleAddDocuments = (added: DocumentInput[]) => {
+    addDocuments(added);
+    if (added.length > 0) {
+      setShowCropper(false);
+      setActiveCell(null);
     }
   };
 
-  const populateLabResultsTemplate = () => {
-    setLabResults([
-      {
-        testName: '',
-        result: '',
-        previousResult: '',
-        referenceLower: '',
-        referenceUpper: '',
-        unit: '',
-        comments: ''
-      },
-      {
-        testName: '',
-        result: '',
-        previousResult: '',
-        referenceLower: '',
-        referenceUpper: '',
-        unit: '',
-        comments: ''
-      }
-    ]);
+  // Corners can be set by hand for a single photo; scanners and PDFs have no background to crop
+  const activeFile = activeDocument?.files[0] ?? null;
+  const activeKind = activeFile ? documentKind(activeFile) : null;
+  const canCrop = activeDocument?.files.length === 1 && (activeKind === 'image' || activeKind === 'heic');
+
+  const documentKey = activeDocument?.id ?? '';
+  const collectedAt = sampleDates[documentKey] ?? (newestSampleDate(labResults) || today());
+  const savedReportId = savedReportIds[documentKey] ?? null;
+
+  // The report being worked on joins the saved ones; its own saved copy is left out so it is not counted twice
+  const trends = buildTrends([
+    ...history.reports
+      .filter(report => report.id !== savedReportId)
+      .map(report => ({ reportId: report.id, collectedAt: report.collectedAt, rows: report.rows })),
+    ...(labResults.length > 0 ? [{ reportId: null, collectedAt, rows: labResults }] : [])
+  ]);
+
+  const handleSaveReport = async () => {
+    const id = savedReportId ?? crypto.randomUUID();
+    await history.save({
+      id,
+      patientId: patientId.trim(),
+      collectedAt,
+      savedAt: new Date().toISOString(),
+      documentName: activeDocument?.name ?? 'Manual entry',
+      // Cell positions only matter while the source document is open
+      rows: labResults.map(row => ({ ...row, cellMeta: undefined }))
+    });
+    setSavedReportIds(ids => ({ ...ids, [documentKey]: id }));
+  };
+
+  const handleDeleteReport = async (reportId: string) => {
+    await history.remove(reportId);
+    setSavedReportIds(ids => Object.fromEntries(Object.entries(ids).filter(([, id]) => id !== reportId)));
+  };
+
+  const handleSelectDocument = (id: string) => {
+    selectDocument(id);
+    setShowCropper(false);
+    setActiveCell(null);
+  };
+
+  const populateLabResultsTemplate = async () => {
+    if (fillMode === 'ai') {
+      await handleStructuring();
+      return;
+    }
+
+    const { rows, unparsedLines } = parseLabReport(extractedText, ocrWords);
+    updateState({ labResults: resolveRowAnalytes(rows), unparsedLines });
   };
 
   return (
@@ -66,55 +172,195 @@ const App: React.FC = () => {
         {/* File Upload Section */}
         <Section title="Upload Lab Results">
           <FileUpload
-            onFileChange={handleFileChange}
-            onProcess={() => file && handleOcr(file)}
-            isProcessing={isOcrProcessing}
+            onAddDocuments={handleAddDocuments}
+            onProcess={() => processQueue(ocrLanguage)}
+            isProcessing={documents.some(document => document.status === 'ocr')}
             onCancel={cancelProcessing}
-            file={file}
+            queuedCount={documents.filter(document => document.status === 'queued').length}
+            language={ocrLanguage}
+            onLanguageChange={setOcrLanguage}
           />
+          <DocumentQueue
+            documents={documents}
+            activeId={activeDocument?.id ?? null}
+            onSelect={handleSelectDocument}
+            onRetry={(id) => retryDocument(id, ocrLanguage)}
+            onRemove={removeDocument}
+          />
+          {/* Manual corners for photos where the page is not found */}
+          {activeDocument && activeFile && canCrop && (
+            <div className="mt-4">
+              <button onClick={() => setShowCropper(!showCropper)} className="mb-2 text-sm text-blue-600 hover:text-blue-800">
+                {showCropper ? 'Hide page corners' : 'Set page corners by hand'}
+              </button>
+              {showCropper && (
+                <CornerCropper
+                  key={activeDocument.id}
+                  file={activeFile}
+                  quad={activeDocument.manualQuad}
+                  onQuadChange={(quad) => setDocumentQuad(activeDocument.id, quad)}
+                />
+              )}
+            </div>
+          )}
         </Section>
 
+        {/* Image preprocessing stages and presets */}
+        <PreprocessingPanel file={activeFile} settings={settings} onSettingsChange={setSettings} />
+
         {/* Status Display */}
         <StatusDisplay
           processingStatus={processingStatus}
           error={error}
           progress={progress}
+          pageMethods={pageMethods}
+          language={documentLanguage}
+          pageCorrections={pageCorrections}
         />
 
         {/* OCR Text Section */}
         <TextSection
           title="Extracted Text (OCR)"
           value={extractedText}
-          onChange={(e) => updateState({ extractedText: e.target.value })}
+          onChange={(e) => updateState({ extractedText: e.target.value, ocrWords: [] })}
           placeholder="OCR results will appear here..."
           buttons={
-            <Button
-              onClick={populateLabResultsTemplate}
-              disabled={!extractedText}
-            >
-              Fill Template
-            </Button>
+            <>
+              <select
+                value={fillMode}
+                onChange={(e) => setFillMode(e.target.value as 'parser' | 'ai')}
+                className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+              >
+                <option value="parser">Local parser</option>
+                <option value="ai">AI-assisted</option>
+              </select>
+              <Button
+                onClick={populateLabResultsTemplate}
+                disabled={!extractedText || isStructuringProcessing}
+              >
+                {isStructuringProcessing ? 'Structuring...' : 'Fill Template'}
+              </Button>
+            </>
           }
         />
 
-        {/* Lab Results Template Section */}
-        <LabResultsTemplate
-          data={labResults}
-          onDataChange={setLabResults}
-          onAnalyze={() => {
-            const jsonData = JSON.stringify(labResults, null, 2);
-            updateState({ jsonText: jsonData });
-            handleAnalysis();
-          }}
-          isProcessing={isAnalysisProcessing}
+        {/* Reconstructed table with manual column mapping */}
+        {table && (
+          <ColumnMappingReview
+            table={table}
+            onApply={(rows) => updateState({ labResults: resolveRowAnalytes(rows), unparsedLines: [] })}
+          />
+        )}
+
+        {/* Lab Results Template Section, next to the source document when there is one */}
+        <div className="flex flex-col xl:flex-row gap-6 items-start">
+          <div className="w-full xl:flex-1 min-w-0">
+            {/* Keyed by document so review mode and the shown page start over on switching */}
+            <LabResultsTemplate
+              key={activeDocument?.id}
+              data={labResults}
+              onDataChange={setLabResults}
+              onAnalyze={() => {
+                // A misread decimal point changes the clinical meaning, so uncertain values are checked first
+                const uncertain = findUncertainValues(labResults, settings.ocr.confidenceThreshold).length;
+                if (uncertain > 0) {
+                  const message = `${uncertain} low-confidence value${uncertain === 1 ? ' has' : 's have'} not been confirmed.`;
+                  if (settings.ocr.lowConfidencePolicy === 'block') {
+                    updateState({ error: `${message} Review them before analysing.` });
+                    return;
+                  }
+                  if (!window.confirm(`${message} Analyse anyway?`)) {
+                    return;
+                  }
+                }
+                // A wrong unit makes a value look off by orders of magnitude, so it is not passed on silently
+                const unitIssues = labResults.filter(row => checkRowUnit(row).issue).length;
+                if (unitIssues > 0 && !window.confirm(
+                  `${unitIssues} result${unitIssues === 1 ? ' has' : 's have'} an unknown or inconsistent unit. Analyse anyway?`
+                )) {
+                  return;
+                }
+                const jsonData = JSON.stringify(labResults, null, 2);
+                updateState({ jsonText: jsonData });
+                prepareAnalysis(labResults, rulesFile, patientContext, trends);
+              }}
+              isProcessing={isAnalysisProcessing}
+              ruleFlags={evaluateRules(rulesFile, labResults, patientContext)}
+              confidenceThreshold={settings.ocr.confidenceThreshold}
+              activeCell={activeCell}
+              onActiveCellChange={setActiveCell}
+            />
+          </div>
+          {pageRenders.length > 0 && (
+            <div className="w-full xl:w-2/5 xl:sticky xl:top-4">
+              <SourceViewer
+                key={activeDocument?.id}
+                pages={pageRenders}
+                words={ocrWords}
+                rows={labResults}
+                activeCell={activeCell}
+                onSelectCell={setActiveCell}
+              />
+            </div>
+          )}
+        </div>
+
+        {/* Saved reports of the patient and trends per analyte */}
+        <HistoryPanel
+          patientId={patientId}
+          onPatientIdChange={setPatientId}
+          collectedAt={collectedAt}
+          onCollectedAtChange={(date) => setSampleDates(dates => ({ ...dates, [documentKey]: date }))}
+          reports={history.reports}
+          trends={trends}
+          savedReportId={savedReportId}
+          canSave={labResults.length > 0}
+          onSave={handleSaveReport}
+          onDelete={handleDeleteReport}
+          error={history.error}
+        />
+
+        {/* Rules & Constraints Section */}
+        <RulesEditor
+          rulesFile={rulesFile}
+          onRulesChange={setRulesFile}
+          patientContext={patientContext}
+          onPatientContextChange={setPatientContext}
         />
 
+        {/* Language model and practice settings */}
+        <SettingsPanel settings={settings} onSettingsChange={setSettings} />
+
+        {/* Lines the parser could not read */}
+        <UnparsedLines lines={unparsedLines} />
+
+        {/* Redaction Preview Section */}
+        {redaction && (
+          <RedactionPreview
+            redaction={redaction}
+            onToggleEntity={toggleRedactionEntity}
+            onConfirm={handleAnalysis}
+            onCancel={cancelAnalysis}
+            isProcessing={isAnalysisProcessing}
+          />
+        )}
+
         {/* Analysis Results Section */}
-        <TextSection
-          title="Lab Analysis"
-          value={analysisText}
-          onChange={(e) => updateState({ analysisText: e.target.value })}
-          placeholder="Analysis results will appear here..."
+        <FindingsPanel
+          summary={analysisSummary}
+          findings={findings}
+          rows={labResults}
+          onFindingsChange={(newFindings) => updateState({ findings: newFindings })}
+        />
+
+        {/* Patient Letter Section */}
+        <PatientLetter
+          letterText={letterText}
+          findings={findings.filter(finding => finding.status !== 'dismissed')}
+          onLetterChange={(text) => updateState({ letterText: text })}
+          onGenerate={(options, offline) => handleLetter(labResults, options, offline)}
+          isProcessing={isLetterProcessing}
+          canGenerate={labResults.length > 0}
         />
       </div>
     </div>
@@ -0,0 +1,118 @@
+import React, { useEffect, useRef, useState } from 'react';
+import Button from './ui/Button';
+import { MAX_PAGES } from '../config/uploadLimits';
+
+interface CameraCaptureProps {
+  // Called with one photo per page, in the order they were taken
+  onCapture: (photos: File[]) => void;
+  onClose: () => void;
+}
+
+interface Shot {
+  file: File;
+  url: string;
+}
+
+const CameraCapture: React.FC<CameraCaptureProps> = ({ onCapture, onClose }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [shots, setShots] = useState<Shot[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [ready, setReady] = useState(false);
+
+  // Prefer the rear camera at a resolution high enough for small print
+  useEffect(() => {
+    let stream: MediaStream | null = null;
+    let cancelled = false;
+    navigator.mediaDevices
+      .getUserMedia({ video: { facingMode: { ideal: 'environment' }, width: { ideal: 1920 }, height: { ideal: 1080 } }, audio: false })
+      .then(media => {
+        if (cancelled) {
+          media.getTracks().forEach(track => track.stop());
+          return;
+        }
+        stream = media;
+        if (videoRef.current) {
+          videoRef.current.srcObject = media;
+        }
+      })
+      .catch(err => setError(err instanceof Error && err.name === 'NotAllowedError'
+        ? 'Camera access was denied. Allow it in the browser to take photos.'
+        : 'No camera could be started on this device.'));
+    return () => {
+      cancelled = true;
+      stream?.getTracks().forEach(track => track.stop());
+    };
+  }, []);
+
+  // Release the thumbnails when the capture closes
+  const shotsRef = useRef(shots);
+  shotsRef.current = shots;
+  useEffect(() => () => shotsRef.current.forEach(shot => URL.revokeObjectURL(shot.url)), []);
+
+  const takePhoto = () => {
+    const video = videoRef.current;
+    if (!video || !video.videoWidth) return;
+    const canvas = document.createElement('canvas');
+    canvas.width = video.videoWidth;
+    canvas.height = video.videoHeight;
+    canvas.getContext('2d')!.drawImage(video, 0, 0);
+    canvas.toBlob(blob => {
+      canvas.remove();
+      if (!blob) return;
+      const file = new File([blob], `Page ${shotsRef.current.length + 1}.jpg`, { type: 'image/jpeg' });
+      setShots(current => [...current, { file, url: URL.createObjectURL(blob) }]);
+    }, 'image/jpeg', 0.92);
+  };
+
+  const removeShot = (index: number) => {
+    URL.revokeObjectURL(shots[index].url);
+    setShots(shots.filter((_, i) => i !== index));
+  };
+
+  if (error) {
+    return (
+      <div className="mb-4">
+        <p className="mb-2 text-sm text-red-600">{error}</p>
+        <Button onClick={onClose} className="bg-gray-600 hover:bg-gray-700">Close Camera</Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="mb-4">
+      <p className="mb-2 text-sm text-gray-600">Take one photo per page; the photos are read as one document.</p>
+      <video
+        ref={videoRef}
+        autoPlay
+        playsInline
+        muted
+        onLoadedMetadata={() => setReady(true)}
+        className="w-full max-w-xl rounded-md bg-black"
+      />
+      {shots.length > 0 && (
+        <ol className="mt-2 flex gap-2 overflow-x-auto">
+          {shots.map((shot, index) => (
+            <li key={shot.url} className="relative shrink-0">
+              <img src={shot.url} alt={`Page ${index + 1}`} className="h-24 rounded-md border border-gray-200" />
+              <button
+                onClick={() => removeShot(index)}
+                className="absolute top-1 right-1 px-1 rounded bg-white/80 text-xs text-red-600"
+              >
+                Remove
+              </button>
+            </li>
+          ))}
+        </ol>
+      )}
+      <div className="mt-2 flex flex-wrap items-center gap-3">
+        <Button onClick={takePhoto} disabled={!ready || shots.length >= MAX_PAGES}>Take Photo</Button>
+        <Button onClick={() => onCapture(shots.map(shot => shot.file))} disabled={shots.length === 0}>
+          Use {shots.length === 1 ? '1 Photo' : `${shots.length} Photos`}
+        </Button>
+        <Button onClick={onClose} className="bg-gray-600 hover:bg-gray-700">Cancel</Button>
+      </div>
+    </div>
+  );
+};
+
+export default CameraCapture;
@@ -0,0 +1,172 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import Section from './ui/Section';
+import Button from './ui/Button';
+import { LAB_RESULT_FIELDS, LabResultField, LabResultRow, resultLabel } from './LabResultsTemplate';
+import { ReconstructedTable } from '../types/table';
+import {
+  applyOperations,
+  buildMappingGrid,
+  ColumnOperation,
+  ColumnTarget,
+  guessTargets,
+  layoutSignature,
+  loadColumnMapping,
+  mapGridRows,
+  rowPattern,
+  saveColumnMapping
+} from '../utils/columnMapping';
+import { resultField } from '../utils/resultSeries';
+
+interface ColumnMappingReviewProps {
+  table: ReconstructedTable;
+  onApply: (rows: LabResultRow[]) => void;
+}
+
+const headerClassName = 'px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider';
+
+const ColumnMappingReview: React.FC<ColumnMappingReviewProps> = ({ table, onApply }) => {
+  const baseGrid = useMemo(() => buildMappingGrid(table), [table]);
+  const signature = useMemo(() => layoutSignature(baseGrid), [baseGrid]);
+
+  const [operations, setOperations] = useState<ColumnOperation[]>([]);
+  const [targets, setTargets] = useState<ColumnTarget[]>([]);
+  const [dropped, setDropped] = useState<Set<string>>(new Set());
+  const [usedSavedMapping, setUsedSavedMapping] = useState(false);
+
+  const grid = useMemo(() => applyOperations(baseGrid, operations), [baseGrid, operations]);
+  // Any column may be one of the result columns, so there are as many result fields as columns
+  const targetOptions: { field: LabResultField; label: string }[] = [
+    LAB_RESULT_FIELDS[0],
+    ...grid.columnNames.map((_, index) => ({ field: resultField(index), label: resultLabel(index) })),
+    ...LAB_RESULT_FIELDS.slice(1)
+  ];
+
+  // Start from the mapping saved for this layout, and apply it straight away when there is one
+  useEffect(() => {
+    const saved = loadColumnMapping(signature);
+    if (saved && saved.baseColumnCount === baseGrid.columnNames.length) {
+      const savedGrid = applyOperations(baseGrid, saved.operations);
+      const savedDropped = new Set(
+        savedGrid.rows.filter(row => saved.dropPatterns.includes(rowPattern(row))).map(row => row.key)
+      );
+      setOperations(saved.operations);
+      setTargets(saved.targets);
+      setDropped(savedDropped);
+      setUsedSavedMapping(true);
+      onApply(mapGridRows(savedGrid, saved.targets, savedDropped));
+    } else {
+      setOperations([]);
+      setTargets(guessTargets(baseGrid.columnNames));
+      setDropped(new Set());
+      setUsedSavedMapping(false);
+    }
+  }, [baseGrid, signature]);
+
+  const merge = (column: number) => {
+    setOperations([...operations, { type: 'merge', column }]);
+    // The merged column keeps the first mapped field of the two
+    const kept = targets[column] !== 'ignore' ? targets[column] : targets[column + 1];
+    setTargets([...targets.slice(0, column), kept, ...targets.slice(column + 2)]);
+  };
+
+  const split = (column: number) => {
+    setOperations([...operations, { type: 'split', column }]);
+    setTargets([...targets.slice(0, column + 1), 'ignore', ...targets.slice(column + 1)]);
+  };
+
+  const toggleRow = (key: string) => {
+    const next = new Set(dropped);
+    if (next.has(key)) next.delete(key); else next.add(key);
+    setDropped(next);
+  };
+
+  const handleApply = () => {
+    saveColumnMapping(signature, {
+      baseColumnCount: baseGrid.columnNames.length,
+      operations,
+      targets,
+      dropPatterns: Array.from(new Set(grid.rows.filter(row => dropped.has(row.key)).map(rowPattern)))
+    });
+    setUsedSavedMapping(true);
+    onApply(mapGridRows(grid, targets, dropped));
+  };
+
+  const handleReset = () => {
+    setOperations([]);
+    setTargets(guessTargets(baseGrid.columnNames));
+    setDropped(new Set());
+  };
+
+  if (grid.rows.length === 0) {
+    return null;
+  }
+
+  return (
+    <Section
+      title="Table Review"
+      buttons={
+        <>
+          <Button onClick={handleApply}>Use Mapped Rows</Button>
+          <Button onClick={handleReset} className="bg-gray-600 hover:bg-gray-700">Reset Mapping</Button>
+        </>
+      }
+    >
+      <p className="mb-4 text-sm text-gray-600">
+        {usedSavedMapping
+          ? 'This layout was mapped with the mapping saved for it. Changes are saved again when you use the mapped rows.'
+          : 'Choose a field for each column, merge or split columns, and untick header or footer rows. The mapping is saved for this layout.'}
+      </p>
+      <div className="overflow-x-auto max-h-96 overflow-y-auto border border-gray-200 rounded-md bg-white">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className={headerClassName}>Keep</th>
+              <th className={headerClassName}>Page</th>
+              {grid.columnNames.map((name, column) => (
+                <th key={column} className={headerClassName}>
+                  <div className="flex flex-col gap-1">
+                    <span>{name}</span>
+                    <select
+                      value={targets[column] ?? 'ignore'}
+                      onChange={(e) => setTargets(targets.map((t, i) => (i === column ? e.target.value as ColumnTarget : t)))}
+                      className="px-2 py-1 border border-gray-300 rounded-md text-xs normal-case"
+                    >
+                      <option value="ignore">Ignore</option>
+                      {targetOptions.map(({ field, label }) => (
+                        <option key={field} value={field}>{label}</option>
+                      ))}
+                    </select>
+                    <div className="flex gap-2 normal-case">
+                      <button onClick={() => split(column)} className="text-blue-600 hover:text-blue-800">Split</button>
+                      {column < grid.columnNames.length - 1 && (
+                        <button onClick={() => merge(column)} className="text-blue-600 hover:text-blue-800">Merge →</button>
+                      )}
+                    </div>
+                  </div>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {grid.rows.map(row => {
+              const isDropped = dropped.has(row.key);
+              return (
+                <tr key={row.key} className={isDropped ? 'bg-gray-50 text-gray-400 line-through' : ''}>
+                  <td className="px-3 py-2">
+                    <input type="checkbox" checked={!isDropped} onChange={() => toggleRow(row.key)} />
+                  </td>
+                  <td className="px-3 py-2 text-sm">{row.pageNumber}</td>
+                  {row.cells.map((cell, column) => (
+                    <td key={column} className="px-3 py-2 text-sm whitespace-nowrap">{cell}</td>
+                  ))}
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </Section>
+  );
+};
+
+export default ColumnMappingReview;
@@ -0,0 +1,94 @@
+import React, { useEffect, useRef, useState } from 'react';
+import Button from './ui/Button';
+import { Quad } from '../types/preprocessing';
+import { renderFirstPage } from '../utils/documentPreview';
+import { canvasToGray } from '../utils/imageProcessing';
+import { detectPageQuad, reduceForAnalysis } from '../utils/geometry';
+
+interface CornerCropperProps {
+  file: File;
+  // Corners as fractions of the image width and height; null uses automatic detection
+  quad: Quad | null;
+  onQuadChange: (quad: Quad | null) => void;
+}
+
+const PREVIEW_WIDTH = 800;
+
+const DEFAULT_QUAD: Quad = [{ x: 0.05, y: 0.05 }, { x: 0.95, y: 0.05 }, { x: 0.95, y: 0.95 }, { x: 0.05, y: 0.95 }];
+
+const CornerCropper: React.FC<CornerCropperProps> = ({ file, quad, onQuadChange }) => {
+  const [preview, setPreview] = useState<{ url: string; width: number; height: number } | null>(null);
+  const [draft, setDraft] = useState<Quad>(quad ?? DEFAULT_QUAD);
+  const [dragging, setDragging] = useState<number | null>(null);
+  const svgRef = useRef<SVGSVGElement>(null);
+
+  // Start from the automatically detected corners, so usually only one or two need moving
+  useEffect(() => {
+    let cancelled = false;
+    renderFirstPage(file, PREVIEW_WIDTH).then(canvas => {
+      if (cancelled) return;
+      const { image, factor } = reduceForAnalysis(canvasToGray(canvas), 400);
+      const detected = detectPageQuad(image);
+      if (!quad && detected) {
+        setDraft(detected.map(({ x, y }) => ({ x: x / factor / canvas.width, y: y / factor / canvas.height })) as Quad);
+      }
+      setPreview({ url: canvas.toDataURL('image/jpeg', 0.8), width: canvas.width, height: canvas.height });
+      canvas.remove();
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [file]);
+
+  const moveCorner = (event: React.PointerEvent) => {
+    if (dragging === null || !svgRef.current) return;
+    const rect = svgRef.current.getBoundingClientRect();
+    const x = Math.min(1, Math.max(0, (event.clientX - rect.left) / rect.width));
+    const y = Math.min(1, Math.max(0, (event.clientY - rect.top) / rect.height));
+    setDraft(draft.map((corner, index) => (index === dragging ? { x, y } : corner)) as Quad);
+  };
+
+  if (!preview) {
+    return <p className="text-sm text-gray-500">Loading image...</p>;
+  }
+
+  const points = draft.map(({ x, y }) => `${x * preview.width},${y * preview.height}`).join(' ');
+
+  return (
+    <div className="mb-4">
+      <p className="mb-2 text-sm text-gray-600">
+        Drag the corners onto the corners of the page. OCR then flattens the page inside them.
+      </p>
+      <svg
+        ref={svgRef}
+        viewBox={`0 0 ${preview.width} ${preview.height}`}
+        className="w-full max-w-xl h-auto border border-gray-200 rounded-md touch-none select-none"
+        onPointerMove={moveCorner}
+        onPointerUp={() => setDragging(null)}
+        onPointerLeave={() => setDragging(null)}
+      >
+        <image href={preview.url} x={0} y={0} width={preview.width} height={preview.height} />
+        <polygon points={points} className="fill-blue-400/10 stroke-blue-600" strokeWidth={2} vectorEffect="non-scaling-stroke" />
+        {draft.map(({ x, y }, index) => (
+          <circle
+            key={index}
+            cx={x * preview.width}
+            cy={y * preview.height}
+            r={Math.max(preview.width, preview.height) / 60}
+            className="fill-white stroke-blue-600 cursor-move"
+            strokeWidth={2}
+            vectorEffect="non-scaling-stroke"
+            onPointerDown={() => setDragging(index)}
+          />
+        ))}
+      </svg>
+      <div className="mt-2 flex flex-wrap items-center gap-3">
+        <Button onClick={() => onQuadChange(draft)}>Use These Corners</Button>
+        <Button onClick={() => onQuadChange(null)} className="bg-gray-600 hover:bg-gray-700">Detect Automatically</Button>
+        <span className="text-sm text-gray-600">{quad ? 'Manual corners are used for OCR.' : 'Corners are detected automatically.'}</span>
+      </div>
+    </div>
+  );
+};
+
+export default CornerCropper;
@@ -0,0 +1,58 @@
+import React from 'react';
+import { DocumentStatus, QueuedDocument } from '../hooks/useOcrProcessing';
+
+interface DocumentQueueProps {
+  documents: QueuedDocument[];
+  activeId: string | null;
+  onSelect: (id: string) => void;
+  onRetry: (id: string) => void;
+  onRemove: (id: string) => void;
+}
+
+const STATUS_LABELS: Record<DocumentStatus, string> = {
+  queued: 'Queued',
+  ocr: 'OCR',
+  review: 'Needs review',
+  analysed: 'Analysed',
+  failed: 'Failed'
+};
+
+const STATUS_CLASSES: Record<DocumentStatus, string> = {
+  queued: 'bg-gray-100 text-gray-700',
+  ocr: 'bg-blue-100 text-blue-800',
+  review: 'bg-yellow-100 text-yellow-800',
+  analysed: 'bg-green-100 text-green-800',
+  failed: 'bg-red-100 text-red-800'
+};
+
+const DocumentQueue: React.FC<DocumentQueueProps> = ({ documents, activeId, onSelect, onRetry, onRemove }) => {
+  if (documents.length === 0) return null;
+
+  return (
+    <ul className="mt-4 flex flex-col gap-1">
+      {documents.map(({ id, name, status, error }) => (
+        <li
+          key={id}
+          className={`flex flex-wrap items-center gap-3 px-3 py-2 rounded-md border text-sm ${id === activeId ? 'border-blue-400 bg-blue-50' : 'border-gray-200'}`}
+        >
+          <button onClick={() => onSelect(id)} className="flex-1 min-w-0 truncate text-left font-medium text-gray-800 hover:text-blue-700">
+            {name}
+          </button>
+          <span className={`px-2 py-0.5 rounded-md text-xs font-medium ${STATUS_CLASSES[status]}`} title={error ?? undefined}>
+            {STATUS_LABELS[status]}
+          </span>
+          {(status === 'failed' || status === 'review' || status === 'analysed') && (
+            <button onClick={() => onRetry(id)} className="text-blue-600 hover:text-blue-800">
+              {status === 'failed' ? 'Retry' : 'Read Again'}
+            </button>
+          )}
+          {status !== 'ocr' && (
+            <button onClick={() => onRemove(id)} className="text-gray-500 hover:text-red-600">Remove</button>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+export default DocumentQueue;
@@ -1,35 +1,164 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import Button from './ui/Button';
+import CameraCapture from './CameraCapture';
+import { OCR_LANGUAGES, OcrLanguageChoice } from '../config/ocrLanguages';
+import { MAX_FILE_SIZE_MB, MAX_PAGES } from '../config/uploadLimits';
+import { DocumentInput } from '../hooks/useOcrProcessing';
+import { ACCEPTED_FILE_TYPES, validateDocumentFile } from '../utils/documentFiles';
 
 interface FileUploadProps {
-  onFileChange: (e: React.ChangeEvent<HTMLInputElement>) => void;
+  onAddDocuments: (documents: DocumentInput[]) => void;
   onProcess: () => void;
   onCancel: () => void;
   isProcessing: boolean;
-  file: File | null;
+  // Documents waiting to be read
+  queuedCount: number;
+  language: OcrLanguageChoice;
+  onLanguageChange: (language: OcrLanguageChoice) => void;
 }
 
+// A file that was not added, and why
+interface Rejection {
+  name: string;
+  reason: string;
+}
+
+const canUseCamera = typeof navigator !== 'undefined' && !!navigator.mediaDevices?.getUserMedia;
+
 const FileUpload: React.FC<FileUploadProps> = ({
-  onFileChange,
+  onAddDocuments,
   onProcess,
   onCancel,
   isProcessing,
-  file
+  queuedCount,
+  language,
+  onLanguageChange
 }) => {
+  const [isDragging, setIsDragging] = useState(false);
+  const [isChecking, setIsChecking] = useState(false);
+  const [rejections, setRejections] = useState<Rejection[]>([]);
+  const [showCamera, setShowCamera] = useState(false);
+
+  // Every file becomes its own document; files that cannot be read are listed instead of added
+  const addFiles = async (files: File[]) => {
+    if (files.length === 0) return;
+    setIsChecking(true);
+    const reasons = await Promise.all(files.map(validateDocumentFile));
+    setIsChecking(false);
+    setRejections(files.flatMap((file, index) => {
+      const reason = reasons[index];
+      return reason ? [{ name: file.name, reason }] : [];
+    }));
+    onAddDocuments(files.filter((_, index) => !reasons[index]).map(file => ({ name: file.name, files: [file] })));
+  };
+
+  // Screenshots can be pasted anywhere on the page, except into text fields
+  useEffect(() => {
+    const handlePaste = (event: ClipboardEvent) => {
+      const target = event.target as HTMLElement | null;
+      if (target?.closest('input, textarea, [contenteditable="true"]')) return;
+      const images = Array.from(event.clipboardData?.files ?? []).filter(file => file.type.startsWith('image/'));
+      if (images.length === 0) return;
+      event.preventDefault();
+      const time = new Date().toLocaleTimeString();
+      addFiles(images.map((image, index) => new File(
+        [image],
+        `Pasted image ${time}${images.length > 1 ? ` (${index + 1})` : ''}.${image.type.split('/')[1] || 'png'}`,
+        { type: image.type }
+      )));
+    };
+    window.addEventListener('paste', handlePaste);
+    return () => window.removeEventListener('paste', handlePaste);
+  });
+
+  const handleDrop = (event: React.DragEvent) => {
+    event.preventDefault();
+    setIsDragging(false);
+    addFiles(Array.from(event.dataTransfer.files));
+  };
+
   return (
     <div>
-      <div className="mb-4">
-        <input
-          type="file"
-          accept=".pdf,image/*"
-          onChange={onFileChange}
-          className="block w-full text-sm text-gray-500
-            file:mr-4 file:py-2 file:px-4
-            file:rounded-full file:border-0
-            file:text-sm file:font-semibold
-            file:bg-blue-50 file:text-blue-700
-            hover:file:bg-blue-100"
+      <div
+        onDragOver={(e) => {
+          e.preventDefault();
+          setIsDragging(true);
+        }}
+        onDragLeave={(e) => {
+          // Moving over the buttons inside the zone also fires dragleave
+          if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setIsDragging(false);
+        }}
+        onDrop={handleDrop}
+        className={`mb-4 p-6 rounded-md border-2 border-dashed text-center text-sm ${isDragging ? 'border-blue-500 bg-blue-50' : 'border-gray-300'}`}
+      >
+        <p className="mb-3 text-gray-600">
+          Drop PDFs or images here, paste a screenshot, or
+        </p>
+        <div className="flex flex-wrap justify-center items-center gap-3">
+          <label className="px-4 py-2 rounded-full bg-blue-50 text-blue-700 font-semibold cursor-pointer hover:bg-blue-100">
+            Choose Files
+            <input
+              type="file"
+              accept={ACCEPTED_FILE_TYPES}
+              multiple
+              onChange={(e) => {
+                addFiles(Array.from(e.target.files ?? []));
+                // Clear the input so choosing the same files again adds them again
+                e.target.value = '';
+              }}
+              className="hidden"
+            />
+          </label>
+          {canUseCamera && (
+            <button
+              onClick={() => setShowCamera(!showCamera)}
+              className="px-4 py-2 rounded-full bg-blue-50 text-blue-700 font-semibold hover:bg-blue-100"
+            >
+              {showCamera ? 'Close Camera' : 'Take Photos'}
+            </button>
+          )}
+        </div>
+        <p className="mt-3 text-xs text-gray-500">
+          PDF, JPEG, PNG, WebP, TIFF or HEIC; up to {MAX_FILE_SIZE_MB} MB and {MAX_PAGES} pages per file
+        </p>
+        {isChecking && <p className="mt-2 text-xs text-gray-500">Checking files...</p>}
+      </div>
+      {rejections.length > 0 && (
+        <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-700">
+          <div className="flex items-start justify-between gap-3">
+            <ul>
+              {rejections.map((rejection, index) => (
+                <li key={index}><strong>{rejection.name}</strong>: {rejection.reason}</li>
+              ))}
+            </ul>
+            <button onClick={() => setRejections([])} className="text-red-600 hover:text-red-800">Dismiss</button>
+          </div>
+        </div>
+      )}
+      {showCamera && (
+        <CameraCapture
+          onCapture={(photos) => {
+            onAddDocuments([{ name: `Camera capture (${photos.length} ${photos.length === 1 ? 'page' : 'pages'})`, files: photos }]);
+            setShowCamera(false);
+          }}
+          onClose={() => setShowCamera(false)}
         />
+      )}
+      <div className="mb-4">
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          Document language
+          <select
+            value={language}
+            onChange={(e) => onLanguageChange(e.target.value as OcrLanguageChoice)}
+            disabled={isProcessing}
+            className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+          >
+            <option value="auto">Detect from first page</option>
+            {OCR_LANGUAGES.map(({ value, label }) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+        </label>
       </div>
       {isProcessing ? (
         <Button
@@ -41,13 +170,13 @@ const FileUpload: React.FC<FileUploadProps> = ({
       ) : (
         <Button
           onClick={onProcess}
-          disabled={!file}
+          disabled={queuedCount === 0}
         >
-          Extract Text & Generate All Outputs
+          {queuedCount > 1 ? `Extract Text from ${queuedCount} Documents` : 'Extract Text & Generate All Outputs'}
         </Button>
       )}
     </div>
   );
 };
 
-export default FileUpload; 
\ No newline at end of file
+export default FileUpload;
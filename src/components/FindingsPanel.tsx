@@ -0,0 +1,136 @@
+import React from 'react';
+import Section from './ui/Section';
+import { AnalysisFinding, FindingSeverity, groupFindings, normalizeTestName } from '../utils/analysisFindings';
+import { LabResultRow } from './LabResultsTemplate';
+import { currentResult } from '../utils/resultSeries';
+import { sectionForTest } from '../utils/sections';
+
+export type FindingStatus = 'pending' | 'accepted' | 'dismissed';
+
+// A finding as curated by the clinician
+export interface CuratedFinding extends AnalysisFinding {
+  id: string;
+  status: FindingStatus;
+}
+
+const SEVERITY_STYLES: Record<FindingSeverity, { card: string; badge: string }> = {
+  mild: { card: 'border-yellow-300', badge: 'bg-yellow-100 text-yellow-800' },
+  moderate: { card: 'border-orange-400', badge: 'bg-orange-100 text-orange-800' },
+  severe: { card: 'border-red-500', badge: 'bg-red-100 text-red-800' }
+};
+
+interface FindingsPanelProps {
+  summary: string;
+  findings: CuratedFinding[];
+  rows: LabResultRow[];
+  onFindingsChange: (findings: CuratedFinding[]) => void;
+}
+
+const FindingsPanel: React.FC<FindingsPanelProps> = ({
+  summary,
+  findings,
+  rows,
+  onFindingsChange
+}) => {
+  const updateFinding = (id: string, updates: Partial<CuratedFinding>) => {
+    onFindingsChange(findings.map(finding => (finding.id === id ? { ...finding, ...updates } : finding)));
+  };
+
+  const findRow = (testName: string) =>
+    rows.find(row => normalizeTestName(row.testName) === normalizeTestName(testName));
+
+  const acceptedCount = findings.filter(f => f.status === 'accepted').length;
+  // Findings are shown under the report section of their test, as in the template
+  const groups = groupFindings(findings.map(finding => ({
+    ...finding,
+    section: sectionForTest(rows, finding.testName) ?? finding.section
+  })));
+
+  return (
+    <Section title="Lab Analysis">
+      {summary ? (
+        <p className="mb-4 text-gray-700">{summary}</p>
+      ) : (
+        <p className="mb-4 text-gray-500 italic">Analysis results will appear here...</p>
+      )}
+
+      {findings.length > 0 && (
+        <p className="mb-4 text-sm text-gray-600">
+          {acceptedCount} of {findings.length} findings accepted
+        </p>
+      )}
+
+      {groups.map(group => (
+        <div key={group.section} className="mb-4 flex flex-col gap-3">
+          {groups.length > 1 && group.section && (
+            <h3 className="text-sm font-semibold uppercase tracking-wide text-gray-500">{group.section}</h3>
+          )}
+          {group.findings.map(finding => {
+            const row = findRow(finding.testName);
+            const styles = SEVERITY_STYLES[finding.severity];
+            const isDismissed = finding.status === 'dismissed';
+
+            return (
+              <div
+                key={finding.id}
+                className={`border-l-4 rounded-md bg-white p-4 shadow-sm ${styles.card} ${isDismissed ? 'opacity-50' : ''}`}
+              >
+                <div className="flex items-center gap-3 mb-2">
+                  <h3 className="font-semibold text-gray-800">{finding.testName}</h3>
+                  <span className={`px-2 py-1 rounded-full text-xs font-medium ${styles.badge}`}>
+                    {finding.severity}
+                  </span>
+                  {row && (
+                    <span className="text-sm text-gray-500">
+                      {currentResult(row)} {row.unit} (ref {row.referenceLower || '…'} - {row.referenceUpper || '…'})
+                    </span>
+                  )}
+                  {finding.status === 'accepted' && (
+                    <span className="ml-auto text-sm font-medium text-green-700">Accepted</span>
+                  )}
+                </div>
+
+                <input
+                  type="text"
+                  value={finding.interpretation}
+                  onChange={(e) => updateFinding(finding.id, { interpretation: e.target.value, status: 'pending' })}
+                  disabled={isDismissed}
+                  className="w-full p-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+                />
+
+                <div className="mt-2 flex gap-3 text-sm font-medium">
+                  {isDismissed ? (
+                    <button
+                      onClick={() => updateFinding(finding.id, { status: 'pending' })}
+                      className="text-blue-600 hover:text-blue-900"
+                    >
+                      Restore
+                    </button>
+                  ) : (
+                    <>
+                      <button
+                        onClick={() => updateFinding(finding.id, { status: 'accepted' })}
+                        disabled={finding.status === 'accepted'}
+                        className="text-green-600 hover:text-green-900 disabled:text-gray-400"
+                      >
+                        Accept
+                      </button>
+                      <button
+                        onClick={() => updateFinding(finding.id, { status: 'dismissed' })}
+                        className="text-red-600 hover:text-red-900"
+                      >
+                        Dismiss
+                      </button>
+                    </>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      ))}
+    </Section>
+  );
+};
+
+export default FindingsPanel;
@@ -0,0 +1,106 @@
+import React from 'react';
+import Section from './ui/Section';
+import Button from './ui/Button';
+import TrendChart from './TrendChart';
+import { SavedReport } from '../types/history';
+import { AnalyteTrend } from '../utils/trends';
+
+interface HistoryPanelProps {
+  patientId: string;
+  onPatientIdChange: (patientId: string) => void;
+  collectedAt: string;
+  onCollectedAtChange: (date: string) => void;
+  reports: SavedReport[];
+  trends: AnalyteTrend[];
+  // The saved copy of the report being worked on, if it was saved before
+  savedReportId: string | null;
+  canSave: boolean;
+  onSave: () => void;
+  onDelete: (reportId: string) => void;
+  error: string | null;
+}
+
+const HistoryPanel: React.FC<HistoryPanelProps> = ({
+  patientId,
+  onPatientIdChange,
+  collectedAt,
+  onCollectedAtChange,
+  reports,
+  trends,
+  savedReportId,
+  canSave,
+  onSave,
+  onDelete,
+  error
+}) => {
+  // A single value is not a trend
+  const charted = trends.filter(trend => trend.points.length > 1);
+
+  return (
+    <Section
+      title="History & Trends"
+      buttons={
+        <Button onClick={onSave} disabled={!canSave || !patientId.trim() || !collectedAt}>
+          {savedReportId ? 'Update Saved Report' : 'Save Report to History'}
+        </Button>
+      }
+    >
+      <div className="mb-4 flex flex-wrap items-end gap-4 text-sm text-gray-700">
+        <label className="flex flex-col gap-1">
+          Patient ID
+          <input
+            type="text"
+            value={patientId}
+            onChange={(e) => onPatientIdChange(e.target.value)}
+            placeholder="e.g. P-0042"
+            className="px-3 py-2 border border-gray-300 rounded-md"
+          />
+        </label>
+        <label className="flex flex-col gap-1">
+          Sample date
+          <input
+            type="date"
+            value={collectedAt}
+            onChange={(e) => onCollectedAtChange(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-md"
+          />
+        </label>
+        <p className="flex-1 min-w-[16rem] text-xs text-gray-500">
+          Use a pseudonym, never a name or date of birth. Reports are stored in this browser only.
+        </p>
+      </div>
+
+      {error && <p className="mb-4 text-sm text-red-600">{error}</p>}
+
+      {reports.length > 0 && (
+        <ul className="mb-4 flex flex-col gap-1 text-sm">
+          {reports.map(report => (
+            <li
+              key={report.id}
+              className={`flex flex-wrap items-center gap-3 px-3 py-2 rounded-md border ${report.id === savedReportId ? 'border-blue-400 bg-blue-50' : 'border-gray-200'}`}
+            >
+              <span className="font-medium text-gray-800">{report.collectedAt}</span>
+              <span className="flex-1 min-w-0 truncate text-gray-600">{report.documentName}</span>
+              <span className="text-gray-500">{report.rows.length} results</span>
+              <button onClick={() => onDelete(report.id)} className="text-gray-500 hover:text-red-600">Delete</button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {patientId.trim() && reports.length === 0 && !error && (
+        <p className="mb-4 text-sm text-gray-500">No saved reports for this patient yet.</p>
+      )}
+
+      {charted.length > 0 ? (
+        <div className="grid gap-4 sm:grid-cols-2 xl:grid-cols-3">
+          {charted.map(trend => <TrendChart key={trend.key} trend={trend} />)}
+        </div>
+      ) : (
+        patientId.trim() && <p className="text-sm text-gray-500">Trends appear once a test has results from two or more sample dates.</p>
+      )}
+    </Section>
+  );
+};
+
+export default HistoryPanel;
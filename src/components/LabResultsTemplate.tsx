@@ -1,49 +1,280 @@
-import React from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import Section from './ui/Section';
 import Button from './ui/Button';
+import { describeEvaluation, evaluateRow, RangeStatus } from '../utils/rangeEvaluation';
+import { RuleFlag } from '../utils/rulesEngine';
+import { findUncertainCells } from '../utils/confidence';
+import { checkRowUnit, convertRow, UnitSystem } from '../utils/units';
+import { findAnalyteById, rowAnalyte } from '../utils/analytes';
+import {
+  addResultColumn,
+  cellValue,
+  isResultField,
+  resultColumns,
+  resultIndex,
+  setColumnDate,
+  withCellValue
+} from '../utils/resultSeries';
+import { groupSections, moveSection, renameSection, rowSection, summarizeSection } from '../utils/sections';
+import { ANALYTE_CATEGORIES, ANALYTES } from '../config/analytes';
+import { Box } from '../types/table';
+
+// Where on the source page a value was read
+export interface CellSource {
+  pageNumber: number;
+  bbox: Box;
+}
+
+// Per-cell annotations that travel with a row
+export interface CellMeta {
+  // Set when the value could not be read reliably, e.g. an "ERROR" tag from structuring
+  error?: string;
+  // Lowest OCR word confidence (0-100) of the value
+  confidence?: number;
+  // Set when the user checked a low-confidence value against the source and kept it
+  confirmed?: boolean;
+  source?: CellSource;
+}
+
+// How a row's analyte was found: from its test name, or picked by the user
+export type AnalyteMatchKind = 'exact' | 'synonym' | 'fuzzy' | 'manual';
+
+// The catalogue analyte a row refers to, the identity used to recognise the same test across reports
+export interface AnalyteRef {
+  // null when the user marked the row as not in the catalogue
+  id: string | null;
+  match: AnalyteMatchKind;
+}
+
+// One printed value of a test with the date its sample was taken
+export interface DatedResult {
+  value: string;
+  // YYYY-MM-DD, or '' when the report does not print it
+  date: string;
+}
 
 // Define the structure for a lab result row
 export interface LabResultRow {
   testName: string;
-  result: string;
-  previousResult: string;
+  // One value per result column, newest sample first; the first is the result that is evaluated
+  results: DatedResult[];
   referenceLower: string;
   referenceUpper: string;
   unit: string;
   comments: string;
+  // Panel heading printed above the row, or picked by the user; see utils/sections
+  section?: string;
+  // Resolved from the test name unless picked by the user, see utils/analytes
+  analyte?: AnalyteRef;
+  cellMeta?: Partial<Record<LabResultField, CellMeta>>;
 }
 
+export type TextField = 'testName' | 'referenceLower' | 'referenceUpper' | 'unit' | 'comments';
+
+// A result column by its position in the series, 0 being the newest sample
+export type ResultField = `result.${number}`;
+
+export type LabResultField = TextField | ResultField;
+
+// Editable columns other than the results, in display order; the result columns follow the test name
+export const LAB_RESULT_FIELDS: { field: TextField; label: string }[] = [
+  { field: 'testName', label: 'Test Name' },
+  { field: 'referenceLower', label: 'Reference Value (Lower)' },
+  { field: 'referenceUpper', label: 'Reference Value (Upper)' },
+  { field: 'unit', label: 'Unit' },
+  { field: 'comments', label: 'Comments' }
+];
+
+/**
+ * The label of a result column, e.g. "Result" for the newest and "Earlier Result 2" for the one before the last
+ */
+export const resultLabel = (index: number): string => (index === 0 ? 'Result' : `Earlier Result ${index}`);
+
+export const fieldLabel = (field: LabResultField): string =>
+  isResultField(field) ? resultLabel(resultIndex(field)) : LAB_RESULT_FIELDS.find(entry => entry.field === field)!.label;
+
+// Columns that change with the unit system besides the results; they are read-only while converted
+const UNIT_FIELDS: LabResultField[] = ['referenceLower', 'referenceUpper', 'unit'];
+
+const UNIT_SYSTEMS: { value: UnitSystem; label: string }[] = [
+  { value: 'reported', label: 'As reported' },
+  { value: 'si', label: 'SI' },
+  { value: 'conventional', label: 'Conventional' }
+];
+
+// Row background and badge colours per evaluation status
+const STATUS_STYLES: Record<RangeStatus, { row: string; badge: string }> = {
+  low: { row: 'bg-blue-50', badge: 'bg-blue-100 text-blue-800' },
+  normal: { row: '', badge: 'bg-green-100 text-green-800' },
+  high: { row: 'bg-red-50', badge: 'bg-red-100 text-red-800' },
+  unparseable: { row: 'bg-yellow-50', badge: 'bg-yellow-100 text-yellow-800' }
+};
+
+/**
+ * The tooltip of a cell: its error, else the reported value behind a converted one, else its OCR confidence,
+ * else the date of a value sampled on another date than its column
+ */
+const cellTitle = (meta: CellMeta | undefined, reported: string | null, otherDate: string | null): string | undefined => {
+  if (meta?.error) return meta.error;
+  if (reported !== null) return `Reported: ${reported || '-'}`;
+  if (meta?.confidence !== undefined) return `OCR confidence ${Math.round(meta.confidence)}%${meta.confirmed ? ', confirmed' : ''}`;
+  return otherDate ? `Sampled ${otherDate}` : undefined;
+};
+
 interface LabResultsTemplateProps {
   data: LabResultRow[];
   onDataChange: (newData: LabResultRow[]) => void;
   onAnalyze: () => void;
   isProcessing: boolean;
+  ruleFlags?: RuleFlag[];
+  // OCR confidence below which a value is highlighted for review
+  confidenceThreshold?: number;
+  // The cell linked to the source viewer
+  activeCell?: CellPosition | null;
+  onActiveCellChange?: (cell: CellPosition) => void;
+}
+
+export interface CellPosition {
+  rowIndex: number;
+  field: LabResultField;
 }
 
 const LabResultsTemplate: React.FC<LabResultsTemplateProps> = ({
   data,
   onDataChange,
   onAnalyze,
-  isProcessing
+  isProcessing,
+  ruleFlags = [],
+  confidenceThreshold = 80,
+  activeCell = null,
+  onActiveCellChange
 }) => {
-  // Function to handle changes to a specific cell
-  const handleCellChange = (rowIndex: number, field: keyof LabResultRow, value: string) => {
+  const [reviewCell, setReviewCell] = useState<CellPosition | null>(null);
+  const [unitSystem, setUnitSystem] = useState<UnitSystem>('reported');
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+  const inputRefs = useRef(new Map<string, HTMLInputElement>());
+  // A cell to focus once its collapsed section has opened
+  const pendingFocus = useRef<CellPosition | null>(null);
+
+  const columns = resultColumns(data);
+  // Every editable column in display order: the test name, the results newest first, then the rest
+  const fields: LabResultField[] = [
+    LAB_RESULT_FIELDS[0].field,
+    ...columns.map(column => column.field),
+    ...LAB_RESULT_FIELDS.slice(1).map(({ field }) => field)
+  ];
+  const uncertainCells = findUncertainCells(data, confidenceThreshold);
+  const unitChecks = data.map(checkRowUnit);
+  const unitIssueCount = unitChecks.filter(check => check.issue).length;
+  const sections = groupSections(data);
+  // A row can go to any section of this report or to a catalogue category
+  const sectionOptions = [...new Set([...sections.map(({ name }) => name), ...ANALYTE_CATEGORIES.map(({ label }) => label)])];
+
+  const focusCell = (cell: CellPosition) => {
+    const input = inputRefs.current.get(`${cell.rowIndex}-${cell.field}`);
+    if (input && document.activeElement !== input) {
+      input.focus();
+      input.select();
+    }
+  };
+
+  const showCell = (cell: CellPosition) => {
+    const row = data[cell.rowIndex];
+    const section = row ? rowSection(row) : null;
+    if (section && collapsed.has(section)) {
+      pendingFocus.current = cell;
+      setCollapsed(current => new Set([...current].filter(name => name !== section)));
+    } else {
+      focusCell(cell);
+    }
+  };
+
+  // Bring the value under review into view so it can be compared with the report
+  useEffect(() => {
+    if (reviewCell) showCell(reviewCell);
+  }, [reviewCell]);
+
+  // A region clicked in the source viewer selects its cell here
+  useEffect(() => {
+    if (activeCell) showCell(activeCell);
+  }, [activeCell]);
+
+  useEffect(() => {
+    if (pendingFocus.current) {
+      focusCell(pendingFocus.current);
+      pendingFocus.current = null;
+    }
+  }, [collapsed]);
+
+  const toggleSection = (name: string) => {
+    const next = new Set(collapsed);
+    if (next.has(name)) next.delete(name);
+    else next.add(name);
+    setCollapsed(next);
+  };
+
+  const handleMoveSection = (name: string, offset: -1 | 1) => {
+    setReviewCell(null);
+    onDataChange(moveSection(data, name, offset));
+  };
+
+  const handleRenameSection = (name: string) => {
+    const renamed = window.prompt('Section name', name)?.trim();
+    if (renamed && renamed !== name) {
+      onDataChange(renameSection(data, name, renamed));
+    }
+  };
+
+  const handleRowSectionChange = (rowIndex: number, section: string) => {
+    const newData = [...data];
+    newData[rowIndex] = { ...newData[rowIndex], section };
+    onDataChange(newData);
+  };
+
+  // Function to handle changes to a specific cell; editing a flagged cell counts as correcting it,
+  // while the source region is kept so the value can still be found on the page
+  const handleCellChange = (rowIndex: number, field: LabResultField, value: string) => {
     const newData = [...data];
+    const { [field]: corrected, ...cellMeta } = newData[rowIndex].cellMeta ?? {};
     newData[rowIndex] = {
-      ...newData[rowIndex],
-      [field]: value
+      ...withCellValue(newData[rowIndex], field, value),
+      cellMeta: corrected?.source ? { ...cellMeta, [field]: { source: corrected.source } } : cellMeta
     };
     onDataChange(newData);
   };
 
-  // Function to add a new empty row
+  // A picked analyte is kept when the test name changes; an empty unit gets the analyte's usual unit
+  const handleAnalyteChange = (rowIndex: number, id: string) => {
+    const newData = [...data];
+    const row = newData[rowIndex];
+    const analyte = id ? findAnalyteById(id) : null;
+    newData[rowIndex] = {
+      ...row,
+      analyte: { id: analyte?.id ?? null, match: 'manual' },
+      unit: row.unit.trim() || !analyte ? row.unit : analyte.defaultUnit
+    };
+    onDataChange(newData);
+  };
+
+  // Clearing the analyte lets it be matched from the test name again
+  const resetAnalyte = (rowIndex: number) => {
+    const newData = [...data];
+    newData[rowIndex] = { ...newData[rowIndex], analyte: undefined };
+    onDataChange(newData);
+  };
+
+  // A corrected sample date applies to the whole column
+  const handleColumnDateChange = (index: number, date: string) => {
+    onDataChange(setColumnDate(data, index, date));
+  };
+
+  // Function to add a new empty row, dated like the columns above it
   const addRow = () => {
     onDataChange([
       ...data,
       {
         testName: '',
-        result: '',
-        previousResult: '',
+        results: columns.map(column => ({ value: '', date: column.date })),
         referenceLower: '',
         referenceUpper: '',
         unit: '',
@@ -56,9 +287,40 @@ const LabResultsTemplate: React.FC<LabResultsTemplateProps> = ({
   const removeRow = (index: number) => {
     const newData = [...data];
     newData.splice(index, 1);
+    setReviewCell(null);
     onDataChange(newData);
   };
 
+  // Steps to the next uncertain value after the current one, wrapping around; the review ends when none are left
+  const goToNextUncertain = (rows: LabResultRow[], from: CellPosition | null) => {
+    const remaining = findUncertainCells(rows, confidenceThreshold).filter(
+      cell => !from || cell.rowIndex !== from.rowIndex || cell.field !== from.field
+    );
+    if (remaining.length === 0) {
+      setReviewCell(null);
+      return;
+    }
+    const order = (cell: CellPosition) => cell.rowIndex * fields.length + fields.indexOf(cell.field);
+    const next = from ? remaining.find(cell => order(cell) > order(from)) ?? remaining[0] : remaining[0];
+    setReviewCell({ rowIndex: next.rowIndex, field: next.field });
+  };
+
+  // Keeps the value as read; a corrected value has already lost its confidence through the edit
+  const confirmReviewCell = () => {
+    if (!reviewCell) return;
+    const { rowIndex, field } = reviewCell;
+    const newData = [...data];
+    const meta = newData[rowIndex].cellMeta?.[field];
+    if (meta) {
+      newData[rowIndex] = {
+        ...newData[rowIndex],
+        cellMeta: { ...newData[rowIndex].cellMeta, [field]: { ...meta, confirmed: true } }
+      };
+      onDataChange(newData);
+    }
+    goToNextUncertain(newData, reviewCell);
+  };
+
   return (
     <Section 
       title="Lab Results Template" 
@@ -67,6 +329,16 @@ const LabResultsTemplate: React.FC<LabResultsTemplateProps> = ({
           <Button onClick={addRow}>
             Add Row
           </Button>
+          <Button onClick={() => onDataChange(addResultColumn(data))} disabled={data.length === 0}>
+            Add Result Column
+          </Button>
+          <Button
+            onClick={() => goToNextUncertain(data, null)}
+            disabled={uncertainCells.length === 0 || reviewCell !== null}
+            className="bg-orange-600 hover:bg-orange-700"
+          >
+            Review Uncertain ({uncertainCells.length})
+          </Button>
           <Button 
             onClick={onAnalyze}
             disabled={data.length === 0 || isProcessing}
@@ -76,30 +348,64 @@ const LabResultsTemplate: React.FC<LabResultsTemplateProps> = ({
         </>
       }
     >
+      {reviewCell && (
+        <div className="mb-4 flex flex-wrap items-center gap-3 p-3 bg-orange-50 border border-orange-200 rounded-md text-sm text-orange-800">
+          <span>
+            Check the highlighted {fieldLabel(reviewCell.field).toLowerCase()} of
+            row {reviewCell.rowIndex + 1} against the report, correct it if needed, then confirm.
+            {' '}{uncertainCells.length} uncertain value{uncertainCells.length === 1 ? '' : 's'} left.
+          </span>
+          <Button onClick={confirmReviewCell}>Confirm Value</Button>
+          <Button onClick={() => goToNextUncertain(data, reviewCell)} className="bg-gray-600 hover:bg-gray-700">Next Uncertain</Button>
+          <Button onClick={() => setReviewCell(null)} className="bg-gray-600 hover:bg-gray-700">Stop Review</Button>
+        </div>
+      )}
+      <div className="mb-4 flex flex-wrap items-center gap-3 text-sm text-gray-700">
+        <label className="flex items-center gap-2">
+          Units
+          <select
+            value={unitSystem}
+            onChange={(e) => setUnitSystem(e.target.value as UnitSystem)}
+            className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+          >
+            {UNIT_SYSTEMS.map(({ value, label }) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+        </label>
+        {unitSystem !== 'reported' && (
+          <span className="text-gray-500">Converted values are read-only; switch back to edit them.</span>
+        )}
+        {unitIssueCount > 0 && (
+          <span className="text-yellow-700">
+            {unitIssueCount} result{unitIssueCount === 1 ? ' has' : 's have'} an unknown or inconsistent unit
+          </span>
+        )}
+      </div>
       <div className="overflow-x-auto border border-gray-200 rounded-md bg-white">
         <table className="min-w-full divide-y divide-gray-200">
           <thead className="bg-gray-50">
             <tr>
+              {fields.map(field => (
+                <th key={field} className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  {fieldLabel(field)}
+                  {isResultField(field) && (
+                    <input
+                      type="date"
+                      value={columns[resultIndex(field)].date}
+                      onChange={(e) => handleColumnDateChange(resultIndex(field), e.target.value)}
+                      disabled={data.length === 0}
+                      title="Sample date of this column"
+                      className="mt-1 block w-full p-1 border border-gray-300 rounded-md text-xs font-normal normal-case"
+                    />
+                  )}
+                </th>
+              ))}
               <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                Test Name
-              </th>
-              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                Result
-              </th>
-              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                Previous Result
-              </th>
-              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                Reference Value (Lower)
-              </th>
-              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                Reference Value (Upper)
-              </th>
-              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                Unit
+                Analyte
               </th>
               <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                Comments
+                Status
               </th>
               <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                 Actions
@@ -109,33 +415,172 @@ const LabResultsTemplate: React.FC<LabResultsTemplateProps> = ({
           <tbody className="bg-white divide-y divide-gray-200">
             {data.length === 0 ? (
               <tr>
-                <td colSpan={7} className="px-6 py-4 text-center text-sm text-gray-500">
+                <td colSpan={fields.length + 3} className="px-6 py-4 text-center text-sm text-gray-500">
                   No data available. Add a row or process OCR results.
                 </td>
               </tr>
             ) : (
-              data.map((row, rowIndex) => (
-                <tr key={rowIndex}>
-                  {Object.keys(row).map((key) => (
-                    <td key={`${rowIndex}-${key}`} className="px-6 py-4 whitespace-nowrap">
-                      <input
-                        type="text"
-                        value={row[key as keyof LabResultRow]}
-                        onChange={(e) => handleCellChange(rowIndex, key as keyof LabResultRow, e.target.value)}
-                        className="w-full p-1 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
-                      />
-                    </td>
-                  ))}
-                  <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
-                    <button
-                      onClick={() => removeRow(rowIndex)}
-                      className="text-red-600 hover:text-red-900"
-                    >
-                      Remove
-                    </button>
-                  </td>
-                </tr>
-              ))
+              sections.map((section, sectionIndex) => {
+                const isCollapsed = collapsed.has(section.name);
+                const summary = summarizeSection(section.rowIndexes.map(rowIndex => data[rowIndex]));
+                const outOfRange = summary.high + summary.low;
+                return (
+                  <React.Fragment key={section.name}>
+                    <tr className="bg-gray-100">
+                      <td colSpan={fields.length + 3} className="px-6 py-2">
+                        <div className="flex flex-wrap items-center gap-3 text-sm">
+                          <button
+                            onClick={() => toggleSection(section.name)}
+                            aria-expanded={!isCollapsed}
+                            className="font-semibold text-gray-800 hover:text-blue-700"
+                          >
+                            {isCollapsed ? '▸' : '▾'} {section.name}
+                          </button>
+                          <span className="text-gray-500">
+                            {section.rowIndexes.length} result{section.rowIndexes.length === 1 ? '' : 's'}
+                          </span>
+                          <span
+                            title={`${summary.high} high, ${summary.low} low, ${summary.evaluated} evaluated`}
+                            className={`px-2 py-1 rounded-full text-xs font-medium ${
+                              outOfRange > 0 ? 'bg-red-100 text-red-800' : summary.evaluated > 0 ? 'bg-green-100 text-green-800' : 'bg-gray-200 text-gray-700'
+                            }`}
+                          >
+                            {outOfRange > 0 ? `${outOfRange} out of range` : summary.evaluated > 0 ? 'All in range' : 'Not evaluated'}
+                          </span>
+                          <span className="ml-auto flex gap-3">
+                            <button
+                              onClick={() => handleMoveSection(section.name, -1)}
+                              disabled={sectionIndex === 0}
+                              className="text-blue-600 hover:text-blue-800 disabled:text-gray-300"
+                            >
+                              Move Up
+                            </button>
+                            <button
+                              onClick={() => handleMoveSection(section.name, 1)}
+                              disabled={sectionIndex === sections.length - 1}
+                              className="text-blue-600 hover:text-blue-800 disabled:text-gray-300"
+                            >
+                              Move Down
+                            </button>
+                            <button onClick={() => handleRenameSection(section.name)} className="text-blue-600 hover:text-blue-800">
+                              Rename
+                            </button>
+                          </span>
+                        </div>
+                      </td>
+                    </tr>
+                    {!isCollapsed && section.rowIndexes.map(rowIndex => {
+                      const row = data[rowIndex];
+                      const evaluation = evaluateRow(row);
+                      const styles = STATUS_STYLES[evaluation.status];
+                      const unitIssue = unitChecks[rowIndex].issue;
+                      const analyte = rowAnalyte(row);
+                      // Rows without a trustworthy unit stay as reported
+                      const shown = unitSystem === 'reported' ? row : convertRow(row, unitSystem) ?? row;
+                      return (
+                        <tr key={rowIndex} className={styles.row}>
+                          {fields.map(field => {
+                            const meta = row.cellMeta?.[field];
+                            const cellError = meta?.error;
+                            const isUncertain = uncertainCells.some(cell => cell.rowIndex === rowIndex && cell.field === field);
+                            const isUnderReview = reviewCell?.rowIndex === rowIndex && reviewCell.field === field;
+                            const isConverted = unitSystem !== 'reported' && (isResultField(field) || UNIT_FIELDS.includes(field));
+                            // A value taken on another date than the one shown above its column
+                            const ownDate = isResultField(field) ? row.results[resultIndex(field)]?.date : undefined;
+                            const otherDate = ownDate && isResultField(field) && ownDate !== columns[resultIndex(field)].date ? ownDate : null;
+                            const stateClassName = cellError
+                              ? 'border-red-500 bg-red-50'
+                              : isUncertain
+                                ? 'border-orange-400 bg-orange-50'
+                                : field === 'unit' && unitIssue
+                                  ? 'border-yellow-500 bg-yellow-50'
+                                  : isConverted ? 'border-gray-200 bg-gray-50' : 'border-gray-300';
+                            return (
+                              <td key={`${rowIndex}-${field}`} className="px-6 py-4 whitespace-nowrap">
+                                <input
+                                  type="text"
+                                  value={cellValue(shown, field)}
+                                  readOnly={isConverted}
+                                  ref={(element) => {
+                                    if (element) inputRefs.current.set(`${rowIndex}-${field}`, element);
+                                    else inputRefs.current.delete(`${rowIndex}-${field}`);
+                                  }}
+                                  onChange={(e) => handleCellChange(rowIndex, field, e.target.value)}
+                                  onFocus={() => {
+                                    if (activeCell?.rowIndex !== rowIndex || activeCell.field !== field) {
+                                      onActiveCellChange?.({ rowIndex, field });
+                                    }
+                                  }}
+                                  title={cellTitle(meta, isConverted && shown !== row ? cellValue(row, field) : null, otherDate)}
+                                  className={`w-full p-1 border rounded-md focus:ring-blue-500 focus:border-blue-500 ${stateClassName} ${
+                                    isUnderReview ? 'ring-2 ring-orange-500' : ''
+                                  }`}
+                                />
+                              </td>
+                            );
+                          })}
+                          <td className="px-6 py-4 whitespace-nowrap text-sm">
+                            <select
+                              value={analyte?.id ?? ''}
+                              onChange={(e) => handleAnalyteChange(rowIndex, e.target.value)}
+                              className={`w-full p-1 border rounded-md ${row.analyte?.match === 'fuzzy' ? 'border-orange-400 bg-orange-50' : 'border-gray-300'}`}
+                            >
+                              <option value="">Not in catalogue</option>
+                              {ANALYTE_CATEGORIES.map(({ value, label }) => (
+                                <optgroup key={value} label={label}>
+                                  {ANALYTES.filter(option => option.category === value).map(option => (
+                                    <option key={option.id} value={option.id}>{option.label}</option>
+                                  ))}
+                                </optgroup>
+                              ))}
+                            </select>
+                            <div className="mt-1 flex items-center gap-2 text-xs text-gray-500">
+                              {analyte && <span>LOINC {analyte.loinc}</span>}
+                              {row.analyte?.match === 'fuzzy' && <span className="text-orange-700">Approximate match, check</span>}
+                              {row.analyte?.match === 'manual' && (
+                                <button onClick={() => resetAnalyte(rowIndex)} className="text-blue-600 hover:text-blue-800">
+                                  Match from name
+                                </button>
+                              )}
+                            </div>
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap">
+                            <span className={`px-2 py-1 rounded-full text-xs font-medium ${styles.badge}`}>
+                              {describeEvaluation(evaluation)}
+                            </span>
+                            {unitIssue && (
+                              <div className="mt-1 text-xs text-yellow-700">Unit: {unitIssue}</div>
+                            )}
+                            {ruleFlags.filter(flag => flag.rowIndex === rowIndex).map(flag => (
+                              <div key={flag.ruleId} className="mt-1 text-xs text-orange-700" title={flag.ruleId}>
+                                Rule: {flag.message}
+                              </div>
+                            ))}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                            <select
+                              value={rowSection(row)}
+                              onChange={(e) => handleRowSectionChange(rowIndex, e.target.value)}
+                              title="Section"
+                              className="mb-2 block w-full p-1 border border-gray-300 rounded-md text-xs font-normal"
+                            >
+                              {sectionOptions.map(name => (
+                                <option key={name} value={name}>{name}</option>
+                              ))}
+                            </select>
+                            <button
+                              onClick={() => removeRow(rowIndex)}
+                              className="text-red-600 hover:text-red-900"
+                            >
+                              Remove
+                            </button>
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </React.Fragment>
+                );
+              })
             )}
           </tbody>
         </table>
@@ -0,0 +1,120 @@
+import React, { useEffect, useState } from 'react';
+import Section from './ui/Section';
+import Button from './ui/Button';
+import {
+  LETTER_LANGUAGES,
+  LETTER_TEMPLATES,
+  LetterOptions,
+  READING_LEVELS,
+  suggestLetterTemplate
+} from '../utils/letterTemplates';
+import { AnalysisFinding } from '../utils/analysisFindings';
+
+interface PatientLetterProps {
+  letterText: string;
+  findings: AnalysisFinding[];
+  onLetterChange: (letterText: string) => void;
+  onGenerate: (options: LetterOptions, offline: boolean) => void;
+  isProcessing: boolean;
+  canGenerate: boolean;
+}
+
+const selectClassName = 'px-3 py-2 border border-gray-300 rounded-md text-sm';
+
+const PatientLetter: React.FC<PatientLetterProps> = ({
+  letterText,
+  findings,
+  onLetterChange,
+  onGenerate,
+  isProcessing,
+  canGenerate
+}) => {
+  const [options, setOptions] = useState<LetterOptions>({
+    template: 'normal',
+    language: 'nl',
+    readingLevel: 'plain'
+  });
+
+  // Follow the findings with the suggested template until the user picks one
+  const [templateTouched, setTemplateTouched] = useState(false);
+  const suggestedTemplate = suggestLetterTemplate(findings);
+  useEffect(() => {
+    if (!templateTouched) {
+      setOptions(prev => ({ ...prev, template: suggestedTemplate }));
+    }
+  }, [suggestedTemplate, templateTouched]);
+
+  return (
+    <Section
+      title="Patient Letter"
+      buttons={
+        <>
+          <Button onClick={() => onGenerate(options, false)} disabled={!canGenerate || isProcessing}>
+            {isProcessing ? 'Writing...' : 'Generate Letter'}
+          </Button>
+          <Button
+            onClick={() => onGenerate(options, true)}
+            disabled={!canGenerate || isProcessing}
+            className="bg-gray-600 hover:bg-gray-700"
+          >
+            Use Offline Template
+          </Button>
+        </>
+      }
+    >
+      <div className="mb-4 flex flex-wrap gap-3">
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          Template
+          <select
+            value={options.template}
+            onChange={(e) => {
+              setTemplateTouched(true);
+              setOptions({ ...options, template: e.target.value as LetterOptions['template'] });
+            }}
+            className={selectClassName}
+          >
+            {LETTER_TEMPLATES.map(({ value, label }) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          Language
+          <select
+            value={options.language}
+            onChange={(e) => setOptions({ ...options, language: e.target.value as LetterOptions['language'] })}
+            className={selectClassName}
+          >
+            {LETTER_LANGUAGES.map(({ value, label }) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          Reading level
+          <select
+            value={options.readingLevel}
+            onChange={(e) => setOptions({ ...options, readingLevel: e.target.value as LetterOptions['readingLevel'] })}
+            className={selectClassName}
+          >
+            {READING_LEVELS.map(({ value, label }) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <textarea
+        value={letterText}
+        onChange={(e) => onLetterChange(e.target.value)}
+        className="bg-gray-50 p-4 rounded-md resize-none border border-gray-300
+          focus:border-blue-500 focus:ring focus:ring-blue-200 focus:ring-opacity-50
+          text-base leading-relaxed analysis-textarea"
+        placeholder="The patient letter will appear here..."
+        spellCheck="false"
+      />
+    </Section>
+  );
+};
+
+export default PatientLetter;
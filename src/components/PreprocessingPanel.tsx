@@ -0,0 +1,272 @@
+import React, { useEffect, useState } from 'react';
+import Section from './ui/Section';
+import Button from './ui/Button';
+import { AppSettings, saveSettings } from '../config/settings';
+import {
+  BUILT_IN_PRESETS,
+  cloneStages,
+  deleteCustomPreset,
+  findPreset,
+  loadCustomPresets,
+  saveCustomPreset,
+  STAGE_LABELS
+} from '../config/preprocessingPresets';
+import { BinarizeMethod, GrayImage, LineMode, PreprocessingStage } from '../types/preprocessing';
+import { canvasToGray } from '../utils/imageProcessing';
+import { previewInWorker } from '../services/preprocessingPool';
+import { renderFirstPage } from '../utils/documentPreview';
+
+interface PreprocessingPanelProps {
+  file: File | null;
+  settings: AppSettings;
+  onSettingsChange: (settings: AppSettings) => void;
+}
+
+// Previews run on a reduced copy of the first page so tuning stays responsive
+const PREVIEW_WIDTH = 800;
+
+const inputClassName = 'px-2 py-1 border border-gray-300 rounded-md text-sm';
+
+const PreprocessingPanel: React.FC<PreprocessingPanelProps> = ({ file, settings, onSettingsChange }) => {
+  const [presetName, setPresetName] = useState(settings.ocr.preprocessingPreset);
+  const [stages, setStages] = useState<PreprocessingStage[]>(() => cloneStages(findPreset(settings.ocr.preprocessingPreset).stages));
+  const [customPresets, setCustomPresets] = useState(loadCustomPresets);
+  const [newPresetName, setNewPresetName] = useState('');
+  const [selectedStage, setSelectedStage] = useState(0);
+  const [source, setSource] = useState<GrayImage | null>(null);
+  const [previews, setPreviews] = useState<string[]>([]);
+  const [previewError, setPreviewError] = useState<string | null>(null);
+
+  // Render the first page once per document
+  useEffect(() => {
+    setSource(null);
+    setPreviews([]);
+    if (!file) return;
+    let cancelled = false;
+    renderFirstPage(file, PREVIEW_WIDTH)
+      .then(canvas => {
+        if (!cancelled) setSource(canvasToGray(canvas));
+        canvas.remove();
+      })
+      .catch(error => setPreviewError(error instanceof Error ? error.message : String(error)));
+    return () => {
+      cancelled = true;
+    };
+  }, [file]);
+
+  // Rerun the stages in a worker shortly after the last change; a newer change cancels the run
+  useEffect(() => {
+    if (!source) return;
+    const controller = new AbortController();
+    const timer = setTimeout(() => {
+      previewInWorker(source, stages, controller.signal)
+        .then(({ steps }) => {
+          setPreviews(steps.map(step => URL.createObjectURL(step)));
+          setPreviewError(null);
+        })
+        .catch(error => {
+          if (!controller.signal.aborted) {
+            setPreviewError(error instanceof Error ? error.message : String(error));
+          }
+        });
+    }, 300);
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [source, stages]);
+
+  // Release the previous preview images
+  useEffect(() => () => previews.forEach(url => URL.revokeObjectURL(url)), [previews]);
+
+  const selectPreset = (name: string) => {
+    setPresetName(name);
+    setStages(cloneStages(findPreset(name).stages));
+    setSelectedStage(0);
+  };
+
+  const updateStage = (index: number, changes: Partial<PreprocessingStage>) =>
+    setStages(stages.map((stage, i) => (i === index ? { ...stage, ...changes } as PreprocessingStage : stage)));
+
+  const moveStage = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= stages.length) return;
+    const next = [...stages];
+    [next[index], next[target]] = [next[target], next[index]];
+    setStages(next);
+    setSelectedStage(target);
+  };
+
+  const applyToOcr = (name: string) => {
+    const updated = { ...settings, ocr: { ...settings.ocr, preprocessingPreset: name } };
+    saveSettings(updated);
+    onSettingsChange(updated);
+  };
+
+  const handleSavePreset = () => {
+    const name = newPresetName.trim();
+    if (!name) return;
+    try {
+      saveCustomPreset({ name, stages });
+      setCustomPresets(loadCustomPresets());
+      setPresetName(name);
+      setNewPresetName('');
+      applyToOcr(name);
+    } catch (error) {
+      setPreviewError(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  const handleDeletePreset = () => {
+    deleteCustomPreset(presetName);
+    setCustomPresets(loadCustomPresets());
+    if (settings.ocr.preprocessingPreset === presetName) {
+      applyToOcr(BUILT_IN_PRESETS[0].name);
+    }
+    selectPreset(BUILT_IN_PRESETS[0].name);
+  };
+
+  const isCustom = customPresets.some(preset => preset.name === presetName);
+  const changed = JSON.stringify(stages) !== JSON.stringify(findPreset(presetName).stages);
+
+  const renderParameters = (stage: PreprocessingStage, index: number) => {
+    switch (stage.type) {
+      case 'scale':
+        return (
+          <label className="flex items-center gap-1">
+            Factor
+            <input type="number" min={1} max={4} step={0.5} value={stage.factor} onChange={(e) => updateStage(index, { factor: Number(e.target.value) || 1 })} className={`${inputClassName} w-20`} />
+          </label>
+        );
+      case 'grayscale':
+        return (
+          <label className="flex items-center gap-1">
+            Contrast
+            <input type="number" min={0.5} max={2} step={0.05} value={stage.contrast} onChange={(e) => updateStage(index, { contrast: Number(e.target.value) || 1 })} className={`${inputClassName} w-20`} />
+          </label>
+        );
+      case 'binarize':
+        return (
+          <>
+            <select value={stage.method} onChange={(e) => updateStage(index, { method: e.target.value as BinarizeMethod })} className={inputClassName}>
+              <option value="otsu">Otsu (global)</option>
+              <option value="sauvola">Sauvola (adaptive)</option>
+            </select>
+            {stage.method === 'sauvola' && (
+              <>
+                <label className="flex items-center gap-1">
+                  Window
+                  <input type="number" min={15} max={101} step={2} value={stage.windowSize} onChange={(e) => updateStage(index, { windowSize: Number(e.target.value) || 31 })} className={`${inputClassName} w-20`} />
+                </label>
+                <label className="flex items-center gap-1">
+                  k
+                  <input type="number" min={0.05} max={0.5} step={0.05} value={stage.k} onChange={(e) => updateStage(index, { k: Number(e.target.value) || 0.2 })} className={`${inputClassName} w-20`} />
+                </label>
+              </>
+            )}
+          </>
+        );
+      case 'denoise':
+        return (
+          <label className="flex items-center gap-1">
+            Radius
+            <select value={stage.radius} onChange={(e) => updateStage(index, { radius: Number(e.target.value) })} className={inputClassName}>
+              <option value={1}>1 (3×3)</option>
+              <option value={2}>2 (5×5)</option>
+            </select>
+          </label>
+        );
+      case 'lines':
+        return (
+          <>
+            <select value={stage.mode} onChange={(e) => updateStage(index, { mode: e.target.value as LineMode })} className={inputClassName}>
+              <option value="remove">Remove</option>
+              <option value="enhance">Enhance</option>
+            </select>
+            <label className="flex items-center gap-1">
+              Min. length
+              <input type="number" min={0.02} max={0.9} step={0.01} value={stage.minLength} onChange={(e) => updateStage(index, { minLength: Number(e.target.value) || 0.05 })} className={`${inputClassName} w-20`} />
+            </label>
+          </>
+        );
+    }
+  };
+
+  return (
+    <Section
+      title="Image Preprocessing"
+      buttons={
+        <>
+          <Button onClick={() => applyToOcr(presetName)} disabled={changed || settings.ocr.preprocessingPreset === presetName}>
+            Use for OCR
+          </Button>
+          {isCustom && (
+            <Button onClick={handleDeletePreset} className="bg-red-600 hover:bg-red-700">Delete Preset</Button>
+          )}
+        </>
+      }
+    >
+      <div className="flex flex-wrap items-center gap-3 mb-4 text-sm text-gray-700">
+        <label className="flex items-center gap-2">
+          Preset
+          <select value={presetName} onChange={(e) => selectPreset(e.target.value)} className={inputClassName}>
+            {[...BUILT_IN_PRESETS, ...customPresets].map(preset => (
+              <option key={preset.name} value={preset.name}>{preset.name}</option>
+            ))}
+          </select>
+        </label>
+        <span>OCR uses: <strong>{settings.ocr.preprocessingPreset}</strong></span>
+        <input
+          type="text"
+          value={newPresetName}
+          onChange={(e) => setNewPresetName(e.target.value)}
+          placeholder="New preset name"
+          className={inputClassName}
+        />
+        <Button onClick={handleSavePreset} disabled={!newPresetName.trim()}>Save as Preset</Button>
+      </div>
+      {changed && (
+        <p className="mb-4 text-sm text-orange-700">The stages differ from "{presetName}"; save them as a preset to use them for OCR.</p>
+      )}
+
+      <ol className="flex flex-col gap-2 mb-4">
+        {stages.map((stage, index) => (
+          <li
+            key={stage.type}
+            className={`flex flex-wrap items-center gap-3 p-2 rounded-md border text-sm text-gray-700 ${index === selectedStage ? 'border-blue-400 bg-blue-50' : 'border-gray-200'}`}
+          >
+            <input type="checkbox" checked={stage.enabled} onChange={(e) => updateStage(index, { enabled: e.target.checked })} />
+            <button onClick={() => setSelectedStage(index)} className="font-medium w-44 text-left hover:text-blue-700">
+              {index + 1}. {STAGE_LABELS[stage.type]}
+            </button>
+            {renderParameters(stage, index)}
+            <span className="ml-auto flex gap-2">
+              <button onClick={() => moveStage(index, -1)} disabled={index === 0} className="text-blue-600 disabled:text-gray-300">↑</button>
+              <button onClick={() => moveStage(index, 1)} disabled={index === stages.length - 1} className="text-blue-600 disabled:text-gray-300">↓</button>
+            </span>
+          </li>
+        ))}
+      </ol>
+
+      {previewError && <p className="mb-2 text-sm text-red-600">{previewError}</p>}
+      {!file ? (
+        <p className="text-sm text-gray-500">Choose a document to preview the stages on its first page.</p>
+      ) : previews.length > selectedStage + 1 ? (
+        <div className="grid grid-cols-2 gap-4">
+          <figure>
+            <figcaption className="mb-1 text-xs font-medium text-gray-500 uppercase">Before {STAGE_LABELS[stages[selectedStage].type]}</figcaption>
+            <img src={previews[selectedStage]} alt="Before stage" className="w-full border border-gray-200 rounded-md" />
+          </figure>
+          <figure>
+            <figcaption className="mb-1 text-xs font-medium text-gray-500 uppercase">After</figcaption>
+            <img src={previews[selectedStage + 1]} alt="After stage" className="w-full border border-gray-200 rounded-md" />
+          </figure>
+        </div>
+      ) : (
+        <p className="text-sm text-gray-500">Rendering preview...</p>
+      )}
+    </Section>
+  );
+};
+
+export default PreprocessingPanel;
@@ -0,0 +1,89 @@
+import React from 'react';
+import Section from './ui/Section';
+import Button from './ui/Button';
+import { RedactionResult } from '../utils/redaction';
+
+interface RedactionPreviewProps {
+  redaction: RedactionResult;
+  onToggleEntity: (placeholder: string) => void;
+  onConfirm: () => void;
+  onCancel: () => void;
+  isProcessing: boolean;
+}
+
+const RedactionPreview: React.FC<RedactionPreviewProps> = ({
+  redaction,
+  onToggleEntity,
+  onConfirm,
+  onCancel,
+  isProcessing
+}) => {
+  // Split on placeholders so they can be highlighted in the preview
+  const parts = redaction.redactedText.split(/(\[[A-Z]+_\d+\])/g);
+
+  return (
+    <Section
+      title="Redaction Preview"
+      buttons={
+        <>
+          <Button onClick={onConfirm} disabled={isProcessing}>
+            {isProcessing ? 'Processing...' : 'Confirm & Send'}
+          </Button>
+          <Button onClick={onCancel} disabled={isProcessing} className="bg-gray-600 hover:bg-gray-700">
+            Cancel
+          </Button>
+        </>
+      }
+    >
+      <p className="mb-4 text-sm text-gray-600">
+        Only the redacted text below is sent for analysis. Untick a value to send it in clear text.
+      </p>
+
+      {redaction.entities.length === 0 ? (
+        <p className="mb-4 text-sm text-yellow-700">No personal information was detected. Check the text carefully before sending.</p>
+      ) : (
+        <div className="mb-4 overflow-x-auto border border-gray-200 rounded-md bg-white">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Redact</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Placeholder</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Original Value</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Occurrences</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {redaction.entities.map(entity => (
+                <tr key={entity.placeholder}>
+                  <td className="px-6 py-2">
+                    <input
+                      type="checkbox"
+                      checked={entity.enabled}
+                      onChange={() => onToggleEntity(entity.placeholder)}
+                      disabled={isProcessing}
+                    />
+                  </td>
+                  <td className="px-6 py-2 font-mono text-sm text-blue-700">{entity.placeholder}</td>
+                  <td className="px-6 py-2 text-sm text-gray-700">{entity.value}</td>
+                  <td className="px-6 py-2 text-sm text-gray-500">{entity.occurrences}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <pre className="bg-gray-50 p-4 rounded-md border border-gray-300 font-mono text-sm whitespace-pre-wrap max-h-96 overflow-auto">
+        {parts.map((part, index) =>
+          index % 2 === 1 ? (
+            <span key={index} className="bg-yellow-200 text-blue-800 rounded px-0.5">{part}</span>
+          ) : (
+            <React.Fragment key={index}>{part}</React.Fragment>
+          )
+        )}
+      </pre>
+    </Section>
+  );
+};
+
+export default RedactionPreview;
@@ -0,0 +1,128 @@
+import React, { useState } from 'react';
+import Section from './ui/Section';
+import Button from './ui/Button';
+import {
+  PatientContext,
+  PatientSex,
+  resetRulesFile,
+  RulesFile,
+  saveRulesFile,
+  validateRulesFile
+} from '../utils/rulesEngine';
+
+interface RulesEditorProps {
+  rulesFile: RulesFile;
+  onRulesChange: (rulesFile: RulesFile) => void;
+  patientContext: PatientContext;
+  onPatientContextChange: (context: PatientContext) => void;
+}
+
+const RulesEditor: React.FC<RulesEditorProps> = ({
+  rulesFile,
+  onRulesChange,
+  patientContext,
+  onPatientContextChange
+}) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState('');
+  const [errors, setErrors] = useState<string[]>([]);
+
+  const startEditing = () => {
+    setDraft(JSON.stringify(rulesFile, null, 2));
+    setErrors([]);
+    setIsEditing(true);
+  };
+
+  // Parse and validate the draft; returns the rules only when they can be used
+  const validateDraft = (): RulesFile | null => {
+    try {
+      const { rulesFile: validated, errors: validationErrors } = validateRulesFile(JSON.parse(draft));
+      setErrors(validationErrors);
+      return validated;
+    } catch (error) {
+      setErrors([`Invalid JSON: ${error instanceof Error ? error.message : String(error)}`]);
+      return null;
+    }
+  };
+
+  const handleSave = () => {
+    const validated = validateDraft();
+    if (!validated) return;
+    saveRulesFile(validated);
+    onRulesChange(validated);
+    setIsEditing(false);
+  };
+
+  const handleReset = () => {
+    const defaults = resetRulesFile();
+    onRulesChange(defaults);
+    setDraft(JSON.stringify(defaults, null, 2));
+    setErrors([]);
+  };
+
+  const activeRules = rulesFile.rules.filter(rule => rule.enabled !== false);
+
+  return (
+    <Section
+      title="Rules & Constraints"
+      buttons={
+        isEditing ? (
+          <>
+            <Button onClick={() => validateDraft()}>Validate</Button>
+            <Button onClick={handleSave}>Save Rules</Button>
+            <Button onClick={handleReset} className="bg-gray-600 hover:bg-gray-700">Reset to Default</Button>
+            <Button onClick={() => setIsEditing(false)} className="bg-gray-600 hover:bg-gray-700">Close</Button>
+          </>
+        ) : (
+          <Button onClick={startEditing}>Edit Rules</Button>
+        )
+      }
+    >
+      <div className="mb-4 flex items-center gap-3">
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          Patient sex
+          <select
+            value={patientContext.sex}
+            onChange={(e) => onPatientContextChange({ ...patientContext, sex: e.target.value as PatientSex })}
+            className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+          >
+            <option value="unknown">Unknown</option>
+            <option value="female">Female</option>
+            <option value="male">Male</option>
+          </select>
+        </label>
+        <span className="text-sm text-gray-500">
+          Rules version {rulesFile.version}, {activeRules.length} of {rulesFile.rules.length} active
+        </span>
+      </div>
+
+      {isEditing ? (
+        <>
+          {errors.length > 0 && (
+            <ul className="mb-4 p-4 bg-red-50 border border-red-200 rounded-md text-sm text-red-600 list-disc list-inside">
+              {errors.map((error, index) => (
+                <li key={index}>{error}</li>
+              ))}
+            </ul>
+          )}
+          <textarea
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            className="bg-gray-50 p-4 rounded-md resize-none border border-gray-300
+              focus:border-blue-500 focus:ring focus:ring-blue-200 focus:ring-opacity-50
+              font-mono text-sm leading-relaxed analysis-textarea"
+            spellCheck="false"
+          />
+        </>
+      ) : (
+        <ul className="text-sm text-gray-700 list-disc list-inside">
+          {activeRules.map(rule => (
+            <li key={rule.id}>{rule.description || rule.id}</li>
+          ))}
+        </ul>
+      )}
+    </Section>
+  );
+};
+
+export default RulesEditor;
@@ -0,0 +1,215 @@
+import React, { useEffect, useState } from 'react';
+import Section from './ui/Section';
+import Button from './ui/Button';
+import { AppSettings, LLM_PROVIDERS, LlmProviderId, LowConfidencePolicy, saveSettings } from '../config/settings';
+import { fetchProviders, ProviderInfo } from '../services/labApi';
+import { OCR_LANGUAGES, OcrLanguageChoice, WhitelistMode } from '../config/ocrLanguages';
+
+interface SettingsPanelProps {
+  settings: AppSettings;
+  onSettingsChange: (settings: AppSettings) => void;
+}
+
+const inputClassName = 'px-3 py-2 border border-gray-300 rounded-md text-sm';
+
+const SettingsPanel: React.FC<SettingsPanelProps> = ({ settings, onSettingsChange }) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState<AppSettings>(settings);
+  const [providers, setProviders] = useState<ProviderInfo[] | null>(null);
+  const [providerError, setProviderError] = useState<string | null>(null);
+
+  // Ask the server which providers it allows whenever the panel is opened
+  useEffect(() => {
+    if (!isEditing) return;
+    fetchProviders()
+      .then(list => {
+        setProviders(list);
+        setProviderError(null);
+      })
+      .catch(error => setProviderError(error instanceof Error ? error.message : String(error)));
+  }, [isEditing]);
+
+  const startEditing = () => {
+    setDraft(settings);
+    setIsEditing(true);
+  };
+
+  const handleSave = () => {
+    saveSettings(draft);
+    onSettingsChange(draft);
+    setIsEditing(false);
+  };
+
+  const updateLlm = (changes: Partial<AppSettings['llm']>) =>
+    setDraft(prev => ({ ...prev, llm: { ...prev.llm, ...changes } }));
+
+  const updateOcr = (changes: Partial<AppSettings['ocr']>) =>
+    setDraft(prev => ({ ...prev, ocr: { ...prev.ocr, ...changes } }));
+
+  const updatePractice = (changes: Partial<AppSettings['practice']>) =>
+    setDraft(prev => ({ ...prev, practice: { ...prev.practice, ...changes } }));
+
+  // Switching provider resets the model to that provider's default
+  const handleProviderChange = (provider: LlmProviderId) => {
+    const info = providers?.find(p => p.id === provider);
+    updateLlm({ provider, model: info?.defaultModel ?? '' });
+  };
+
+  const selectedProvider = providers?.find(p => p.id === draft.llm.provider);
+  const providerLabel = LLM_PROVIDERS.find(p => p.value === settings.llm.provider)?.label ?? settings.llm.provider;
+
+  return (
+    <Section
+      title="Settings"
+      buttons={
+        isEditing ? (
+          <>
+            <Button onClick={handleSave}>Save Settings</Button>
+            <Button onClick={() => setIsEditing(false)} className="bg-gray-600 hover:bg-gray-700">Cancel</Button>
+          </>
+        ) : (
+          <Button onClick={startEditing}>Edit Settings</Button>
+        )
+      }
+    >
+      {isEditing ? (
+        <div className="flex flex-col gap-4">
+          <div className="flex flex-wrap gap-3">
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              Provider
+              <select
+                value={draft.llm.provider}
+                onChange={(e) => handleProviderChange(e.target.value as LlmProviderId)}
+                className={inputClassName}
+              >
+                {LLM_PROVIDERS.map(({ value, label }) => {
+                  const info = providers?.find(p => p.id === value);
+                  const suffix = providers && !info ? ' (disabled on server)' : info && !info.configured ? ' (not configured)' : '';
+                  return (
+                    <option key={value} value={value} disabled={!!providers && !info}>{label}{suffix}</option>
+                  );
+                })}
+              </select>
+            </label>
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              Model
+              <input
+                type="text"
+                value={draft.llm.model}
+                onChange={(e) => updateLlm({ model: e.target.value })}
+                placeholder={selectedProvider?.defaultModel}
+                className={inputClassName}
+              />
+            </label>
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              Temperature
+              <input
+                type="number"
+                min={0}
+                max={2}
+                step={0.1}
+                value={draft.llm.temperature}
+                onChange={(e) => updateLlm({ temperature: Math.min(2, Math.max(0, Number(e.target.value) || 0)) })}
+                className={`${inputClassName} w-24`}
+              />
+            </label>
+          </div>
+          {providerError && (
+            <p className="text-sm text-red-600">Providers could not be loaded: {providerError}</p>
+          )}
+          {selectedProvider && !selectedProvider.configured && (
+            <p className="text-sm text-red-600">This provider has no key or endpoint configured on the server.</p>
+          )}
+
+          <div className="flex flex-wrap gap-3">
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              Review values below confidence
+              <input
+                type="number"
+                min={0}
+                max={100}
+                step={5}
+                value={draft.ocr.confidenceThreshold}
+                onChange={(e) => updateOcr({ confidenceThreshold: Math.min(100, Math.max(0, Number(e.target.value) || 0)) })}
+                className={`${inputClassName} w-24`}
+              />
+            </label>
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              Unconfirmed values
+              <select
+                value={draft.ocr.lowConfidencePolicy}
+                onChange={(e) => updateOcr({ lowConfidencePolicy: e.target.value as LowConfidencePolicy })}
+                className={inputClassName}
+              >
+                <option value="warn">Warn before analysis</option>
+                <option value="block">Block analysis</option>
+              </select>
+            </label>
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              Default document language
+              <select
+                value={draft.ocr.language}
+                onChange={(e) => updateOcr({ language: e.target.value as OcrLanguageChoice })}
+                className={inputClassName}
+              >
+                <option value="auto">Detect from first page</option>
+                {OCR_LANGUAGES.map(({ value, label }) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
+            </label>
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              Characters
+              <select
+                value={draft.ocr.whitelist}
+                onChange={(e) => updateOcr({ whitelist: e.target.value as WhitelistMode })}
+                className={inputClassName}
+              >
+                <option value="preset">Language preset</option>
+                <option value="none">No whitelist</option>
+              </select>
+            </label>
+          </div>
+
+          <div className="flex flex-wrap gap-3">
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              Practice name
+              <input
+                type="text"
+                value={draft.practice.practiceName}
+                onChange={(e) => updatePractice({ practiceName: e.target.value })}
+                className={inputClassName}
+              />
+            </label>
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              Physician
+              <input
+                type="text"
+                value={draft.practice.physicianName}
+                onChange={(e) => updatePractice({ physicianName: e.target.value })}
+                className={inputClassName}
+              />
+            </label>
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              Signature
+              <input
+                type="text"
+                value={draft.practice.signature}
+                onChange={(e) => updatePractice({ signature: e.target.value })}
+                className={inputClassName}
+              />
+            </label>
+          </div>
+        </div>
+      ) : (
+        <p className="text-sm text-gray-700">
+          {providerLabel}, model {settings.llm.model || 'default'}, temperature {settings.llm.temperature}
+          {` · review below ${settings.ocr.confidenceThreshold}% confidence`}
+          {settings.practice.practiceName && ` · ${settings.practice.practiceName}`}
+        </p>
+      )}
+    </Section>
+  );
+};
+
+export default SettingsPanel;
@@ -0,0 +1,113 @@
+import React, { useEffect, useRef, useState } from 'react';
+import Section from './ui/Section';
+import { CellPosition, LabResultField, LabResultRow } from './LabResultsTemplate';
+import { OcrWord, PageRender } from '../types/ocr';
+import { Box } from '../types/table';
+
+interface SourceViewerProps {
+  pages: PageRender[];
+  words: OcrWord[];
+  rows: LabResultRow[];
+  activeCell: CellPosition | null;
+  onSelectCell: (cell: CellPosition) => void;
+}
+
+const contains = (box: Box, x: number, y: number) => x >= box.x0 && x <= box.x1 && y >= box.y0 && y <= box.y1;
+
+const SourceViewer: React.FC<SourceViewerProps> = ({ pages, words, rows, activeCell, onSelectCell }) => {
+  const [pageNumber, setPageNumber] = useState(1);
+  const highlightRef = useRef<SVGRectElement>(null);
+
+  const activeSource = activeCell ? rows[activeCell.rowIndex]?.cellMeta?.[activeCell.field]?.source : undefined;
+
+  // Follow the selected cell to its page
+  useEffect(() => {
+    if (activeSource) {
+      setPageNumber(activeSource.pageNumber);
+    }
+  }, [activeSource?.pageNumber, activeSource?.bbox.x0, activeSource?.bbox.y0]);
+
+  useEffect(() => {
+    highlightRef.current?.scrollIntoView({ block: 'nearest', inline: 'nearest' });
+  }, [activeSource, pageNumber]);
+
+  // Start on the first page when a new document is read
+  useEffect(() => {
+    setPageNumber(pages[0]?.pageNumber ?? 1);
+  }, [pages]);
+
+  const page = pages.find(p => p.pageNumber === pageNumber);
+  if (!page) {
+    return null;
+  }
+
+  const pageWords = words.filter(word => (word.pageNumber ?? 1) === page.pageNumber);
+
+  // The cell whose source region holds the clicked point; the smallest region wins
+  const selectAt = (x: number, y: number) => {
+    const candidates = rows.flatMap((row, rowIndex) =>
+      (Object.keys(row.cellMeta ?? {}) as LabResultField[]).flatMap(field => {
+        const source = row.cellMeta?.[field]?.source;
+        if (!source || source.pageNumber !== page.pageNumber || !contains(source.bbox, x, y)) return [];
+        return [{ cell: { rowIndex, field }, area: (source.bbox.x1 - source.bbox.x0) * (source.bbox.y1 - source.bbox.y0) }];
+      })
+    );
+    const best = candidates.sort((a, b) => a.area - b.area)[0];
+    if (best) {
+      onSelectCell(best.cell);
+    }
+  };
+
+  return (
+    <Section title="Source Document">
+      {pages.length > 1 && (
+        <div className="mb-3 flex flex-wrap gap-2">
+          {pages.map(p => (
+            <button
+              key={p.pageNumber}
+              onClick={() => setPageNumber(p.pageNumber)}
+              className={`px-2 py-1 rounded-md text-sm ${p.pageNumber === page.pageNumber ? 'bg-blue-600 text-white' : 'bg-gray-200 text-gray-700 hover:bg-gray-300'}`}
+            >
+              Page {p.pageNumber}
+            </button>
+          ))}
+        </div>
+      )}
+      <p className="mb-2 text-sm text-gray-600">Click a word to jump to its cell in the template.</p>
+      <div className="max-h-[80vh] overflow-auto border border-gray-200 rounded-md bg-white">
+        <svg viewBox={`0 0 ${page.width} ${page.height}`} className="w-full h-auto">
+          <image href={page.url} x={0} y={0} width={page.width} height={page.height} />
+          {pageWords.map((word, index) => (
+            <rect
+              key={index}
+              x={word.bbox.x0}
+              y={word.bbox.y0}
+              width={word.bbox.x1 - word.bbox.x0}
+              height={word.bbox.y1 - word.bbox.y0}
+              className="fill-blue-400/10 stroke-blue-400 cursor-pointer hover:fill-blue-400/30"
+              strokeWidth={1}
+              vectorEffect="non-scaling-stroke"
+              onClick={() => selectAt((word.bbox.x0 + word.bbox.x1) / 2, (word.bbox.y0 + word.bbox.y1) / 2)}
+            >
+              <title>{word.confidence !== undefined ? `${word.text} (${Math.round(word.confidence)}%)` : word.text}</title>
+            </rect>
+          ))}
+          {activeSource && activeSource.pageNumber === page.pageNumber && (
+            <rect
+              ref={highlightRef}
+              x={activeSource.bbox.x0 - 4}
+              y={activeSource.bbox.y0 - 4}
+              width={activeSource.bbox.x1 - activeSource.bbox.x0 + 8}
+              height={activeSource.bbox.y1 - activeSource.bbox.y0 + 8}
+              className="fill-orange-400/20 stroke-orange-500 pointer-events-none"
+              strokeWidth={3}
+              vectorEffect="non-scaling-stroke"
+            />
+          )}
+        </svg>
+      </div>
+    </Section>
+  );
+};
+
+export default SourceViewer;
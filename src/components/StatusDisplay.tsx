@@ -1,15 +1,30 @@
 import React from 'react';
+import { PageExtractionMethod } from '../types/ocr';
+import { OCR_LANGUAGES, OcrLanguage } from '../config/ocrLanguages';
+import { PageCorrection } from '../types/preprocessing';
+import { describeCorrection } from '../utils/pageCorrection';
 
 interface StatusDisplayProps {
   processingStatus?: string;
   error?: string | null;
   progress?: number;
+  pageMethods?: PageExtractionMethod[];
+  language?: OcrLanguage | null;
+  pageCorrections?: (PageCorrection | null)[];
 }
 
+const METHOD_LABELS: Record<PageExtractionMethod, string> = {
+  'text-layer': 'text layer',
+  'ocr': 'OCR'
+};
+
 const StatusDisplay: React.FC<StatusDisplayProps> = ({
   processingStatus,
   error,
-  progress
+  progress,
+  pageMethods = [],
+  language,
+  pageCorrections = []
 }) => {
   return (
     <>
@@ -30,6 +45,28 @@ const StatusDisplay: React.FC<StatusDisplayProps> = ({
         </div>
       )}
 
+      {pageMethods.length > 0 && (
+        <div className="mb-6 flex flex-wrap gap-2 text-sm text-gray-700">
+          {pageMethods.map((method, index) => {
+            const correction = pageCorrections[index];
+            const corrected = correction ? describeCorrection(correction) : null;
+            return (
+              <span
+                key={index}
+                className={`px-2 py-1 rounded-md ${method === 'text-layer' ? 'bg-green-100 text-green-800' : 'bg-yellow-100 text-yellow-800'}`}
+              >
+                Page {index + 1}: {METHOD_LABELS[method]}{corrected && ` (${corrected})`}
+              </span>
+            );
+          })}
+          {language && (
+            <span className="px-2 py-1 rounded-md bg-gray-100 text-gray-800">
+              Language: {OCR_LANGUAGES.find(option => option.value === language)?.label}
+            </span>
+          )}
+        </div>
+      )}
+
       {error && (
         <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-md">
           <p className="text-red-600">{error}</p>
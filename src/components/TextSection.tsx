@@ -1,6 +1,5 @@
 import React from 'react';
 import Section from './ui/Section';
-import Button from './ui/Button';
 
 interface TextSectionProps {
   title: string;
@@ -0,0 +1,92 @@
+import React from 'react';
+import { AnalyteTrend, describeTrend, TrendPoint } from '../utils/trends';
+import { formatValue } from '../utils/units';
+
+interface TrendChartProps {
+  trend: AnalyteTrend;
+}
+
+const WIDTH = 320;
+const HEIGHT = 150;
+const PADDING = { top: 10, right: 12, bottom: 22, left: 44 };
+
+const isOutside = (point: TrendPoint): boolean =>
+  (point.upper !== null && point.value > point.upper) || (point.lower !== null && point.value < point.lower);
+
+// Plots one analyte over time against the reference band of each report
+const TrendChart: React.FC<TrendChartProps> = ({ trend }) => {
+  const { points } = trend;
+  const times = points.map(point => Date.parse(point.date));
+  const firstTime = Math.min(...times);
+  const timeSpan = Math.max(...times) - firstTime;
+
+  const values = points.flatMap(point => [point.value, point.lower, point.upper]).filter((v): v is number => v !== null);
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const margin = (max - min) * 0.1 || Math.abs(max) * 0.1 || 1;
+  // Lab values are rarely negative, so the axis stops at zero
+  const yMin = min >= 0 ? Math.max(0, min - margin) : min - margin;
+  const yMax = max + margin;
+
+  const plotWidth = WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = HEIGHT - PADDING.top - PADDING.bottom;
+  // Reports from a single day are drawn in the middle
+  const x = (time: number) => PADDING.left + (timeSpan === 0 ? plotWidth / 2 : ((time - firstTime) / timeSpan) * plotWidth);
+  const y = (value: number) => PADDING.top + (1 - (value - yMin) / (yMax - yMin)) * plotHeight;
+
+  // The band follows each report's own range; a single range spans the whole chart
+  const banded = points
+    .map((point, index) => ({ point, time: times[index] }))
+    .filter(({ point }) => point.lower !== null || point.upper !== null);
+  const bandEdges = banded.length === 1
+    ? [{ ...banded[0], px: PADDING.left }, { ...banded[0], px: WIDTH - PADDING.right }]
+    : banded.map(entry => ({ ...entry, px: x(entry.time) }));
+  const band = bandEdges.length > 0
+    ? [
+      ...bandEdges.map(({ point, px }) => `${px},${y(point.upper ?? yMax)}`),
+      ...[...bandEdges].reverse().map(({ point, px }) => `${px},${y(point.lower ?? yMin)}`)
+    ].join(' ')
+    : null;
+
+  const description = describeTrend(trend);
+  const line = points.map((point, index) => `${x(times[index])},${y(point.value)}`).join(' ');
+
+  return (
+    <figure className="p-3 border border-gray-200 rounded-md bg-white">
+      <figcaption className="mb-1 text-sm font-medium text-gray-800">
+        {trend.label} <span className="font-normal text-gray-500">({trend.unit})</span>
+      </figcaption>
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img" aria-label={description ?? trend.label}>
+        {band && <polygon points={band} className="fill-green-100" />}
+        <line x1={PADDING.left} y1={PADDING.top} x2={PADDING.left} y2={HEIGHT - PADDING.bottom} className="stroke-gray-300" />
+        <line x1={PADDING.left} y1={HEIGHT - PADDING.bottom} x2={WIDTH - PADDING.right} y2={HEIGHT - PADDING.bottom} className="stroke-gray-300" />
+        <text x={PADDING.left - 4} y={PADDING.top + 4} textAnchor="end" className="fill-gray-500 text-[10px]">{formatValue(yMax)}</text>
+        <text x={PADDING.left - 4} y={HEIGHT - PADDING.bottom} textAnchor="end" className="fill-gray-500 text-[10px]">{formatValue(yMin)}</text>
+        <text x={PADDING.left} y={HEIGHT - 6} className="fill-gray-500 text-[10px]">{points[0].date}</text>
+        {points.length > 1 && (
+          <text x={WIDTH - PADDING.right} y={HEIGHT - 6} textAnchor="end" className="fill-gray-500 text-[10px]">
+            {points[points.length - 1].date}
+          </text>
+        )}
+        <polyline points={line} fill="none" className="stroke-blue-600" strokeWidth={2} />
+        {points.map((point, index) => (
+          <circle
+            key={index}
+            cx={x(times[index])}
+            cy={y(point.value)}
+            r={4}
+            strokeWidth={2}
+            className={`${isOutside(point) ? 'stroke-red-600' : 'stroke-blue-600'} ${point.reportId === null ? 'fill-white' : isOutside(point) ? 'fill-red-600' : 'fill-blue-600'}`}
+          >
+            <title>
+              {`${point.date}: ${point.qualifier ?? ''}${formatValue(point.value)} ${trend.unit}${point.reportId === null ? ' (this report)' : ''}`}
+            </title>
+          </circle>
+        ))}
+      </svg>
+      {description && <p className="mt-1 text-xs text-gray-600">{description}</p>}
+    </figure>
+  );
+};
+
+export default TrendChart;
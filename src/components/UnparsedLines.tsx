@@ -0,0 +1,43 @@
+import React from 'react';
+import Section from './ui/Section';
+import { UnparsedLine } from '../utils/labReportParser';
+
+interface UnparsedLinesProps {
+  lines: UnparsedLine[];
+}
+
+const UnparsedLines: React.FC<UnparsedLinesProps> = ({ lines }) => {
+  if (lines.length === 0) {
+    return null;
+  }
+
+  return (
+    <Section title={`Lines Not Parsed (${lines.length})`}>
+      <p className="mb-4 text-sm text-gray-600">
+        These lines were skipped while filling the template. Add them by hand if they contain results.
+      </p>
+      <div className="overflow-x-auto border border-gray-200 rounded-md bg-white">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Line</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Text</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Reason</th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {lines.map(line => (
+              <tr key={line.lineNumber}>
+                <td className="px-6 py-2 text-sm text-gray-500">{line.lineNumber}</td>
+                <td className="px-6 py-2 font-mono text-sm text-gray-700 whitespace-pre">{line.text}</td>
+                <td className="px-6 py-2 text-sm text-yellow-700">{line.reason}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </Section>
+  );
+};
+
+export default UnparsedLines;
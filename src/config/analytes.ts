@@ -0,0 +1,161 @@
+export type AnalyteCategory =
+  | 'haematology'
+  | 'chemistry'
+  | 'kidney'
+  | 'liver'
+  | 'lipids'
+  | 'diabetes'
+  | 'iron'
+  | 'inflammation'
+  | 'hormones'
+  | 'vitamins';
+
+export const ANALYTE_CATEGORIES: { value: AnalyteCategory; label: string }[] = [
+  { value: 'haematology', label: 'Haematology' },
+  { value: 'chemistry', label: 'Chemistry' },
+  { value: 'kidney', label: 'Kidney function' },
+  { value: 'liver', label: 'Liver' },
+  { value: 'lipids', label: 'Lipids' },
+  { value: 'diabetes', label: 'Diabetes' },
+  { value: 'iron', label: 'Iron status' },
+  { value: 'inflammation', label: 'Inflammation' },
+  { value: 'hormones', label: 'Hormones' },
+  { value: 'vitamins', label: 'Vitamins' }
+];
+
+// A unit that relates to the SI unit by a formula rather than a factor: si = slope * value + intercept
+export interface DerivedUnit {
+  unit: string;
+  slope: number;
+  intercept: number;
+}
+
+// One test as the catalogue knows it; units must be listed in UNITS of utils/units
+export interface Analyte {
+  id: string;
+  label: string;
+  loinc: string;
+  category: AnalyteCategory;
+  // Names and abbreviations as printed on Dutch and English reports, lowercase
+  names: string[];
+  // The unit Dutch labs usually report in
+  defaultUnit: string;
+  si: string;
+  conventional: string;
+  // g/mol, needed to convert between mass and substance concentrations
+  molarMass?: number;
+  derivedUnits?: DerivedUnit[];
+  // Values outside these SI limits are not physiological, which points to a wrong unit
+  plausible: [number, number];
+}
+
+const ENZYME: Pick<Analyte, 'category' | 'defaultUnit' | 'si' | 'conventional' | 'plausible'> = {
+  category: 'liver',
+  defaultUnit: 'U/L',
+  si: 'µkat/L',
+  conventional: 'U/L',
+  plausible: [0, 500]
+};
+
+export const ANALYTES: Analyte[] = [
+  // Haematology
+  {
+    id: 'hemoglobin',
+    label: 'Haemoglobin',
+    loinc: '718-7',
+    category: 'haematology',
+    names: ['hemoglobine', 'haemoglobine', 'hemoglobin', 'haemoglobin', 'hb', 'hgb'],
+    // Dutch labs report haemoglobin in mmol/L, counted per haem group
+    defaultUnit: 'mmol/L',
+    si: 'g/L',
+    conventional: 'g/dL',
+    molarMass: 16114.5,
+    plausible: [20, 250]
+  },
+  { id: 'hematocrit', label: 'Haematocrit', loinc: '4544-3', category: 'haematology', names: ['hematocriet', 'hematocrit', 'haematocrit', 'ht', 'hct'], defaultUnit: 'L/L', si: 'L/L', conventional: '%', plausible: [0.05, 0.8] },
+  { id: 'erythrocytes', label: 'Erythrocytes', loinc: '789-8', category: 'haematology', names: ['erytrocyten', 'erythrocyten', 'erythrocytes', 'rbc'], defaultUnit: '10^12/L', si: '10^12/L', conventional: '10^12/L', plausible: [0.5, 10] },
+  { id: 'mcv', label: 'MCV', loinc: '787-2', category: 'haematology', names: ['mcv'], defaultUnit: 'fL', si: 'fL', conventional: 'fL', plausible: [40, 150] },
+  { id: 'mch', label: 'MCH', loinc: '785-6', category: 'haematology', names: ['mch'], defaultUnit: 'fmol', si: 'fmol', conventional: 'pg', molarMass: 16114.5, plausible: [0.5, 3.5] },
+  { id: 'mchc', label: 'MCHC', loinc: '786-4', category: 'haematology', names: ['mchc'], defaultUnit: 'mmol/L', si: 'g/L', conventional: 'g/dL', molarMass: 16114.5, plausible: [200, 450] },
+  { id: 'leukocytes', label: 'Leukocytes', loinc: '6690-2', category: 'haematology', names: ['leukocyten', 'leucocyten', 'leukocytes', 'wbc'], defaultUnit: '10^9/L', si: '10^9/L', conventional: '10^9/L', plausible: [0.05, 500] },
+  { id: 'platelets', label: 'Platelets', loinc: '777-3', category: 'haematology', names: ['trombocyten', 'thrombocyten', 'platelets', 'plt'], defaultUnit: '10^9/L', si: '10^9/L', conventional: '10^9/L', plausible: [1, 3000] },
+  { id: 'esr', label: 'ESR', loinc: '4537-7', category: 'inflammation', names: ['bse', 'esr', 'bezinking'], defaultUnit: 'mm/h', si: 'mm/h', conventional: 'mm/h', plausible: [0, 200] },
+
+  // Chemistry
+  { id: 'sodium', label: 'Sodium', loinc: '2951-2', category: 'chemistry', names: ['natrium', 'sodium'], defaultUnit: 'mmol/L', si: 'mmol/L', conventional: 'mmol/L', plausible: [90, 200] },
+  { id: 'potassium', label: 'Potassium', loinc: '2823-3', category: 'chemistry', names: ['kalium', 'potassium'], defaultUnit: 'mmol/L', si: 'mmol/L', conventional: 'mmol/L', plausible: [1, 10] },
+  { id: 'chloride', label: 'Chloride', loinc: '2075-0', category: 'chemistry', names: ['chloride'], defaultUnit: 'mmol/L', si: 'mmol/L', conventional: 'mmol/L', plausible: [60, 150] },
+  { id: 'calcium', label: 'Calcium', loinc: '17861-6', category: 'chemistry', names: ['calcium'], defaultUnit: 'mmol/L', si: 'mmol/L', conventional: 'mg/dL', molarMass: 40.08, plausible: [0.5, 5] },
+  { id: 'magnesium', label: 'Magnesium', loinc: '19123-9', category: 'chemistry', names: ['magnesium'], defaultUnit: 'mmol/L', si: 'mmol/L', conventional: 'mg/dL', molarMass: 24.31, plausible: [0.1, 5] },
+  // Reported as phosphorus, so the molar mass is that of the atom
+  { id: 'phosphate', label: 'Phosphate', loinc: '2777-1', category: 'chemistry', names: ['fosfaat', 'anorganisch fosfaat', 'phosphate', 'phosphorus'], defaultUnit: 'mmol/L', si: 'mmol/L', conventional: 'mg/dL', molarMass: 30.97, plausible: [0.1, 5] },
+  { id: 'albumin', label: 'Albumin', loinc: '1751-7', category: 'chemistry', names: ['albumine', 'albumin'], defaultUnit: 'g/L', si: 'g/L', conventional: 'g/dL', plausible: [5, 80] },
+  { id: 'total-protein', label: 'Total protein', loinc: '2885-2', category: 'chemistry', names: ['totaal eiwit', 'eiwit totaal', 'total protein'], defaultUnit: 'g/L', si: 'g/L', conventional: 'g/dL', plausible: [20, 150] },
+  { id: 'uric-acid', label: 'Uric acid', loinc: '3084-1', category: 'chemistry', names: ['urinezuur', 'uric acid'], defaultUnit: 'mmol/L', si: 'mmol/L', conventional: 'mg/dL', molarMass: 168.11, plausible: [0.01, 2] },
+
+  // Kidney function
+  { id: 'creatinine', label: 'Creatinine', loinc: '2160-0', category: 'kidney', names: ['creatinine', 'kreatinine'], defaultUnit: 'µmol/L', si: 'µmol/L', conventional: 'mg/dL', molarMass: 113.12, plausible: [5, 3000] },
+  { id: 'urea', label: 'Urea', loinc: '3091-6', category: 'kidney', names: ['ureum', 'urea'], defaultUnit: 'mmol/L', si: 'mmol/L', conventional: 'mg/dL', molarMass: 60.06, plausible: [0.5, 150] },
+  { id: 'egfr', label: 'eGFR', loinc: '62238-1', category: 'kidney', names: ['egfr', 'ckd-epi', 'ckd epi', 'mdrd'], defaultUnit: 'mL/min/1.73m²', si: 'mL/min/1.73m²', conventional: 'mL/min/1.73m²', plausible: [1, 200] },
+
+  // Liver
+  { id: 'bilirubin', label: 'Bilirubin', loinc: '1975-2', category: 'liver', names: ['bilirubine', 'bilirubine totaal', 'totaal bilirubine', 'bilirubin'], defaultUnit: 'µmol/L', si: 'µmol/L', conventional: 'mg/dL', molarMass: 584.66, plausible: [0.5, 1000] },
+  { id: 'alt', label: 'ALT', loinc: '1742-6', names: ['alat', 'alt', 'alanine aminotransferase'], ...ENZYME },
+  { id: 'ast', label: 'AST', loinc: '1920-8', names: ['asat', 'ast', 'aspartaat aminotransferase', 'aspartate aminotransferase'], ...ENZYME },
+  { id: 'alp', label: 'Alkaline phosphatase', loinc: '6768-6', names: ['alkalisch fosfatase', 'alkaline phosphatase', 'alp'], ...ENZYME },
+  { id: 'ggt', label: 'GGT', loinc: '2324-2', names: ['gamma-gt', 'gamma gt', 'ggt', 'gamma glutamyltransferase'], ...ENZYME },
+  { id: 'ld', label: 'LD', loinc: '2532-0', names: ['ld', 'ldh', 'lactaatdehydrogenase', 'lactate dehydrogenase'], ...ENZYME, category: 'chemistry' },
+  { id: 'ck', label: 'CK', loinc: '2157-6', names: ['ck', 'creatine kinase', 'creatinekinase'], ...ENZYME, category: 'chemistry' },
+
+  // Lipids
+  { id: 'cholesterol', label: 'Total cholesterol', loinc: '2093-3', category: 'lipids', names: ['cholesterol', 'totaal cholesterol', 'cholesterol totaal', 'total cholesterol'], defaultUnit: 'mmol/L', si: 'mmol/L', conventional: 'mg/dL', molarMass: 386.65, plausible: [0.5, 50] },
+  { id: 'hdl', label: 'HDL cholesterol', loinc: '2085-9', category: 'lipids', names: ['hdl', 'hdl-cholesterol', 'hdl cholesterol', 'hdl-c'], defaultUnit: 'mmol/L', si: 'mmol/L', conventional: 'mg/dL', molarMass: 386.65, plausible: [0.1, 10] },
+  { id: 'ldl', label: 'LDL cholesterol', loinc: '13457-7', category: 'lipids', names: ['ldl', 'ldl-cholesterol', 'ldl cholesterol', 'ldl-c'], defaultUnit: 'mmol/L', si: 'mmol/L', conventional: 'mg/dL', molarMass: 386.65, plausible: [0.1, 30] },
+  { id: 'non-hdl', label: 'Non-HDL cholesterol', loinc: '43396-1', category: 'lipids', names: ['non-hdl', 'non-hdl-cholesterol', 'non hdl cholesterol'], defaultUnit: 'mmol/L', si: 'mmol/L', conventional: 'mg/dL', molarMass: 386.65, plausible: [0.1, 40] },
+  { id: 'triglycerides', label: 'Triglycerides', loinc: '2571-8', category: 'lipids', names: ['triglyceriden', 'triglycerides', 'tg'], defaultUnit: 'mmol/L', si: 'mmol/L', conventional: 'mg/dL', molarMass: 885.7, plausible: [0.05, 100] },
+
+  // Diabetes
+  { id: 'glucose', label: 'Glucose', loinc: '2345-7', category: 'diabetes', names: ['glucose', 'glucose nuchter', 'nuchter glucose', 'fasting glucose'], defaultUnit: 'mmol/L', si: 'mmol/L', conventional: 'mg/dL', molarMass: 180.16, plausible: [0.5, 100] },
+  {
+    id: 'hba1c',
+    label: 'HbA1c',
+    loinc: '4548-4',
+    category: 'diabetes',
+    names: ['hba1c', 'hb a1c', 'hemoglobine a1c', 'a1c-hemoglobine', 'a1c hemoglobine', 'geglyceerd hemoglobine', 'glycated haemoglobin'],
+    defaultUnit: 'mmol/mol',
+    si: 'mmol/mol',
+    conventional: '%',
+    // IFCC from NGSP percentages
+    derivedUnits: [{ unit: '%', slope: 10.929, intercept: -23.5 }],
+    plausible: [10, 200]
+  },
+
+  // Iron status
+  { id: 'iron', label: 'Iron', loinc: '2498-4', category: 'iron', names: ['ijzer', 'iron'], defaultUnit: 'µmol/L', si: 'µmol/L', conventional: 'µg/dL', molarMass: 55.85, plausible: [0.5, 100] },
+  { id: 'ferritin', label: 'Ferritin', loinc: '2276-4', category: 'iron', names: ['ferritine', 'ferritin'], defaultUnit: 'µg/L', si: 'µg/L', conventional: 'ng/mL', plausible: [0.5, 100000] },
+
+  // Inflammation
+  { id: 'crp', label: 'CRP', loinc: '1988-5', category: 'inflammation', names: ['crp', 'c-reactief proteine', 'c-reactive protein'], defaultUnit: 'mg/L', si: 'mg/L', conventional: 'mg/dL', plausible: [0, 1000] },
+
+  // Hormones
+  { id: 'tsh', label: 'TSH', loinc: '3016-3', category: 'hormones', names: ['tsh'], defaultUnit: 'mU/L', si: 'mU/L', conventional: 'mU/L', plausible: [0.001, 500] },
+  { id: 'free-t4', label: 'Free T4', loinc: '3024-7', category: 'hormones', names: ['vrij t4', 'ft4', 'free t4', 't4 vrij'], defaultUnit: 'pmol/L', si: 'pmol/L', conventional: 'ng/dL', molarMass: 776.87, plausible: [1, 200] },
+  { id: 'cortisol', label: 'Cortisol', loinc: '2143-6', category: 'hormones', names: ['cortisol', 'cortisol ochtend'], defaultUnit: 'nmol/L', si: 'nmol/L', conventional: 'µg/dL', molarMass: 362.46, plausible: [1, 5000] },
+  { id: 'testosterone', label: 'Testosterone', loinc: '2986-8', category: 'hormones', names: ['testosteron', 'testosterone'], defaultUnit: 'nmol/L', si: 'nmol/L', conventional: 'ng/dL', molarMass: 288.42, plausible: [0.01, 100] },
+
+  // Vitamins
+  {
+    id: 'vitamin-d',
+    label: 'Vitamin D (25-OH)',
+    loinc: '62292-8',
+    category: 'vitamins',
+    names: ['vitamine d', 'vitamin d', '25-oh vitamine d', '25-oh vitamin d', 'vitamine d3', '25-hydroxyvitamine d'],
+    defaultUnit: 'nmol/L',
+    si: 'nmol/L',
+    conventional: 'ng/mL',
+    molarMass: 400.64,
+    plausible: [2, 1000]
+  },
+  { id: 'vitamin-b12', label: 'Vitamin B12', loinc: '2132-9', category: 'vitamins', names: ['vitamine b12', 'vitamin b12', 'cobalamine'], defaultUnit: 'pmol/L', si: 'pmol/L', conventional: 'pg/mL', molarMass: 1355.37, plausible: [20, 10000] },
+  { id: 'folate', label: 'Folate', loinc: '2284-8', category: 'vitamins', names: ['foliumzuur', 'folaat', 'folate', 'folic acid'], defaultUnit: 'nmol/L', si: 'nmol/L', conventional: 'ng/mL', molarMass: 441.4, plausible: [1, 200] }
+];
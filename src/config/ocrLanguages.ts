@@ -0,0 +1,37 @@
+export type OcrLanguage = 'nld' | 'eng' | 'fra' | 'deu';
+
+// 'auto' reads the first page with every language and picks the one that fits its text
+export type OcrLanguageChoice = OcrLanguage | 'auto';
+
+// 'preset' limits recognition to the characters a lab report in the language can contain
+export type WhitelistMode = 'preset' | 'none';
+
+// Used when detection finds too few known words; most of our reports are Dutch
+export const FALLBACK_LANGUAGE: OcrLanguage = 'nld';
+
+// Worker, core and traineddata are served from public/ (see scripts/copy-ocr-assets.ts)
+export const TESSERACT_PATHS = {
+  workerPath: '/tesseract/worker.min.js',
+  corePath: '/tesseract',
+  langPath: '/tessdata'
+};
+
+// Letters, digits and the symbols of values, units and ranges, shared by every language
+const BASE_CHARACTERS =
+  '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz .,;:%<>=/-+()*^²³µμ≤≥±×–\'"';
+
+export const OCR_LANGUAGES: { value: OcrLanguage; label: string; accents: string }[] = [
+  { value: 'nld', label: 'Dutch', accents: 'ëïéèöüÉË' },
+  { value: 'eng', label: 'English', accents: '' },
+  { value: 'fra', label: 'French', accents: 'àâæçéèêëîïôœùûüÿÀÂÇÉÈÊËÎÏÔŒÙÛÜ' },
+  { value: 'deu', label: 'German', accents: 'äöüßÄÖÜ' }
+];
+
+/**
+ * The character whitelist for the languages a worker reads, or an empty string (no whitelist) when presets are off
+ */
+export const whitelistFor = (languages: OcrLanguage[], mode: WhitelistMode): string => {
+  if (mode === 'none') return '';
+  const accents = OCR_LANGUAGES.filter(option => languages.includes(option.value)).map(option => option.accents).join('');
+  return BASE_CHARACTERS + Array.from(new Set(accents)).join('');
+};
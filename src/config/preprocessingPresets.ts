@@ -0,0 +1,95 @@
+import { PreprocessingPreset, PreprocessingStage, PreprocessingStageType } from '../types/preprocessing';
+
+const STORAGE_KEY = 'labletter.preprocessingPresets';
+
+export const STAGE_LABELS: Record<PreprocessingStageType, string> = {
+  scale: 'Scale',
+  grayscale: 'Grayscale & contrast',
+  binarize: 'Binarise',
+  denoise: 'Denoise',
+  lines: 'Table lines'
+};
+
+// Close to the processing used before stages were configurable
+export const DEFAULT_PRESET_NAME = 'Standard';
+
+export const BUILT_IN_PRESETS: PreprocessingPreset[] = [
+  {
+    name: DEFAULT_PRESET_NAME,
+    stages: [
+      { type: 'scale', enabled: true, factor: 3 },
+      { type: 'grayscale', enabled: true, contrast: 1.05 },
+      { type: 'binarize', enabled: true, method: 'otsu', windowSize: 31, k: 0.2 },
+      { type: 'denoise', enabled: false, radius: 1 },
+      { type: 'lines', enabled: true, mode: 'enhance', minLength: 0.05 }
+    ]
+  },
+  {
+    // Rendered text is already sharp; upscaling is all Tesseract needs
+    name: 'Clean PDF',
+    stages: [
+      { type: 'scale', enabled: true, factor: 2 },
+      { type: 'grayscale', enabled: true, contrast: 1 },
+      { type: 'binarize', enabled: false, method: 'otsu', windowSize: 31, k: 0.2 },
+      { type: 'denoise', enabled: false, radius: 1 },
+      { type: 'lines', enabled: false, mode: 'remove', minLength: 0.3 }
+    ]
+  },
+  {
+    // Speckled, low resolution, ruled tables that run into the text
+    name: 'Scanned fax',
+    stages: [
+      { type: 'scale', enabled: true, factor: 3 },
+      { type: 'grayscale', enabled: true, contrast: 1.2 },
+      { type: 'binarize', enabled: true, method: 'otsu', windowSize: 31, k: 0.2 },
+      { type: 'denoise', enabled: true, radius: 1 },
+      { type: 'lines', enabled: true, mode: 'remove', minLength: 0.3 }
+    ]
+  },
+  {
+    // Uneven lighting and shadows need a local threshold
+    name: 'Phone photo',
+    stages: [
+      { type: 'scale', enabled: true, factor: 2 },
+      { type: 'grayscale', enabled: true, contrast: 1.1 },
+      { type: 'denoise', enabled: true, radius: 1 },
+      { type: 'binarize', enabled: true, method: 'sauvola', windowSize: 41, k: 0.25 },
+      { type: 'lines', enabled: false, mode: 'remove', minLength: 0.3 }
+    ]
+  }
+];
+
+/**
+ * Presets saved in this browser
+ */
+export const loadCustomPresets = (): PreprocessingPreset[] => {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+  } catch (error) {
+    console.warn('Stored preprocessing presets could not be read', error);
+    return [];
+  }
+};
+
+/**
+ * Saves a preset under its name, replacing one with the same name; built-in names are reserved
+ */
+export const saveCustomPreset = (preset: PreprocessingPreset) => {
+  if (BUILT_IN_PRESETS.some(builtIn => builtIn.name === preset.name)) {
+    throw new Error(`"${preset.name}" is a built-in preset`);
+  }
+  const presets = loadCustomPresets().filter(existing => existing.name !== preset.name);
+  localStorage.setItem(STORAGE_KEY, JSON.stringify([...presets, preset]));
+};
+
+export const deleteCustomPreset = (name: string) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(loadCustomPresets().filter(preset => preset.name !== name)));
+};
+
+/**
+ * Finds a preset by name among built-in and saved ones, falling back to the default
+ */
+export const findPreset = (name: string): PreprocessingPreset =>
+  [...BUILT_IN_PRESETS, ...loadCustomPresets()].find(preset => preset.name === name) ?? BUILT_IN_PRESETS[0];
+
+export const cloneStages = (stages: PreprocessingStage[]): PreprocessingStage[] => stages.map(stage => ({ ...stage }));
@@ -0,0 +1,106 @@
+import { OcrLanguageChoice, WhitelistMode } from './ocrLanguages';
+import { DEFAULT_PRESET_NAME } from './preprocessingPresets';
+
+// Details of the practice that are filled into patient letters
+export interface PracticeSettings {
+  practiceName: string;
+  physicianName: string;
+  signature: string;
+}
+
+export type LlmProviderId = 'openai' | 'openai-compatible' | 'mock';
+
+// Which language model handles structuring, analysis and letters; sent with every API request
+export interface LlmSettings {
+  provider: LlmProviderId;
+  model: string;
+  temperature: number;
+}
+
+export const LLM_PROVIDERS: { value: LlmProviderId; label: string }[] = [
+  { value: 'openai', label: 'OpenAI' },
+  { value: 'openai-compatible', label: 'Local (OpenAI-compatible)' },
+  { value: 'mock', label: 'Mock (fixtures, offline)' }
+];
+
+// What happens when analysis starts while low-confidence values are unconfirmed
+export type LowConfidencePolicy = 'warn' | 'block';
+
+export interface OcrSettings {
+  // Word confidence (0-100) below which a value needs review
+  confidenceThreshold: number;
+  lowConfidencePolicy: LowConfidencePolicy;
+  // Preselected for each new document
+  language: OcrLanguageChoice;
+  whitelist: WhitelistMode;
+  // Name of the image preprocessing preset applied before OCR
+  preprocessingPreset: string;
+}
+
+export interface AppSettings {
+  practice: PracticeSettings;
+  llm: LlmSettings;
+  ocr: OcrSettings;
+}
+
+const STORAGE_KEY = 'labletter.settings';
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  practice: {
+    practiceName: 'Huisartsenpraktijk',
+    physicianName: '',
+    signature: 'Met vriendelijke groeten,'
+  },
+  llm: {
+    provider: 'openai',
+    model: 'gpt-4o',
+    temperature: 0
+  },
+  ocr: {
+    confidenceThreshold: 80,
+    lowConfidencePolicy: 'warn',
+    language: 'auto',
+    whitelist: 'preset',
+    preprocessingPreset: DEFAULT_PRESET_NAME
+  }
+};
+
+/**
+ * Loads the locally stored settings, falling back to the defaults for anything missing
+ */
+export const loadSettings = (): AppSettings => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}') as Partial<AppSettings>;
+    return {
+      ...DEFAULT_SETTINGS,
+      ...stored,
+      practice: { ...DEFAULT_SETTINGS.practice, ...stored.practice },
+      llm: { ...DEFAULT_SETTINGS.llm, ...stored.llm },
+      ocr: { ...DEFAULT_SETTINGS.ocr, ...stored.ocr }
+    };
+  } catch (error) {
+    console.warn('Stored settings could not be read, using defaults', error);
+    return DEFAULT_SETTINGS;
+  }
+};
+
+/**
+ * Switches to a provider the server offers when the chosen one is not enabled there, or is not configured
+ * while another one is, so the first request does not fail (e.g. with `npm run server:mock`)
+ * @param providers The providers listed by the server, see services/labApi
+ * @returns The same settings when the chosen provider can be used
+ */
+export const withAvailableProvider = (
+  settings: AppSettings,
+  providers: { id: LlmProviderId; defaultModel: string; configured: boolean }[]
+): AppSettings => {
+  const current = providers.find(provider => provider.id === settings.llm.provider);
+  if (current?.configured) return settings;
+  const fallback = providers.find(provider => provider.configured) ?? (current ? null : providers[0]);
+  if (!fallback) return settings;
+  return { ...settings, llm: { ...settings.llm, provider: fallback.id, model: fallback.defaultModel } };
+};
+
+export const saveSettings = (settings: AppSettings) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
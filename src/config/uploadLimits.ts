@@ -0,0 +1,5 @@
+// Larger files are mostly high-resolution scans that take minutes to read and fill the memory of the page
+export const MAX_FILE_SIZE_MB = 25;
+
+// Lab reports rarely run past a few pages; longer documents are usually something else
+export const MAX_PAGES = 30;
@@ -0,0 +1,2 @@
+// Pages are corrected and read in parallel by this many workers of each kind; one core is left for the page itself
+export const WORKER_POOL_SIZE = Math.max(1, Math.min(4, (navigator.hardwareConcurrency || 2) - 1));
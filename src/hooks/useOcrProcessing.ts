@@ -1,325 +1,418 @@
 import { useState, useRef } from 'react';
-import { createWorker, PSM } from 'tesseract.js';
 import * as pdfjsLib from 'pdfjs-dist';
-import { analyzeBloodwork, structureTableData } from '../services/openai';
-import { optimizeImageForOCR } from '../utils/imageProcessing.ts';
-
-// Add Tesseract types
-interface TesseractResult {
-  data: {
-    text: string;
-    words?: OcrWord[];
-  };
+import { analyzeBloodwork, structureTableData, generatePatientLetter, InvalidResponseError } from '../services/labApi';
+import { canvasToObjectUrl } from '../utils/imageProcessing.ts';
+import { redactText, restoreRedactions, RedactionResult } from '../utils/redaction';
+import { OcrWord, PageExtractionMethod, PageRender } from '../types/ocr';
+import { extractPdfTextLayer } from '../utils/pdfTextLayer';
+import { reconstructTable } from '../utils/tableReconstruction';
+import { ReconstructedTable } from '../types/table';
+import { mapStructuredRows, mapStructuredText } from '../utils/structuredRows';
+import { LabResultRow } from '../components/LabResultsTemplate';
+import { UnparsedLine } from '../utils/labReportParser';
+import { evaluateRows, formatEvaluationSummary } from '../utils/rangeEvaluation';
+import { formatUnitIssues } from '../utils/units';
+import { newestSampleDate } from '../utils/resultSeries';
+import { groupSections, sectionForTest } from '../utils/sections';
+import { resolveRowAnalytes } from '../utils/analytes';
+import { AnalyteTrend, formatTrendSummary } from '../utils/trends';
+import { CuratedFinding } from '../components/FindingsPanel';
+import { buildTemplateLetter, fillLetterPlaceholders, LetterOptions } from '../utils/letterTemplates';
+import { loadSettings } from '../config/settings';
+import { FALLBACK_LANGUAGE, OCR_LANGUAGES, OcrLanguage, OcrLanguageChoice } from '../config/ocrLanguages';
+import { WORKER_POOL_SIZE } from '../config/workerPool';
+import { detectLanguage } from '../utils/languageDetection';
+import { findPreset } from '../config/preprocessingPresets';
+import { FinishResult, PageCorrection, Quad } from '../types/preprocessing';
+import { OcrPageResult, recognizePage } from '../services/ocrPool';
+import { finishInWorker, straightenInWorker } from '../services/preprocessingPool';
+import { CANCELLED_MESSAGE, mapConcurrent } from '../utils/concurrency';
+import { decodeImagePages, documentKind } from '../utils/documentFiles';
+import { evaluateRules, formatRuleFlags, PatientContext, RulesFile, selectPromptInstructions } from '../utils/rulesEngine';
+
+// A scanned page or photo after correction, preprocessing and OCR
+interface ScannedPage extends FinishResult {
+  result: OcrPageResult;
+  language: OcrLanguage;
 }
 
+// What reading one page produced
+interface PageOutcome {
+  text: string;
+  words: OcrWord[];
+  render: PageRender;
+  method: PageExtractionMethod;
+  correction: PageCorrection | null;
+  // The language the page was read in or found to be in, if any
+  language: OcrLanguage | null;
+}
+
+const scannedPageOutcome = (scanned: ScannedPage, pageNumber: number): PageOutcome => ({
+  text: scanned.result.text,
+  words: scanned.result.words.map(word => ({ ...word, pageNumber })),
+  // OCR words are in the coordinates of the processed image, which is scale times the corrected page
+  render: {
+    pageNumber,
+    url: URL.createObjectURL(scanned.page),
+    width: scanned.width * scanned.scale,
+    height: scanned.height * scanned.scale
+  },
+  method: 'ocr',
+  correction: scanned.correction,
+  language: scanned.language
+});
+
 // Set the worker source path
 pdfjsLib.GlobalWorkerOptions.workerSrc = `${window.location.origin}/pdf.worker.min.mjs`;
 
 export interface OcrState {
   extractedText: string;
   jsonText: string;
-  structuredData: Record<string, any>[];
-  analysisText: string;
+  table: ReconstructedTable | null;
+  ocrWords: OcrWord[];
+  analysisSummary: string;
+  findings: CuratedFinding[];
+  analysisTestNames: string[];
+  analysisInstructions: string[];
+  letterText: string;
+  isLetterProcessing: boolean;
   rawOcrJson: string;
   showRawJson: boolean;
   isOcrProcessing: boolean;
   isAnalysisProcessing: boolean;
+  isStructuringProcessing: boolean;
   error: string | null;
   processingStatus: string;
   progress: number;
   currentPage: number;
   totalPages: number;
+  // Per page, whether its text came from the PDF text layer or from OCR
+  pageMethods: PageExtractionMethod[];
+  // Rendered pages for checking values against the original
+  pageRenders: PageRender[];
+  // The language the document was read in, chosen or detected
+  ocrLanguage: OcrLanguage | null;
+  // Per page, the geometry corrections made before OCR; null for text-layer pages
+  pageCorrections: (PageCorrection | null)[];
+  redactionSource: string;
+  redaction: RedactionResult | null;
+  // Template rows and the lines the parser could not read
+  labResults: LabResultRow[];
+  unparsedLines: UnparsedLine[];
 }
 
-// Add type for OCR word object
-interface OcrWord {
-  text: string;
-  bbox: {
-    x0: number;
-    x1: number;
-    y0: number;
-    y1: number;
-  };
+// Where a document is in the batch: waiting, being read, read and awaiting review, analysed, or failed
+export type DocumentStatus = 'queued' | 'ocr' | 'review' | 'analysed' | 'failed';
+
+export interface QueuedDocument {
+  id: string;
+  name: string;
+  // One PDF or image file, or the photos of a multi-shot camera capture
+  files: File[];
+  status: DocumentStatus;
+  // Why the last read failed
+  error: string | null;
+  // Page corners picked by hand, for photos where the page is not found
+  manualQuad: Quad | null;
+}
+
+// A document as it is added, before it is queued
+export type DocumentInput = Pick<QueuedDocument, 'name' | 'files'>;
+
+// Holds the text typed or pasted while no document is selected
+const NO_DOCUMENT = '';
+
+const INITIAL_STATE: OcrState = {
+  extractedText: '',
+  jsonText: '',
+  table: null,
+  ocrWords: [],
+  analysisSummary: '',
+  findings: [],
+  analysisTestNames: [],
+  analysisInstructions: [],
+  letterText: '',
+  isLetterProcessing: false,
+  rawOcrJson: '',
+  showRawJson: false,
+  isOcrProcessing: false,
+  isAnalysisProcessing: false,
+  isStructuringProcessing: false,
+  error: null,
+  processingStatus: '',
+  progress: 0,
+  currentPage: 0,
+  totalPages: 0,
+  pageMethods: [],
+  pageRenders: [],
+  ocrLanguage: null,
+  pageCorrections: [],
+  redactionSource: '',
+  redaction: null,
+  labResults: [],
+  unparsedLines: []
+};
+
+// Writes to the state of one document
+interface DocumentUpdater {
+  updateState: (updates: Partial<OcrState>) => void;
+  setError: (error: string | null) => void;
+  setProcessingStatus: (status: string, progress?: number) => void;
 }
 
 export const useOcrProcessing = () => {
-  const [state, setState] = useState<OcrState>({
-    extractedText: '',
-    jsonText: '',
-    structuredData: [],
-    analysisText: '',
-    rawOcrJson: '',
-    showRawJson: false,
-    isOcrProcessing: false,
-    isAnalysisProcessing: false,
-    error: null,
-    processingStatus: '',
-    progress: 0,
-    currentPage: 0,
-    totalPages: 0
-  });
+  const [states, setStates] = useState<Record<string, OcrState>>({ [NO_DOCUMENT]: INITIAL_STATE });
+  const [documents, setDocuments] = useState<QueuedDocument[]>([]);
+  const [activeId, setActiveId] = useState<string | null>(null);
 
   const abortControllerRef = useRef<AbortController | null>(null);
-  const workerRef = useRef<Tesseract.Worker | null>(null);
-
-  const updateState = (updates: Partial<OcrState>) => {
-    setState(prev => ({ ...prev, ...updates }));
+  // The queue loop and cancellation outlive a render, so they read the latest documents from refs
+  const documentsRef = useRef<QueuedDocument[]>([]);
+  const statesRef = useRef(states);
+  statesRef.current = states;
+  const queueRunningRef = useRef(false);
+  const queueStoppedRef = useRef(false);
+  const processingIdRef = useRef<string | null>(null);
+  const nextIdRef = useRef(0);
+
+  const activeKey = activeId ?? NO_DOCUMENT;
+  const state = states[activeKey] ?? INITIAL_STATE;
+  const activeDocument = documents.find(document => document.id === activeId) ?? null;
+
+  const changeDocuments = (change: (documents: QueuedDocument[]) => QueuedDocument[]) => {
+    documentsRef.current = change(documentsRef.current);
+    setDocuments(documentsRef.current);
   };
 
-  const setError = (error: string | null) => {
-    updateState({ error });
+  const setDocumentStatus = (id: string, status: DocumentStatus, error: string | null = null) => {
+    changeDocuments(current => current.map(document => (document.id === id ? { ...document, status, error } : document)));
   };
 
-  const setProcessingStatus = (status: string, progress?: number) => {
-    updateState({ 
-      processingStatus: status,
-      ...(progress !== undefined && { progress })
-    });
+  // Work started on a document keeps writing to it after the user switches to another
+  const updaterFor = (key: string): DocumentUpdater => {
+    const updateState = (updates: Partial<OcrState>) => {
+      setStates(prev => ({ ...prev, [key]: { ...(prev[key] ?? INITIAL_STATE), ...updates } }));
+    };
+    return {
+      updateState,
+      setError: (error: string | null) => updateState({ error }),
+      setProcessingStatus: (status: string, progress?: number) => {
+        updateState({ 
+          processingStatus: status,
+          ...(progress !== undefined && { progress })
+        });
+      }
+    };
   };
 
-  const cleanupWorker = async () => {
-    if (workerRef.current) {
-      await workerRef.current.terminate();
-      workerRef.current = null;
+  // Changes made directly by the user go to the document shown
+  const { updateState } = updaterFor(activeKey);
+
+  // Image work runs in the preprocessing workers and recognition in the shared Tesseract pool,
+  // so several pages can be read at once without blocking the UI
+  const readScannedPage = async (
+    image: ImageBitmap,
+    options: { manualQuad: Quad | null; detectPerspective: boolean; language: OcrLanguage | null; knownText: string },
+    signal: AbortSignal
+  ): Promise<ScannedPage> => {
+    const { whitelist, preprocessingPreset } = loadSettings().ocr;
+    // Several languages are combined while the language is still unknown
+    const languages = options.language ? [options.language] : OCR_LANGUAGES.map(option => option.value);
+    const read = (blob: Blob, readWith: OcrLanguage[]) => recognizePage(blob, readWith, whitelist, signal);
+
+    const straight = await straightenInWorker(image, { manualQuad: options.manualQuad, detectPerspective: options.detectPerspective }, signal);
+    // Tesseract reads an upside-down page with much lower confidence, which tells the two apart
+    const [upright, turned] = await Promise.all([
+      read(straight.samples.upright, languages),
+      read(straight.samples.turned, languages)
+    ]);
+    const finished = await finishInWorker(straight.image, {
+      correction: straight.correction,
+      skew: straight.skew,
+      upsideDown: turned.confidence > upright.confidence + 10,
+      stages: findPreset(preprocessingPreset).stages
+    }, signal);
+
+    let result = await read(finished.processed, languages);
+    // With auto-detection the page is read with all languages to find the language,
+    // then read again in that language, since the mixed model reads less accurately
+    let language = options.language;
+    if (!language) {
+      language = detectLanguage(options.knownText + result.text) ?? FALLBACK_LANGUAGE;
+      result = await read(finished.processed, [language]);
     }
+    return { ...finished, result, language };
   };
 
-  // Update the function signature with proper typing
-  const transformOcrWordsToTable_BBox = (words: OcrWord[]): { structuredData: string[][], htmlTable: string } => {
-    const rowTolerance = 10; // pixels tolerance to group words into the same row
-    const rows: { y: number, words: any[] }[] = [];
-    
-    words.forEach(word => {
-      // Compute the vertical center of the word from its bounding box
-      const midY = (word.bbox.y0 + word.bbox.y1) / 2;
-      let foundRow = rows.find(r => Math.abs(r.y - midY) < rowTolerance);
-      if (foundRow) {
-        foundRow.words.push(word);
-        // Update the average row y value
-        foundRow.y = (foundRow.y + midY) / 2;
-      } else {
-        rows.push({ y: midY, words: [word] });
-      }
-    });
-    
-    // Sort rows top-to-bottom
-    rows.sort((a, b) => a.y - b.y);
-
-    // For each row, sort words left-to-right and group into cells by detecting large horizontal gaps
-    const gapThreshold = 20; // if the gap between words exceeds 20 pixels, consider it the start of a new cell
-    const structuredRows = rows.map(row => {
-      // sort the words in this row by their x position
-      row.words.sort((a, b) => a.bbox.x0 - b.bbox.x0);
-      
-      if (row.words.length === 0) return [];
-      
-      const cells: string[] = [];
-      let currentCellText = row.words[0].text;
-      let previousWord = row.words[0];
-      
-      for (let i = 1; i < row.words.length; i++) {
-        const currentWord = row.words[i];
-        // compute gap using previous word's right boundary (x1) and current word's left boundary (x0)
-        const gap = currentWord.bbox.x0 - previousWord.bbox.x1;
-        
-        if (gap > gapThreshold) {
-          // large gap found, store the current cell and start a new one
-          cells.push(currentCellText);
-          currentCellText = currentWord.text;
-        } else {
-          // continue same cell by merging text
-          currentCellText += " " + currentWord.text;
-        }
-        previousWord = currentWord;
+  // Reads the pages of a document in parallel once the language is known; pages finish out of
+  // order, so the outcomes are kept by page index. The first page that fails stops the others,
+  // so they no longer take up the shared pools or update a document that has already failed.
+  const readDocumentPages = async (
+    numPages: number,
+    languageChoice: OcrLanguageChoice,
+    readPage: (pageNumber: number, language: OcrLanguage | null, knownText: string, signal: AbortSignal) => Promise<PageOutcome>,
+    signal: AbortSignal,
+    { updateState, setProcessingStatus }: DocumentUpdater
+  ): Promise<{ text: string, words: OcrWord[], pages: PageRender[] }> => {
+    updateState({ totalPages: numPages });
+    const outcomes: PageOutcome[] = [];
+    let language: OcrLanguage | null = languageChoice === 'auto' ? null : languageChoice;
+    let completed = 0;
+    const pages = new AbortController();
+    const stopPages = () => pages.abort();
+    signal.addEventListener('abort', stopPages, { once: true });
+
+    const read = async (pageNumber: number) => {
+      if (pages.signal.aborted) {
+        throw new Error(CANCELLED_MESSAGE);
       }
-      // push the last cell
-      cells.push(currentCellText);
-      return cells;
-    });
-
-    // Determine how many columns the table should have by picking the maximum cell count
-    const numColumns = Math.max(...structuredRows.map(r => r.length), 1);
-    
-    // Pad rows with missing cells with "—"
-    const paddedRows = structuredRows.map(row => {
-      const newRow = row.slice();
-      while (newRow.length < numColumns) {
-        newRow.push("—");
+      const outcome = await readPage(pageNumber, language, outcomes.map(({ text }) => text).join('\n'), pages.signal);
+      // A page that finishes after another one failed is dropped along with its render
+      if (pages.signal.aborted) {
+        URL.revokeObjectURL(outcome.render.url);
+        throw new Error(CANCELLED_MESSAGE);
       }
-      return newRow;
-    });
+      outcomes[pageNumber - 1] = outcome;
+      language = language ?? outcome.language;
 
-    // Build the HTML table string
-    let html = "<table>";
-    paddedRows.forEach(row => {
-      html += "<tr>";
-      row.forEach(cell => {
-        const content = cell.trim() === "" ? "—" : cell.trim();
-        html += `<td>${content}</td>`;
+      completed++;
+      // map keeps the gaps of pages still being read
+      updateState({
+        currentPage: completed,
+        pageMethods: outcomes.map(({ method }) => method),
+        pageCorrections: outcomes.map(({ correction }) => correction),
+        ocrLanguage: language
       });
-      html += "</tr>";
-    });
-    html += "</table>";
-    
-    return { structuredData: paddedRows, htmlTable: html };
-  };
+      setProcessingStatus(`Completed ${completed} of ${numPages} pages`, (completed / numPages) * 100);
+    };
 
-  /* Update extractTextFromPdf to collect word data with bounding boxes */
-  const extractTextFromPdf = async (pdfFile: File): Promise<{ text: string, table: string, structuredData: string[][] }> => {
     try {
-      setProcessingStatus('Loading PDF document...', 0);
-      const arrayBuffer = await pdfFile.arrayBuffer();
-      const loadingTask = pdfjsLib.getDocument({ data: arrayBuffer });
-
-      abortControllerRef.current = new AbortController();
-      const signal = abortControllerRef.current.signal;
-
-      const pdf = await loadingTask.promise;
-      updateState({ totalPages: pdf.numPages });
-      let fullText = '';
-      const allWords: any[] = [];
-
-      // Create worker
-      workerRef.current = await createWorker();
-      if (workerRef.current) {
-        workerRef.current.setParameters({
-          tessedit_ocr_engine_mode: 1, // Use LSTM only
-          tessedit_char_whitelist: '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz.,%<>/-+()μ:',
-          tessedit_pageseg_mode: PSM.AUTO, // Assume uniform text block
-          preserve_interword_spaces: '1',
-          tessedit_create_txt: '1',
-          tessedit_create_hocr: '1',
-          tessedit_enable_doc_dict: '0', // Disable dictionary to prevent unwanted corrections
-          tessedit_write_images: '1'
-        });
+      setProcessingStatus(numPages === 1 ? 'Reading the page...' : `Reading ${numPages} pages...`, 0);
+      const pageNumbers = Array.from({ length: numPages }, (_, index) => index + 1);
+      // Until the language is known pages are read one at a time, since the first scanned page settles it
+      let next = 0;
+      while (!language && next < numPages) {
+        await read(pageNumbers[next++]);
       }
+      await mapConcurrent(pageNumbers.slice(next), WORKER_POOL_SIZE, read);
 
-      for (let i = 1; i <= pdf.numPages; i++) {
-        if (signal.aborted) {
-          throw new Error('Operation cancelled');
-        }
-
-        updateState({ currentPage: i });
-        setProcessingStatus(`Processing page ${i} of ${pdf.numPages} for OCR...`, ((i - 1) / pdf.numPages) * 100);
+      const fullText = outcomes.map(({ text }) => text + '\n').join('');
+      if (!fullText.trim()) {
+        throw new Error('No text content was found in the document');
+      }
+      updateState({ ocrLanguage: language ?? detectLanguage(fullText) });
 
-        const page = await pdf.getPage(i);
-        const viewport = page.getViewport({ scale: 1.5 });
+      return { text: fullText, words: outcomes.flatMap(({ words }) => words), pages: outcomes.map(({ render }) => render) };
+    } catch (error) {
+      pages.abort();
+      outcomes.forEach(({ render }) => URL.revokeObjectURL(render.url));
+      throw error;
+    } finally {
+      signal.removeEventListener('abort', stopPages);
+    }
+  };
 
-        const canvas = document.createElement('canvas');
-        canvas.width = viewport.width;
-        canvas.height = viewport.height;
-        const context = canvas.getContext('2d');
+  /* Update extractTextFromPdf to collect word data with bounding boxes */
+  const extractTextFromPdf = async (
+    pdfFile: File,
+    languageChoice: OcrLanguageChoice,
+    signal: AbortSignal,
+    updater: DocumentUpdater
+  ): Promise<{ text: string, words: OcrWord[], pages: PageRender[] }> => {
+    updater.setProcessingStatus('Loading PDF document...', 0);
+    const arrayBuffer = await pdfFile.arrayBuffer();
+    const pdf = await pdfjsLib.getDocument({ data: arrayBuffer }).promise;
+
+    const readPage = async (pageNumber: number, language: OcrLanguage | null, knownText: string, pageSignal: AbortSignal): Promise<PageOutcome> => {
+      const page = await pdf.getPage(pageNumber);
+      const viewport = page.getViewport({ scale: 1.5 });
+
+      // Every page is rendered, also text-layer pages, so the source viewer can show it
+      const canvas = document.createElement('canvas');
+      canvas.width = viewport.width;
+      canvas.height = viewport.height;
+      const context = canvas.getContext('2d');
 
-        if (!context) {
-          throw new Error('Failed to get canvas context');
-        }
+      if (!context) {
+        throw new Error('Failed to get canvas context');
+      }
 
-        await page.render({ canvasContext: context, viewport }).promise;
-        const imageData = optimizeImageForOCR(canvas);
-
-        if (workerRef.current) {
-          setProcessingStatus(`OCR Processing page ${i} of ${pdf.numPages}...`, ((i - 1) / pdf.numPages) * 100 + (50 / pdf.numPages));
-          const result = (await workerRef.current.recognize(imageData)) as TesseractResult;
-          fullText += result.data.text + '\n';
-          
-          // Accumulate word data (with bounding box positions)
-          if (result.data.words) {
-            allWords.push(...result.data.words);
-          }
-          
-          // For debugging
-          console.log('Raw OCR text for page', i, ':', result.data.text);
-          console.log('Words with bounding boxes for page', i, ':', result.data.words);
-          
-          setProcessingStatus(`Completed page ${i} of ${pdf.numPages}`, (i / pdf.numPages) * 100);
+      await page.render({ canvasContext: context, viewport }).promise;
+
+      try {
+        // Digitally generated PDFs carry exact text; only scanned pages need OCR
+        const textLayer = await extractPdfTextLayer(page, viewport, pageNumber);
+        if (textLayer) {
+          return {
+            text: textLayer.text,
+            words: textLayer.words,
+            // Text-layer words are in viewport coordinates, the same as the render
+            render: { pageNumber, url: await canvasToObjectUrl(canvas), width: canvas.width, height: canvas.height },
+            method: 'text-layer',
+            correction: null,
+            language: detectLanguage(textLayer.text)
+          };
         }
 
+        // Scans can be turned or tilted; they have no background around the page to flatten
+        const scanned = await readScannedPage(
+          await createImageBitmap(canvas),
+          { manualQuad: null, detectPerspective: false, language, knownText },
+          pageSignal
+        );
+        return scannedPageOutcome(scanned, pageNumber);
+      } finally {
         canvas.remove();
-        await new Promise(resolve => setTimeout(resolve, 100));
-      }
-
-      await cleanupWorker();
-
-      if (!fullText.trim()) {
-        throw new Error('No text content was found in the PDF');
       }
+    };
 
-      // Reconstruct the table using bounding box information
-      const { structuredData, htmlTable } = transformOcrWordsToTable_BBox(allWords);
-      return { text: fullText, table: htmlTable, structuredData };
+    try {
+      return await readDocumentPages(pdf.numPages, languageChoice, readPage, signal, updater);
     } catch (error) {
-      await cleanupWorker();
       throw error instanceof Error ? error : new Error('Failed to extract text from PDF');
+    } finally {
+      await pdf.destroy();
     }
   };
 
-  /* Update extractTextFromImage to collect word data with bounding boxes */
-  const extractTextFromImage = async (imageFile: File): Promise<{ text: string, table: string, structuredData: string[][] }> => {
-    setProcessingStatus('Preparing image for OCR...', 0);
+  /* Update extractTextFromImages to collect word data with bounding boxes */
+  const extractTextFromImages = async (
+    imageFiles: File[],
+    languageChoice: OcrLanguageChoice,
+    manualQuad: Quad | null,
+    signal: AbortSignal,
+    updater: DocumentUpdater
+  ): Promise<{ text: string, words: OcrWord[], pages: PageRender[] }> => {
+    updater.setProcessingStatus('Preparing images for OCR...', 0);
     try {
-      const image = new Image();
-      image.src = URL.createObjectURL(imageFile);
-      await new Promise((resolve) => { image.onload = resolve; });
-
-      const canvas = document.createElement('canvas');
-      canvas.width = image.width;
-      canvas.height = image.height;
-      const ctx = canvas.getContext('2d');
-      if (!ctx) {
-        throw new Error('Failed to get canvas context');
-      }
-      ctx.drawImage(image, 0, 0);
-
-      const optimizedDataUrl = optimizeImageForOCR(canvas);
-
-      setProcessingStatus('Performing OCR on image...', 25);
-      workerRef.current = await createWorker();
-
-      if (workerRef.current) {
-        workerRef.current.setParameters({
-          tessedit_ocr_engine_mode: 2, // Use LSTM only
-          tessedit_char_whitelist: '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz.,%%<>/-+()μ: ',
-          tessedit_pageseg_mode: PSM.AUTO, // Assume uniform text block
-          preserve_interword_spaces: '1',
-          tessedit_create_txt: '1',
-          tessedit_create_hocr: '1',
-          tessedit_enable_doc_dict: '0', // Disable dictionary to prevent unwanted corrections
-          tessedit_write_images: '1'
-        });
-        setProcessingStatus('Starting OCR...', 30);
-        const result = (await workerRef.current.recognize(optimizedDataUrl)) as TesseractResult;
-        setProcessingStatus('OCR completed, processing results...', 90);
-
-        await cleanupWorker();
-        canvas.remove();
-        URL.revokeObjectURL(image.src);
-
-        const fullText = result.data.text;
-        // Accumulate the words from OCR
-        const words = result.data.words || [];
-        
-        // For debugging
-        console.log('Raw OCR text from image:', fullText);
-        console.log('Words with bounding boxes from image:', words);
-        
-        const { structuredData, htmlTable } = transformOcrWordsToTable_BBox(words);
-        return { text: fullText, table: htmlTable, structuredData };
-      }
-
-      await cleanupWorker();
-      throw new Error('Failed to create worker');
+      // Every page of a TIFF and every photo of a multi-shot capture becomes a page
+      const images = (await Promise.all(imageFiles.map(file => decodeImagePages(file)))).flat();
+
+      // Phone photos are often turned, tilted or keystoned; hand-picked corners belong to a single photo
+      const readPage = async (pageNumber: number, language: OcrLanguage | null, knownText: string, pageSignal: AbortSignal): Promise<PageOutcome> => {
+        const scanned = await readScannedPage(
+          images[pageNumber - 1],
+          { manualQuad: images.length === 1 ? manualQuad : null, detectPerspective: true, language, knownText },
+          pageSignal
+        );
+        return scannedPageOutcome(scanned, pageNumber);
+      };
+
+      // The viewer shows the corrected pages, since the word boxes belong to them
+      return await readDocumentPages(images.length, languageChoice, readPage, signal, updater);
     } catch (error) {
-      await cleanupWorker();
       throw error instanceof Error ? error : new Error('Failed to extract text from image');
     }
   };
 
-  const cancelProcessing = async () => {
+  // Aborting rejects every page in flight and stops the workers reading them; the rest of the queue waits
+  const cancelProcessing = () => {
+    queueStoppedRef.current = true;
     if (abortControllerRef.current) {
       abortControllerRef.current.abort();
     }
-    await cleanupWorker();
-    updateState({
+    if (processingIdRef.current === null) return;
+    updaterFor(processingIdRef.current).updateState({
       isOcrProcessing: false,
       processingStatus: '',
       progress: 0,
@@ -330,63 +423,208 @@ export const useOcrProcessing = () => {
   };
 
   /* Update handleOcr to use the new extraction results */
-  const handleOcr = async (file: File) => {
-    updateState({
-      extractedText: '',
-      jsonText: '',
-      structuredData: [],
-      analysisText: '',
-      rawOcrJson: '',
-      showRawJson: false,
-      isOcrProcessing: true,
-      isAnalysisProcessing: false,
-      error: null,
-      processingStatus: '',
-      progress: 0,
-      currentPage: 0,
-      totalPages: 0
-    });
+  const handleOcr = async (document: QueuedDocument, language: OcrLanguageChoice) => {
+    const { files, manualQuad } = document;
+    const documentUpdater = updaterFor(document.id);
+    const { updateState, setError, setProcessingStatus } = documentUpdater;
+    // Reading again starts the document over, since template cells point at the old word boxes
+    statesRef.current[document.id]?.pageRenders.forEach(page => URL.revokeObjectURL(page.url));
+    updateState({ ...INITIAL_STATE, isOcrProcessing: true });
+    setDocumentStatus(document.id, 'ocr');
+    processingIdRef.current = document.id;
+
+    abortControllerRef.current = new AbortController();
+    const { signal } = abortControllerRef.current;
 
     try {
-      const result = file.type === 'application/pdf'
-        ? await extractTextFromPdf(file)
-        : await extractTextFromImage(file);
+      // A PDF comes alone; image documents can hold several photos
+      const result = documentKind(files[0]) === 'pdf'
+        ? await extractTextFromPdf(files[0], language, signal, documentUpdater)
+        : await extractTextFromImages(files, language, manualQuad, signal, documentUpdater);
 
-      // Update state with the raw text, generated HTML table, and structured data array
+      // Rebuild the table page by page from the word positions
       setProcessingStatus('Structuring data...', 90);
+      const table = reconstructTable(result.words);
       updateState({
         extractedText: result.text,
-        jsonText: result.table,
-        structuredData: result.structuredData,
-        rawOcrJson: JSON.stringify(result, null, 2),
+        table,
+        ocrWords: result.words,
+        pageRenders: result.pages,
+        rawOcrJson: JSON.stringify({ text: result.text, words: result.words }, null, 2),
         progress: 100
       });
+      setDocumentStatus(document.id, 'review');
     } catch (error) {
-      if (error instanceof Error && error.message === 'Operation cancelled') {
-        setError('Operation cancelled by user');
+      const message = error instanceof Error && error.message === CANCELLED_MESSAGE
+        ? 'Operation cancelled by user'
+        : error instanceof Error ? error.message : 'OCR process failed';
+      setError(message);
+      setDocumentStatus(document.id, 'failed', message);
+    } finally {
+      processingIdRef.current = null;
+      updateState({
+        isOcrProcessing: false,
+        processingStatus: ''
+      });
+    }
+  };
+
+  // Documents are read one after another, each with its pages in parallel
+  const processQueue = async (language: OcrLanguageChoice) => {
+    if (queueRunningRef.current) return;
+    queueRunningRef.current = true;
+    queueStoppedRef.current = false;
+    try {
+      let next = documentsRef.current.find(document => document.status === 'queued');
+      while (next && !queueStoppedRef.current) {
+        await handleOcr(next, language);
+        next = documentsRef.current.find(document => document.status === 'queued');
+      }
+    } finally {
+      queueRunningRef.current = false;
+    }
+  };
+
+  const addDocuments = (inputs: DocumentInput[]) => {
+    if (inputs.length === 0) return;
+    const added: QueuedDocument[] = inputs.map(({ name, files }) => ({
+      id: `document-${++nextIdRef.current}`,
+      name,
+      files,
+      status: 'queued',
+      error: null,
+      manualQuad: null
+    }));
+    changeDocuments(current => [...current, ...added]);
+    setStates(prev => ({ ...prev, ...Object.fromEntries(added.map(document => [document.id, INITIAL_STATE])) }));
+    setActiveId(added[0].id);
+  };
+
+  // Puts a failed or finished document back in the queue and reads it when the queue is idle
+  const retryDocument = (id: string, language: OcrLanguageChoice) => {
+    setDocumentStatus(id, 'queued');
+    processQueue(language);
+  };
+
+  const removeDocument = (id: string) => {
+    statesRef.current[id]?.pageRenders.forEach(page => URL.revokeObjectURL(page.url));
+    changeDocuments(current => current.filter(document => document.id !== id));
+    setStates(prev => {
+      const next = { ...prev };
+      delete next[id];
+      return next;
+    });
+    if (activeId === id) {
+      setActiveId(documentsRef.current[0]?.id ?? null);
+    }
+  };
+
+  const setDocumentQuad = (id: string, manualQuad: Quad | null) => {
+    changeDocuments(current => current.map(document => (document.id === id ? { ...document, manualQuad } : document)));
+  };
+
+  // Structure the OCR text with the model; detected personal information never leaves the browser
+  const handleStructuring = async () => {
+    const { updateState, setError, setProcessingStatus } = updaterFor(activeKey);
+    updateState({ isStructuringProcessing: true, error: null });
+    setProcessingStatus('Structuring table with AI...', 0);
+
+    try {
+      const { redactedText, entities } = redactText(state.extractedText);
+      const structured = await structureTableData(redactedText, loadSettings().llm);
+      // Sample dates are redacted too, so they are restored before they are read
+      const rows = mapStructuredRows(mapStructuredText(structured, text => restoreRedactions(text, entities)));
+      updateState({
+        labResults: resolveRowAnalytes(rows),
+        unparsedLines: [],
+        progress: 100
+      });
+    } catch (error) {
+      if (error instanceof InvalidResponseError) {
+        setError(`${error.message}: ${error.errors.slice(0, 3).join('; ')}`);
       } else {
-        setError(error instanceof Error ? error.message : 'OCR process failed');
+        setError(error instanceof Error ? error.message : 'Structuring failed');
       }
     } finally {
       updateState({
-        isOcrProcessing: false,
+        isStructuringProcessing: false,
         processingStatus: ''
       });
     }
   };
 
+  // Detect personal information locally and show the preview; nothing is sent yet.
+  // The local range evaluation (grouped per report section), unit warnings, trends over saved reports and rule flags travel with the text so flagging does not depend on the model.
+  const prepareAnalysis = (rows: LabResultRow[], rulesFile: RulesFile, patientContext: PatientContext, trends: AnalyteTrend[]) => {
+    const source = [
+      state.extractedText,
+      formatEvaluationSummary(rows, evaluateRows(rows), groupSections(rows)),
+      formatUnitIssues(rows),
+      formatTrendSummary(trends),
+      formatRuleFlags(evaluateRules(rulesFile, rows, patientContext))
+    ].filter(Boolean).join('\n\n');
+    updateState({
+      redactionSource: source,
+      redaction: redactText(source),
+      analysisTestNames: rows.map(row => row.testName.trim()).filter(Boolean),
+      analysisInstructions: selectPromptInstructions(rulesFile, rows, patientContext),
+      error: null
+    });
+  };
+
+  const toggleRedactionEntity = (placeholder: string) => {
+    if (!state.redaction) return;
+    const excluded = new Set(
+      state.redaction.entities.filter(entity => !entity.enabled).map(entity => entity.placeholder)
+    );
+    if (excluded.has(placeholder)) {
+      excluded.delete(placeholder);
+    } else {
+      excluded.add(placeholder);
+    }
+    updateState({ redaction: redactText(state.redactionSource, excluded) });
+  };
+
+  const cancelAnalysis = () => {
+    updateState({ redactionSource: '', redaction: null });
+  };
+
+  // Send the confirmed, redacted text and put the real values back into the response
   const handleAnalysis = async () => {
+    const { redaction } = state;
+    if (!redaction) return;
+
+    const key = activeKey;
+    const { updateState, setError, setProcessingStatus } = updaterFor(key);
     updateState({ isAnalysisProcessing: true });
     setProcessingStatus('Analyzing data...', 0);
     
     try {
-      const analysisResult = await analyzeBloodwork(state.extractedText);
+      const analysis = await analyzeBloodwork(
+        redaction.redactedText,
+        state.analysisTestNames,
+        state.analysisInstructions,
+        loadSettings().llm
+      );
       updateState({ 
-        analysisText: analysisResult,
+        analysisSummary: restoreRedactions(analysis.summary, redaction.entities),
+        findings: analysis.findings.map((finding, index) => ({
+          ...finding,
+          interpretation: restoreRedactions(finding.interpretation, redaction.entities),
+          id: `${index}-${finding.testName}`,
+          status: 'pending'
+        })),
+        redactionSource: '',
+        redaction: null,
         progress: 100
       });
+      if (key !== NO_DOCUMENT) setDocumentStatus(key, 'analysed');
     } catch (error) {
-      setError(error instanceof Error ? error.message : 'Analysis failed');
+      if (error instanceof InvalidResponseError) {
+        setError(`${error.message}: ${error.errors.slice(0, 3).join('; ')}`);
+      } else {
+        setError(error instanceof Error ? error.message : 'Analysis failed');
+      }
     } finally {
       updateState({
         isAnalysisProcessing: false,
@@ -395,10 +633,72 @@ export const useOcrProcessing = () => {
     }
   };
 
+  // Letters use the findings the clinician accepted, or every finding not dismissed if none were accepted
+  const getLetterFindings = (): CuratedFinding[] => {
+    const accepted = state.findings.filter(finding => finding.status === 'accepted');
+    return accepted.length > 0 ? accepted : state.findings.filter(finding => finding.status !== 'dismissed');
+  };
+
+  const handleLetter = async (rows: LabResultRow[], options: LetterOptions, offline: boolean) => {
+    const { practice, llm } = loadSettings();
+    const { updateState, setError, setProcessingStatus } = updaterFor(activeKey);
+    const sampleDate = newestSampleDate(rows);
+
+    if (offline) {
+      updateState({ letterText: fillLetterPlaceholders(buildTemplateLetter(rows, options), practice, sampleDate), error: null });
+      return;
+    }
+
+    updateState({ isLetterProcessing: true, error: null });
+    setProcessingStatus('Writing patient letter...', 0);
+
+    try {
+      // Interpretations are single lines, so they can be redacted together and split again
+      const findings = getLetterFindings();
+      const { redactedText, entities } = redactText(findings.map(finding => finding.interpretation).join('\n'));
+      const redactedLines = redactedText.split('\n');
+      const letter = await generatePatientLetter(
+        findings.map((finding, index) => ({
+          ...finding,
+          interpretation: redactedLines[index] ?? '',
+          // The letter discusses the findings per report section
+          section: sectionForTest(rows, finding.testName) ?? undefined
+        })),
+        { ...options, mentionSampleDate: sampleDate !== '' },
+        llm
+      );
+      updateState({
+        letterText: fillLetterPlaceholders(restoreRedactions(letter, entities), practice, sampleDate),
+        progress: 100
+      });
+    } catch (error) {
+      // Fall back to the offline template so a letter can always be produced
+      updateState({ letterText: fillLetterPlaceholders(buildTemplateLetter(rows, options), practice, sampleDate) });
+      setError(`AI letter generation failed, the offline template was used instead: ${error instanceof Error ? error.message : 'unknown error'}`);
+    } finally {
+      updateState({
+        isLetterProcessing: false,
+        processingStatus: ''
+      });
+    }
+  };
+
   return {
     state,
-    handleOcr,
+    documents,
+    activeDocument,
+    selectDocument: setActiveId,
+    addDocuments,
+    removeDocument,
+    retryDocument,
+    setDocumentQuad,
+    processQueue,
+    handleStructuring,
+    prepareAnalysis,
+    toggleRedactionEntity,
+    cancelAnalysis,
     handleAnalysis,
+    handleLetter,
     updateState,
     cancelProcessing
   };
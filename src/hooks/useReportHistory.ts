@@ -0,0 +1,49 @@
+import { useEffect, useState } from 'react';
+import { deleteReport, listReports, saveReport } from '../services/historyStore';
+import { SavedReport } from '../types/history';
+
+// The saved reports of one patient, reloaded when the patient ID changes
+export const useReportHistory = (patientId: string) => {
+  const [reports, setReports] = useState<SavedReport[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const id = patientId.trim();
+
+  useEffect(() => {
+    if (!id) {
+      setReports([]);
+      return;
+    }
+    let cancelled = false;
+    listReports(id)
+      .then(loaded => {
+        if (cancelled) return;
+        setReports(loaded);
+        setError(null);
+      })
+      .catch(err => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'The report history could not be loaded');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [id]);
+
+  const update = async (change: () => Promise<void>) => {
+    try {
+      await change();
+      setReports(await listReports(id));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'The report history could not be updated');
+    }
+  };
+
+  return {
+    reports,
+    error,
+    save: (report: SavedReport) => update(() => saveReport(report)),
+    remove: (reportId: string) => update(() => deleteReport(reportId))
+  };
+};
+
+export default useReportHistory;
@@ -0,0 +1,59 @@
+import { SavedReport } from '../types/history';
+
+// Reports stay in the browser's IndexedDB; they are never sent to the server
+const DB_NAME = 'labletter';
+const DB_VERSION = 1;
+const STORE = 'reports';
+
+let opening: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!opening) {
+    opening = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('This browser cannot store a report history'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE, { keyPath: 'id' });
+        store.createIndex('patientId', 'patientId');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error ?? new Error('The report history could not be opened'));
+    });
+    // A failed open is tried again on the next call, e.g. after the user allowed storage
+    opening.catch(() => {
+      opening = null;
+    });
+  }
+  return opening;
+};
+
+const run = async <T>(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const request = operation(db.transaction(STORE, mode).objectStore(STORE));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error ?? new Error('The report history could not be read'));
+  });
+};
+
+/**
+ * Adds a report to the history, or replaces the report with the same id
+ */
+export const saveReport = async (report: SavedReport): Promise<void> => {
+  await run('readwrite', store => store.put(report));
+};
+
+/**
+ * Lists the saved reports of a patient, oldest sample first
+ */
+export const listReports = async (patientId: string): Promise<SavedReport[]> => {
+  const reports = await run<SavedReport[]>('readonly', store => store.index('patientId').getAll(patientId));
+  return reports.sort((a, b) => a.collectedAt.localeCompare(b.collectedAt) || a.savedAt.localeCompare(b.savedAt));
+};
+
+export const deleteReport = async (id: string): Promise<void> => {
+  await run('readwrite', store => store.delete(id));
+};
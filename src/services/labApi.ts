@@ -0,0 +1,98 @@
+import { StructuredLabRow } from '../utils/structuredRows';
+import { AnalysisFinding, BloodworkAnalysis } from '../utils/analysisFindings';
+import { LetterOptions } from '../utils/letterTemplates';
+import { LlmProviderId, LlmSettings } from '../config/settings';
+
+// The local backend holds the OpenAI key; in development Vite proxies /api to it
+const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || '/api';
+
+// Raised when the model keeps returning JSON that does not match the expected schema
+export class InvalidResponseError extends Error {
+  constructor(message: string, public readonly errors: string[]) {
+    super(message);
+    this.name = 'InvalidResponseError';
+  }
+}
+
+// A provider as reported by the server; keys and endpoints stay server-side
+export interface ProviderInfo {
+  id: LlmProviderId;
+  label: string;
+  defaultModel: string;
+  configured: boolean;
+}
+
+const request = async <T>(path: string, body?: unknown): Promise<T> => {
+  let response: Response;
+  try {
+    response = await fetch(`${API_BASE_URL}${path}`, body === undefined ? undefined : {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body)
+    });
+  } catch {
+    throw new Error('Could not reach the local API server. Start it with "npm run server" (or "npm run server:mock").');
+  }
+
+  const json = await response.json().catch(() => null);
+  if (!response.ok) {
+    const message = json?.error || `The API server responded with ${response.status}`;
+    if (response.status === 422) {
+      throw new InvalidResponseError(message, Array.isArray(json?.details) ? json.details : []);
+    }
+    throw new Error(message);
+  }
+  return json as T;
+};
+
+/**
+ * Analyzes blood work and returns one finding per out-of-range test
+ * @param text The (redacted) report text, including the local evaluation
+ * @param testNames Template test names the findings must be keyed to
+ * @param instructions Practice rules that apply to these results
+ * @param llm Provider, model and temperature from the settings
+ * @returns A summary and the findings
+ * @throws InvalidResponseError when no valid response is produced within the retry budget
+ */
+export const analyzeBloodwork = (
+  text: string,
+  testNames: string[],
+  instructions: string[],
+  llm: LlmSettings
+): Promise<BloodworkAnalysis> => request('/analyze', { text, testNames, instructions, llm });
+
+/**
+ * Converts OCR'd text from tables to structured rows
+ * @param ocrText The unstructured OCR'd text from a table
+ * @param llm Provider, model and temperature from the settings
+ * @returns Rows that match the structuring schema
+ * @throws InvalidResponseError when no valid response is produced within the retry budget
+ */
+export const structureTableData = async (ocrText: string, llm: LlmSettings): Promise<StructuredLabRow[]> => {
+  const { rows } = await request<{ rows: StructuredLabRow[] }>('/structure', { text: ocrText, llm });
+  return rows;
+};
+
+/**
+ * Turns curated findings into a letter for the patient
+ * @param findings The findings the clinician kept
+ * @param options Template, language and reading level
+ * @param llm Provider, model and temperature from the settings
+ * @returns The letter, still containing the practice placeholders
+ */
+export const generatePatientLetter = async (
+  findings: AnalysisFinding[],
+  options: LetterOptions,
+  llm: LlmSettings
+): Promise<string> => {
+  const { letter } = await request<{ letter: string }>('/letter', { findings, options, llm });
+  return letter;
+};
+
+/**
+ * Lists the providers the server has enabled, for the settings panel
+ */
+export const fetchProviders = async (): Promise<ProviderInfo[]> => {
+  const { providers } = await request<{ providers: ProviderInfo[] }>('/providers');
+  return providers;
+};
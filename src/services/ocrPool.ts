@@ -0,0 +1,123 @@
+import { createScheduler, createWorker, OEM, PSM } from 'tesseract.js';
+import { OcrLanguage, TESSERACT_PATHS, WhitelistMode, whitelistFor } from '../config/ocrLanguages';
+import { WORKER_POOL_SIZE } from '../config/workerPool';
+import { OcrWord } from '../types/ocr';
+import { abortable } from '../utils/concurrency';
+
+export interface OcrPageResult {
+  text: string;
+  // Mean word confidence of the page
+  confidence: number;
+  // Without page numbers, which the caller adds
+  words: OcrWord[];
+}
+
+// Workers that read the same languages with the same whitelist, sharing one job queue
+interface Pool {
+  key: string;
+  scheduler: Tesseract.Scheduler;
+  // Resolves as soon as one worker can take jobs; the others join as they finish loading
+  ready: Promise<void>;
+  // Jobs waiting or running, so a replaced pool is only closed once they are done
+  active: number;
+  replaced: boolean;
+  closed: boolean;
+}
+
+// The pool stays alive between documents, so only the first document waits for the models to load
+let current: Pool | null = null;
+
+const startWorker = async (languages: OcrLanguage[], whitelist: WhitelistMode) => {
+  const worker = await createWorker(languages, OEM.LSTM_ONLY, TESSERACT_PATHS);
+  await worker.setParameters({
+    tessedit_char_whitelist: whitelistFor(languages, whitelist),
+    tessedit_pageseg_mode: PSM.AUTO, // Assume uniform text block
+    preserve_interword_spaces: '1',
+    tessedit_create_txt: '1',
+    tessedit_create_hocr: '1',
+    tessedit_enable_doc_dict: '0', // Disable dictionary to prevent unwanted corrections
+    tessedit_write_images: '1'
+  });
+  return worker;
+};
+
+const closePool = (pool: Pool) => {
+  pool.closed = true;
+  if (current === pool) current = null;
+  pool.scheduler.terminate();
+};
+
+const openPool = (languages: OcrLanguage[], whitelist: WhitelistMode, key: string): Pool => {
+  const scheduler = createScheduler();
+  const pool: Pool = { key, scheduler, ready: Promise.resolve(), active: 0, replaced: false, closed: false };
+  const starts = Array.from({ length: WORKER_POOL_SIZE }, () =>
+    startWorker(languages, whitelist).then(worker => {
+      // Workers still loading when the pool was closed are not picked up by scheduler.terminate
+      if (pool.closed) {
+        worker.terminate();
+      } else {
+        scheduler.addWorker(worker);
+      }
+    })
+  );
+  pool.ready = new Promise((resolve, reject) => {
+    let failures = 0;
+    starts.forEach(start => start.then(resolve, error => {
+      failures++;
+      if (failures === starts.length) reject(error);
+    }));
+  });
+  // A pool whose workers all failed to start is dropped, so the next page tries again
+  pool.ready.catch(() => {
+    if (!pool.closed) closePool(pool);
+  });
+  return pool;
+};
+
+// Switching languages replaces the pool; the old one finishes its jobs first
+const poolFor = (languages: OcrLanguage[], whitelist: WhitelistMode): Pool => {
+  const key = `${languages.join('+')}:${whitelist}`;
+  if (current?.key === key) return current;
+  if (current) {
+    current.replaced = true;
+    if (current.active === 0) closePool(current);
+  }
+  current = openPool(languages, whitelist, key);
+  return current;
+};
+
+/**
+ * Reads a page with the shared Tesseract pool, which runs up to WORKER_POOL_SIZE pages at once
+ * @param image The preprocessed page
+ * @param languages Languages to read with; several are combined while the language is still unknown
+ * @param whitelist Whether to limit recognition to the characters of the languages
+ * @param signal Aborting closes the pool, which stops every page in flight at once
+ * @throws Error with CANCELLED_MESSAGE when aborted
+ */
+export const recognizePage = async (
+  image: Blob,
+  languages: OcrLanguage[],
+  whitelist: WhitelistMode,
+  signal?: AbortSignal
+): Promise<OcrPageResult> => {
+  const pool = poolFor(languages, whitelist);
+  const stop = () => {
+    if (!pool.closed) closePool(pool);
+  };
+  signal?.addEventListener('abort', stop, { once: true });
+  pool.active++;
+  try {
+    await abortable(pool.ready, signal);
+    const { data } = await abortable(pool.scheduler.addJob('recognize', image), signal);
+    return {
+      text: data.text,
+      confidence: data.confidence,
+      words: (data.words || []).map(word => ({ text: word.text, bbox: word.bbox, confidence: word.confidence }))
+    };
+  } finally {
+    signal?.removeEventListener('abort', stop);
+    pool.active--;
+    if (pool.replaced && pool.active === 0 && !pool.closed) closePool(pool);
+  }
+};
+
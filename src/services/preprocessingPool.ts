@@ -0,0 +1,127 @@
+import { WORKER_POOL_SIZE } from '../config/workerPool';
+import {
+  FinishResult,
+  GrayImage,
+  PageCorrection,
+  PreprocessingRequest,
+  PreprocessingResponse,
+  PreprocessingStage,
+  PreviewResult,
+  Quad,
+  StraightenResult
+} from '../types/preprocessing';
+import { CANCELLED_MESSAGE } from '../utils/concurrency';
+
+interface Job {
+  request: PreprocessingRequest;
+  transfer: Transferable[];
+  resolve: (result: unknown) => void;
+  reject: (error: Error) => void;
+}
+
+// Workers stay alive between documents; a cancelled job takes its worker down with it
+const idle: Worker[] = [];
+const running = new Map<Worker, Job>();
+const queue: Job[] = [];
+
+const spawn = () => new Worker(new URL('../workers/preprocessing.worker.ts', import.meta.url), { type: 'module' });
+
+const settle = (worker: Worker, job: Job, response: PreprocessingResponse) => {
+  running.delete(worker);
+  idle.push(worker);
+  if (response.ok) {
+    job.resolve(response.result);
+  } else {
+    job.reject(new Error(response.error));
+  }
+  dispatch();
+};
+
+const discard = (worker: Worker) => {
+  worker.terminate();
+  running.delete(worker);
+  dispatch();
+};
+
+const dispatch = () => {
+  while (queue.length > 0 && (idle.length > 0 || running.size < WORKER_POOL_SIZE)) {
+    const job = queue.shift()!;
+    const worker = idle.pop() ?? spawn();
+    running.set(worker, job);
+    worker.onmessage = (event: MessageEvent<PreprocessingResponse>) => settle(worker, job, event.data);
+    worker.onerror = (event) => {
+      event.preventDefault();
+      job.reject(new Error(event.message || 'Image preprocessing failed'));
+      discard(worker);
+    };
+    worker.postMessage(job.request, job.transfer);
+  }
+};
+
+const cancel = (job: Job) => {
+  const queued = queue.indexOf(job);
+  if (queued !== -1) {
+    queue.splice(queued, 1);
+  } else {
+    const worker = Array.from(running).find(([, active]) => active === job)?.[0];
+    // Terminating is the only way to stop a worker in the middle of a page
+    if (worker) discard(worker);
+  }
+  job.reject(new Error(CANCELLED_MESSAGE));
+};
+
+const runJob = <T>(request: PreprocessingRequest, transfer: Transferable[], signal?: AbortSignal): Promise<T> =>
+  new Promise<T>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new Error(CANCELLED_MESSAGE));
+      return;
+    }
+    const onAbort = () => cancel(job);
+    // A settled job no longer listens, so a long-lived document signal does not collect one listener per job
+    const job: Job = {
+      request,
+      transfer,
+      resolve: result => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve(result as T);
+      },
+      reject: error => {
+        signal?.removeEventListener('abort', onAbort);
+        reject(error);
+      }
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+    queue.push(job);
+    dispatch();
+  });
+
+/**
+ * Flattens a page and turns sideways text across in a worker
+ * @param image The page; it is transferred and can no longer be used by the caller
+ * @returns The straightened page, the measured skew and samples for the upside-down check
+ */
+export const straightenInWorker = (
+  image: ImageBitmap,
+  options: { manualQuad: Quad | null; detectPerspective: boolean },
+  signal?: AbortSignal
+): Promise<StraightenResult> => runJob({ type: 'straighten', image, ...options }, [image], signal);
+
+/**
+ * Turns a straightened page upright, levels it and preprocesses it for Tesseract in a worker
+ * @param image The straightened page; it is transferred
+ */
+export const finishInWorker = (
+  image: ImageBitmap,
+  options: { correction: PageCorrection; skew: number; upsideDown: boolean; stages: PreprocessingStage[] },
+  signal?: AbortSignal
+): Promise<FinishResult> => runJob({ type: 'finish', image, ...options }, [image], signal);
+
+/**
+ * Runs the stages on a preview in a worker
+ * @returns PNG images of the source and of the result of each stage
+ */
+export const previewInWorker = (image: GrayImage, stages: PreprocessingStage[], signal?: AbortSignal): Promise<PreviewResult> => {
+  // The preview source is reused for every change, so the worker gets a copy
+  const copy = { ...image, data: new Uint8ClampedArray(image.data) };
+  return runJob({ type: 'preview', image: copy, stages }, [copy.data.buffer], signal);
+};
@@ -0,0 +1,13 @@
+import { LabResultRow } from '../components/LabResultsTemplate';
+
+// A report kept in the local history; nothing identifies the patient beyond the ID the user chose
+export interface SavedReport {
+  id: string;
+  // Pseudonymous, e.g. "P-0042"; never a name or date of birth
+  patientId: string;
+  // Date the samples were taken, as YYYY-MM-DD
+  collectedAt: string;
+  savedAt: string;
+  documentName: string;
+  rows: LabResultRow[];
+}
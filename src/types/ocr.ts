@@ -0,0 +1,26 @@
+// A recognised word with its bounding box in page image coordinates
+export interface OcrWord {
+  text: string;
+  bbox: {
+    x0: number;
+    x1: number;
+    y0: number;
+    y1: number;
+  };
+  // 1-based page number, set when words from several pages are combined
+  pageNumber?: number;
+  // Recognition confidence from 0 to 100; text read from a PDF text layer is exact
+  confidence?: number;
+}
+
+// How the text of a page was obtained: the PDF's embedded text or Tesseract
+export type PageExtractionMethod = 'text-layer' | 'ocr';
+
+// A rendered page kept for the source viewer; width and height are in word box coordinates
+export interface PageRender {
+  pageNumber: number;
+  // Object URL of the rendered image, revoked when a new document is read
+  url: string;
+  width: number;
+  height: number;
+}
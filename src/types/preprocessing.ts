@@ -0,0 +1,90 @@
+// One channel, one byte per pixel; stages work on this so they can run without a DOM
+export interface GrayImage {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray;
+}
+
+export type BinarizeMethod = 'otsu' | 'sauvola';
+
+export type LineMode = 'remove' | 'enhance';
+
+// A pipeline stage with its parameters; stages run in array order and can be switched off
+export type PreprocessingStage =
+  | { type: 'scale'; enabled: boolean; factor: number }
+  // Luminance conversion always happens; this stage stretches the range and adds contrast
+  | { type: 'grayscale'; enabled: boolean; contrast: number }
+  // windowSize and k are used by Sauvola only
+  | { type: 'binarize'; enabled: boolean; method: BinarizeMethod; windowSize: number; k: number }
+  // Median filter; radius 1 is 3x3
+  | { type: 'denoise'; enabled: boolean; radius: number }
+  // Table rules at least minLength (a fraction of the page width or height) long
+  | { type: 'lines'; enabled: boolean; mode: LineMode; minLength: number };
+
+export type PreprocessingStageType = PreprocessingStage['type'];
+
+export interface PreprocessingPreset {
+  name: string;
+  stages: PreprocessingStage[];
+}
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+// Page corners in the order top-left, top-right, bottom-right, bottom-left
+export type Quad = [Point, Point, Point, Point];
+
+// Four-channel pixels as in ImageData, without needing a DOM
+export interface RgbaImage {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray;
+}
+
+// What was done to a page before OCR, for the status display
+export interface PageCorrection {
+  // Clockwise quarter turns applied to make text upright
+  rotation: 0 | 90 | 180 | 270;
+  // Degrees the page was turned back to level the text lines
+  skew: number;
+  perspective: 'auto' | 'manual' | null;
+}
+
+// Jobs for the preprocessing web workers; images travel as transferable bitmaps or buffers
+export type PreprocessingRequest =
+  // Flatten and quarter-turn a page, and cut samples for the upside-down check
+  | { type: 'straighten'; image: ImageBitmap; manualQuad: Quad | null; detectPerspective: boolean }
+  // Half-turn and level the page, then run the stages for OCR
+  | { type: 'finish'; image: ImageBitmap; correction: PageCorrection; skew: number; upsideDown: boolean; stages: PreprocessingStage[] }
+  // Run the stages on a preview and return the image after each stage
+  | { type: 'preview'; image: GrayImage; stages: PreprocessingStage[] };
+
+export interface StraightenResult {
+  image: ImageBitmap;
+  correction: PageCorrection;
+  skew: number;
+  // The middle of the page as it is and turned half round
+  samples: { upright: Blob; turned: Blob };
+}
+
+export interface FinishResult {
+  // The corrected page for the source viewer
+  page: Blob;
+  // The preprocessed page for Tesseract, scale times the size of the corrected page
+  processed: Blob;
+  scale: number;
+  width: number;
+  height: number;
+  correction: PageCorrection;
+}
+
+export interface PreviewResult {
+  // The source followed by the image after each stage
+  steps: Blob[];
+}
+
+export type PreprocessingResponse =
+  | { ok: true; result: StraightenResult | FinishResult | PreviewResult }
+  | { ok: false; error: string };
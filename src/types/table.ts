@@ -0,0 +1,51 @@
+import { OcrWord } from './ocr';
+
+export interface Box {
+  x0: number;
+  x1: number;
+  y0: number;
+  y1: number;
+}
+
+// A column found by clustering word positions on one page
+export interface TableColumn {
+  index: number;
+  // Header text, or "Column N" when the page has no header row
+  name: string;
+  x0: number;
+  x1: number;
+  // Numbers are usually right-aligned, names left-aligned
+  align: 'left' | 'right';
+}
+
+// One cell with the words it was built from; empty cells have no words and no box
+export interface TableCell {
+  text: string;
+  words: OcrWord[];
+  bbox: Box | null;
+  // Lowest word confidence in the cell, null when empty or unknown
+  confidence: number | null;
+  pageNumber: number;
+  rowIndex: number;
+  columnIndex: number;
+}
+
+export interface TableRow {
+  pageNumber: number;
+  // Position among the body rows of its page
+  rowIndex: number;
+  // How many text lines were merged into this row
+  lineCount: number;
+  cells: TableCell[];
+}
+
+export interface TablePage {
+  pageNumber: number;
+  columns: TableColumn[];
+  header: TableRow | null;
+  rows: TableRow[];
+}
+
+export interface ReconstructedTable {
+  pages: TablePage[];
+}
@@ -0,0 +1,117 @@
+export type FindingSeverity = 'mild' | 'moderate' | 'severe';
+
+// One out-of-range test with a one-line interpretation
+export interface AnalysisFinding {
+  testName: string;
+  severity: FindingSeverity;
+  interpretation: string;
+  // Report section of the test, filled in from the template rather than by the model
+  section?: string;
+}
+
+// Findings of one report section; the section is '' for findings without one
+export interface FindingGroup<T extends AnalysisFinding> {
+  section: string;
+  findings: T[];
+}
+
+// The structured response contract of the analysis request
+export interface BloodworkAnalysis {
+  summary: string;
+  findings: AnalysisFinding[];
+}
+
+export interface AnalysisValidation {
+  analysis: BloodworkAnalysis | null;
+  errors: string[];
+}
+
+export const FINDING_SEVERITIES: FindingSeverity[] = ['mild', 'moderate', 'severe'];
+
+const FINDING_KEYS = ['test_name', 'severity', 'interpretation'];
+
+export const normalizeTestName = (name: string): string => name.trim().replace(/\s+/g, ' ').toLowerCase();
+
+/**
+ * Checks a parsed analysis response: {"summary": string, "findings": [{test_name, severity, interpretation}]}
+ * @param json The parsed JSON returned by the model
+ * @param testNames Template test names every finding must refer to; empty allows any name
+ * @returns The analysis in app shape when valid, plus a message for every violation
+ */
+export const validateAnalysisResponse = (json: unknown, testNames: string[] = []): AnalysisValidation => {
+  if (!json || typeof json !== 'object' || Array.isArray(json)) {
+    return { analysis: null, errors: ['Response must be an object with "summary" and "findings"'] };
+  }
+
+  const record = json as Record<string, unknown>;
+  const errors: string[] = [];
+  const knownNames = new Map(testNames.map(name => [normalizeTestName(name), name]));
+
+  if (typeof record.summary !== 'string') {
+    errors.push('"summary" must be a string');
+  }
+  if (!Array.isArray(record.findings)) {
+    errors.push('"findings" must be an array');
+    return { analysis: null, errors };
+  }
+
+  const findings: AnalysisFinding[] = [];
+  record.findings.forEach((item, index) => {
+    const label = `Finding ${index + 1}`;
+    if (!item || typeof item !== 'object' || Array.isArray(item)) {
+      errors.push(`${label}: must be an object`);
+      return;
+    }
+    const finding = item as Record<string, unknown>;
+
+    Object.keys(finding)
+      .filter(key => !FINDING_KEYS.includes(key))
+      .forEach(key => errors.push(`${label}: unexpected key "${key}"`));
+
+    if (typeof finding.test_name !== 'string' || !finding.test_name.trim()) {
+      errors.push(`${label}: "test_name" must be a non-empty string`);
+      return;
+    }
+    if (!FINDING_SEVERITIES.includes(finding.severity as FindingSeverity)) {
+      errors.push(`${label}: "severity" must be one of ${FINDING_SEVERITIES.join(', ')}`);
+      return;
+    }
+    if (typeof finding.interpretation !== 'string' || !finding.interpretation.trim()) {
+      errors.push(`${label}: "interpretation" must be a non-empty string`);
+      return;
+    }
+
+    // Findings are keyed to template rows, so the name has to match one of them
+    const testName = knownNames.size > 0
+      ? knownNames.get(normalizeTestName(finding.test_name))
+      : finding.test_name.trim();
+    if (!testName) {
+      errors.push(`${label}: "test_name" "${finding.test_name}" is not one of the provided test names`);
+      return;
+    }
+
+    findings.push({
+      testName,
+      severity: finding.severity as FindingSeverity,
+      interpretation: finding.interpretation.trim().replace(/\s*\n+\s*/g, ' ')
+    });
+  });
+
+  if (errors.length > 0) {
+    return { analysis: null, errors };
+  }
+  return { analysis: { summary: (record.summary as string).trim(), findings }, errors };
+};
+
+/**
+ * Groups findings by report section, in the order each section first appears
+ */
+export const groupFindings = <T extends AnalysisFinding>(findings: T[]): FindingGroup<T>[] => {
+  const groups = new Map<string, T[]>();
+  findings.forEach(finding => {
+    const section = finding.section?.trim() ?? '';
+    if (!groups.has(section)) groups.set(section, []);
+    groups.get(section)!.push(finding);
+  });
+  return [...groups.entries()].map(([section, grouped]) => ({ section, findings: grouped }));
+};
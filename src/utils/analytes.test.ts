@@ -0,0 +1,25 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { matchAnalyte } from './analytes';
+
+const matched = (testName: string) => {
+  const match = matchAnalyte(testName);
+  return match && `${match.analyte.id}:${match.kind}`;
+};
+
+test('synonyms with qualifier words are matched with confidence', () => {
+  assert.equal(matched('Hemoglobine A1c'), 'hba1c:exact');
+  assert.equal(matched('Hb A1c'), 'hba1c:exact');
+  assert.equal(matched('LDL-cholesterol berekend'), 'ldl:synonym');
+  assert.equal(matched('Hemoglobine (Hb)'), 'hemoglobin:synonym');
+});
+
+test('names with words outside the synonym are left to be checked', () => {
+  assert.equal(matched('Hemoglobine ratio'), 'hemoglobin:fuzzy');
+  assert.equal(matched('Ferritine index'), 'ferritin:fuzzy');
+});
+
+test('names holding two analytes match none', () => {
+  assert.equal(matched('Ureum/creatinine ratio'), null);
+  assert.equal(matched('HDL/LDL ratio'), null);
+});
@@ -0,0 +1,134 @@
+import { AnalyteMatchKind, LabResultRow } from '../components/LabResultsTemplate';
+import { Analyte, ANALYTES } from '../config/analytes';
+
+export interface AnalyteMatch {
+  analyte: Analyte;
+  kind: Exclude<AnalyteMatchKind, 'manual'>;
+}
+
+// Aliases shorter than this are abbreviations, where one wrong letter is another test ("ast" and "alt")
+const MIN_FUZZY_LENGTH = 5;
+
+// Words printed next to a synonym that do not make it another test ("LDL-cholesterol berekend")
+const QUALIFIER_WORDS = new Set(['berekend', 'calculated', 'serum', 'plasma', 'bloed', 'blood', 'totaal', 'total', 'nuchter', 'fasting', 'ifcc']);
+
+/**
+ * Reduces a test name to lowercase words without accents or punctuation ("Hemoglobine (Hb)" -> "hemoglobine hb")
+ */
+export const normalizeAnalyteName = (name: string): string =>
+  name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+
+const ALIASES = ANALYTES.flatMap(analyte =>
+  [analyte.label, ...analyte.names].map(name => ({ analyte, alias: normalizeAnalyteName(name) }))
+);
+
+const BY_ID = new Map(ANALYTES.map(analyte => [analyte.id, analyte]));
+
+export const findAnalyteById = (id: string): Analyte | null => BY_ID.get(id) ?? null;
+
+// Edit distance, with a transposition counted as one edit ("hemoglboine")
+const editDistance = (a: string, b: string): number => {
+  const rows = Array.from({ length: a.length + 1 }, (_, i) => [i, ...Array<number>(b.length).fill(0)]);
+  for (let j = 1; j <= b.length; j++) rows[0][j] = j;
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      rows[i][j] = Math.min(rows[i - 1][j] + 1, rows[i][j - 1] + 1, rows[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        rows[i][j] = Math.min(rows[i][j], rows[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return rows[a.length][b.length];
+};
+
+// Runs of consecutive words with as many words as the alias, so "cortlsol ochtend" is compared word for word
+const wordWindows = (words: string[], size: number): string[] =>
+  words.length < size
+    ? []
+    : Array.from({ length: words.length - size + 1 }, (_, start) => words.slice(start, start + size).join(' '));
+
+// Every synonym found as whole words in a name, with the words it covers
+const findAliases = (words: string[]): { analyte: Analyte; start: number; end: number }[] =>
+  ALIASES.flatMap(({ analyte, alias }) => {
+    const size = alias.split(' ').length;
+    return wordWindows(words, size)
+      .map((window, start) => (window === alias ? { analyte, start, end: start + size } : null))
+      .filter((found): found is { analyte: Analyte; start: number; end: number } => found !== null);
+  });
+
+/**
+ * Finds the catalogue analyte a printed test name refers to
+ *
+ * Tries, in order: the whole name equal to a synonym, the longest synonym found as whole words
+ * ("LDL-cholesterol berekend"), and a synonym within one edit per five letters of an OCR-mangled word ("Hemog1obine").
+ * A synonym next to words that are not part of it ("Hemoglobine A1c") is only an approximate match, and names
+ * holding synonyms of two analytes ("HDL/LDL ratio") match none.
+ * @returns The analyte and how it was found, or null when no analyte fits
+ */
+export const matchAnalyte = (testName: string): AnalyteMatch | null => {
+  const name = normalizeAnalyteName(testName);
+  if (!name) return null;
+
+  const exact = ALIASES.find(({ alias }) => alias === name);
+  if (exact) return { analyte: exact.analyte, kind: 'exact' };
+
+  const words = name.split(' ');
+  const found = findAliases(words);
+  if (found.length > 0) {
+    const best = found.reduce((longest, alias) => (alias.end - alias.start > longest.end - longest.start ? alias : longest));
+    // A second analyte next to the first ("HDL/LDL ratio", "Ureum/creatinine ratio") is a different test
+    if (found.some(alias => alias.analyte !== best.analyte && (alias.end <= best.start || alias.start >= best.end))) {
+      return null;
+    }
+    // Other words ("ratio", "A1c") may make it a different test, so the match is left to be checked
+    const covered = new Set(found
+      .filter(alias => alias.analyte === best.analyte)
+      .flatMap(alias => Array.from({ length: alias.end - alias.start }, (_, offset) => alias.start + offset)));
+    const extra = words.some((word, index) => !covered.has(index) && !QUALIFIER_WORDS.has(word));
+    return { analyte: best.analyte, kind: extra ? 'fuzzy' : 'synonym' };
+  }
+
+  let best: { analyte: Analyte; score: number } | null = null;
+  for (const { analyte, alias } of ALIASES) {
+    if (alias.length < MIN_FUZZY_LENGTH) continue;
+    const allowed = Math.floor(alias.length / 5);
+    for (const window of wordWindows(words, alias.split(' ').length)) {
+      const distance = editDistance(window, alias);
+      const score = distance / alias.length;
+      if (distance <= allowed && (!best || score < best.score)) {
+        best = { analyte, score };
+      }
+    }
+  }
+  return best ? { analyte: best.analyte, kind: 'fuzzy' } : null;
+};
+
+/**
+ * The analyte a row refers to: the one picked by the user, else the one matched from the test name
+ */
+export const rowAnalyte = (row: LabResultRow): Analyte | null => {
+  if (row.analyte) {
+    return row.analyte.id ? findAnalyteById(row.analyte.id) : null;
+  }
+  return matchAnalyte(row.testName)?.analyte ?? null;
+};
+
+/**
+ * Resolves the analyte of every row from its test name, keeping analytes picked by the user
+ */
+export const resolveRowAnalytes = (rows: LabResultRow[]): LabResultRow[] =>
+  rows.map(row => {
+    if (row.analyte?.match === 'manual') return row;
+    const match = matchAnalyte(row.testName);
+    if (!match) {
+      return row.analyte ? { ...row, analyte: undefined } : row;
+    }
+    if (row.analyte?.id === match.analyte.id && row.analyte.match === match.kind) return row;
+    return { ...row, analyte: { id: match.analyte.id, match: match.kind } };
+  });
@@ -0,0 +1,266 @@
+import { LabResultField, LabResultRow, TextField } from '../components/LabResultsTemplate';
+import { Box, ReconstructedTable, TablePage } from '../types/table';
+import { unionBox } from './tableReconstruction';
+import { cellValue, isResultField, parseSampleDate, resultField, resultIndex, withCellValue } from './resultSeries';
+import { formatSectionName, isSectionHeader } from './sections';
+
+export type ColumnTarget = LabResultField | 'ignore';
+
+// A column edit, replayed in order on the reconstructed grid
+export type ColumnOperation =
+  | { type: 'merge'; column: number }
+  | { type: 'split'; column: number };
+
+// One grid row with where it came from in the document
+export interface GridRow {
+  key: string;
+  pageNumber: number;
+  rowIndex: number;
+  cells: string[];
+  // Lowest OCR confidence per cell, parallel to cells
+  confidences: (number | null)[];
+  // Region on the page per cell, parallel to cells
+  boxes: (Box | null)[];
+}
+
+export interface MappingGrid {
+  columnNames: string[];
+  rows: GridRow[];
+}
+
+// What is remembered per lab layout
+export interface ColumnMapping {
+  // Column count of the reconstructed grid the operations apply to
+  baseColumnCount: number;
+  operations: ColumnOperation[];
+  targets: ColumnTarget[];
+  // Normalised text of rows the user dropped, so the same headers and footers drop next time
+  dropPatterns: string[];
+}
+
+const STORAGE_KEY = 'labletter.columnMappings';
+const minConfidence = (values: (number | null)[]): number | null => {
+  const known = values.filter((value): value is number => value !== null);
+  return known.length > 0 ? Math.min(...known) : null;
+};
+
+const joinBoxes = (boxes: (Box | null)[]): Box | null => {
+  const known = boxes.filter((box): box is Box => box !== null);
+  return known.length > 0 ? unionBox(known) : null;
+};
+
+const RANGE_VALUE = /^(\d+(?:[.,]\d+)?)\s*[-–]\s*(\d+(?:[.,]\d+)?)$/;
+
+// Header words that suggest a field, used when no mapping is stored for the layout; any number of columns may hold results
+const FIELD_HINTS: { field: TextField | 'result'; pattern: RegExp }[] = [
+  { field: 'result', pattern: /vorige|previous|prior/i },
+  { field: 'referenceLower', pattern: /onderl|ondergrens|lower|\bmin\b|referen|normaal/i },
+  { field: 'referenceUpper', pattern: /bovenl|bovengrens|upper|\bmax\b/i },
+  { field: 'unit', pattern: /eenhe|unit/i },
+  { field: 'comments', pattern: /comment|opmerking|commentaar/i },
+  { field: 'result', pattern: /resulta|result|uitslag|waarde|value/i },
+  { field: 'testName', pattern: /test|analyse|onderzoek|parameter|bepaling/i },
+];
+
+/**
+ * Flattens the table pages into one grid. Columns of other pages are matched to the columns of
+ * the page with the most columns by their centres, since each page has its own coordinates.
+ */
+export const buildMappingGrid = (table: ReconstructedTable): MappingGrid => {
+  const reference = table.pages.reduce<TablePage | null>(
+    (best, page) => (!best || page.columns.length > best.columns.length ? page : best),
+    null
+  );
+  if (!reference) {
+    return { columnNames: [], rows: [] };
+  }
+
+  const columnIndexFor = (page: TablePage, columnIndex: number): number => {
+    if (page === reference) return columnIndex;
+    const { x0, x1 } = page.columns[columnIndex];
+    const centre = (x0 + x1) / 2;
+    let best = 0;
+    reference.columns.forEach((column, index) => {
+      const bestColumn = reference.columns[best];
+      if (Math.abs((column.x0 + column.x1) / 2 - centre) < Math.abs((bestColumn.x0 + bestColumn.x1) / 2 - centre)) {
+        best = index;
+      }
+    });
+    return best;
+  };
+
+  const rows = table.pages.flatMap(page =>
+    page.rows.map(row => {
+      const cells = reference.columns.map(() => '');
+      const confidences = reference.columns.map((): number | null => null);
+      const boxes = reference.columns.map((): Box | null => null);
+      row.cells.forEach(cell => {
+        const index = columnIndexFor(page, cell.columnIndex);
+        cells[index] = [cells[index], cell.text].filter(Boolean).join(' ');
+        confidences[index] = minConfidence([confidences[index], cell.confidence]);
+        boxes[index] = joinBoxes([boxes[index], cell.bbox]);
+      });
+      return { key: `${page.pageNumber}-${row.rowIndex}`, pageNumber: page.pageNumber, rowIndex: row.rowIndex, cells, confidences, boxes };
+    })
+  );
+
+  return { columnNames: reference.columns.map(column => column.name), rows };
+};
+
+/**
+ * Applies merge and split operations; a split moves the last word of each cell into a new column
+ */
+export const applyOperations = (grid: MappingGrid, operations: ColumnOperation[]): MappingGrid =>
+  operations.reduce<MappingGrid>((current, operation) => {
+    const { column } = operation;
+    if (column < 0 || column >= current.columnNames.length) return current;
+
+    if (operation.type === 'merge') {
+      if (column + 1 >= current.columnNames.length) return current;
+      const join = (values: string[]) => [...values.slice(0, column), values.slice(column, column + 2).filter(Boolean).join(' '), ...values.slice(column + 2)];
+      const combine = <T>(values: T[], reduce: (pair: T[]) => T) => [...values.slice(0, column), reduce(values.slice(column, column + 2)), ...values.slice(column + 2)];
+      return {
+        columnNames: join(current.columnNames),
+        rows: current.rows.map(row => ({
+          ...row,
+          cells: join(row.cells),
+          confidences: combine(row.confidences, minConfidence),
+          boxes: combine(row.boxes, joinBoxes)
+        }))
+      };
+    }
+
+    const split = (value: string): [string, string] => {
+      const words = value.trim().split(/\s+/).filter(Boolean);
+      return words.length > 1 ? [words.slice(0, -1).join(' '), words[words.length - 1]] : [value, ''];
+    };
+    const insert = <T>(values: T[], parts: [T, T]) => [...values.slice(0, column), ...parts, ...values.slice(column + 1)];
+    return {
+      columnNames: insert(current.columnNames, [current.columnNames[column], `${current.columnNames[column]} (split)`]),
+      rows: current.rows.map(row => ({
+        ...row,
+        cells: insert(row.cells, split(row.cells[column])),
+        // Words are not kept in the grid, so both halves share the cell's confidence and region
+        confidences: insert(row.confidences, [row.confidences[column], row.confidences[column]]),
+        boxes: insert(row.boxes, [row.boxes[column], row.boxes[column]])
+      }))
+    };
+  }, grid);
+
+// Digits vary between pages and reports ("blz 1/2"), so they are not part of the pattern
+export const rowPattern = (row: GridRow): string =>
+  row.cells.filter(Boolean).join(' ').toLowerCase().replace(/\d+/g, '#').replace(/\s+/g, ' ').trim();
+
+/**
+ * Identifies a lab layout by its header names, so reports from the same lab share a mapping
+ */
+export const layoutSignature = (grid: MappingGrid): string =>
+  grid.columnNames.map(name => name.toLowerCase().replace(/\s+/g, ' ').trim()).join('|');
+
+/**
+ * Guesses a field per column from its header. A column headed by a date holds results; result columns
+ * are numbered newest first, by their dates when every one has a date and in printed order otherwise.
+ */
+export const guessTargets = (columnNames: string[]): ColumnTarget[] => {
+  const used = new Set<TextField>();
+  const guesses = columnNames.map((name): TextField | 'result' | 'ignore' => {
+    if (parseSampleDate(name)) return 'result';
+    const hint = FIELD_HINTS.find(({ pattern }) => pattern.test(name));
+    if (!hint) return 'ignore';
+    if (hint.field === 'result') return 'result';
+    // A second reference or unit column is left for the user to map
+    if (used.has(hint.field)) return 'ignore';
+    used.add(hint.field);
+    return hint.field;
+  });
+
+  const resultColumns = guesses.flatMap((guess, column) => (guess === 'result' ? [column] : []));
+  const dates = columnNames.map(parseSampleDate);
+  const ranked = resultColumns.every(column => dates[column])
+    ? [...resultColumns].sort((a, b) => dates[b].localeCompare(dates[a]))
+    : resultColumns;
+  return guesses.map((guess, column) => (guess === 'result' ? resultField(ranked.indexOf(column)) : guess));
+};
+
+const readMappings = (): Record<string, ColumnMapping> => {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
+  } catch (error) {
+    console.warn('Stored column mappings could not be read', error);
+    return {};
+  }
+};
+
+export const loadColumnMapping = (signature: string): ColumnMapping | null => readMappings()[signature] ?? null;
+
+export const saveColumnMapping = (signature: string, mapping: ColumnMapping) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify({ ...readMappings(), [signature]: mapping }));
+};
+
+/**
+ * Turns the kept grid rows into template rows; several columns mapped to one field are joined.
+ * A result column is dated with the date in its header, if any; a panel heading on a row of its own
+ * files the rows below it under that section.
+ * @param grid The grid after merges and splits
+ * @param targets The field chosen for each column
+ * @param dropped Keys of the rows to leave out
+ * @returns Rows with a test name or a result
+ */
+export const mapGridRows = (grid: MappingGrid, targets: ColumnTarget[], dropped: ReadonlySet<string>): LabResultRow[] => {
+  // A result column is dated by the first date in the headers mapped to it
+  const resultDates: string[] = [];
+  targets.forEach((target, column) => {
+    if (target === 'ignore' || !isResultField(target)) return;
+    const index = resultIndex(target);
+    resultDates[index] = resultDates[index] || parseSampleDate(grid.columnNames[column] ?? '');
+  });
+
+  let section = '';
+  return grid.rows
+    .filter(row => !dropped.has(row.key))
+    .flatMap(row => {
+      const filled = row.cells.filter(Boolean);
+      if (filled.length === 1 && isSectionHeader(filled[0])) {
+        section = formatSectionName(filled[0]);
+        return [];
+      }
+      let mapped: LabResultRow = {
+        testName: '',
+        results: Array.from(resultDates, date => ({ value: '', date: date ?? '' })),
+        referenceLower: '',
+        referenceUpper: '',
+        unit: '',
+        comments: ''
+      };
+      const cellMeta: NonNullable<LabResultRow['cellMeta']> = {};
+      row.cells.forEach((value, index) => {
+        const target = targets[index] ?? 'ignore';
+        if (target === 'ignore' || !value) return;
+        mapped = withCellValue(mapped, target, [cellValue(mapped, target), value].filter(Boolean).join(' '));
+        const previous = cellMeta[target];
+        const confidence = minConfidence([previous?.confidence ?? null, row.confidences[index]]);
+        const bbox = joinBoxes([previous?.source?.bbox ?? null, row.boxes[index]]);
+        cellMeta[target] = {
+          ...(confidence !== null && { confidence }),
+          ...(bbox && { source: { pageNumber: row.pageNumber, bbox } })
+        };
+      });
+      // A single reference column usually holds the whole range
+      const range = !mapped.referenceUpper && mapped.referenceLower.match(RANGE_VALUE);
+      if (range) {
+        mapped.referenceLower = range[1];
+        mapped.referenceUpper = range[2];
+        if (cellMeta.referenceLower) {
+          cellMeta.referenceUpper = { ...cellMeta.referenceLower };
+        }
+      }
+      if (Object.keys(cellMeta).length > 0) {
+        mapped.cellMeta = cellMeta;
+      }
+      if (section) {
+        mapped.section = section;
+      }
+      return [mapped];
+    })
+    .filter(row => row.testName || row.results.some(result => result.value));
+};
@@ -0,0 +1,26 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { mapConcurrent } from './concurrency';
+
+test('mapConcurrent starts nothing new after a call rejects', async () => {
+  const started: number[] = [];
+  const failure = mapConcurrent([0, 1, 2, 3, 4, 5, 6, 7], 2, async item => {
+    started.push(item);
+    await new Promise(resolve => setTimeout(resolve, item === 0 ? 5 : 20));
+    if (item === 0) throw new Error('Broken page');
+    return item;
+  });
+
+  await assert.rejects(failure, /Broken page/);
+  // Let the call still in flight finish before counting
+  await new Promise(resolve => setTimeout(resolve, 50));
+  assert.deepEqual(started, [0, 1]);
+});
+
+test('mapConcurrent keeps the results in the order of the items', async () => {
+  const results = await mapConcurrent([30, 10, 20], 3, async delay => {
+    await new Promise(resolve => setTimeout(resolve, delay));
+    return delay;
+  });
+  assert.deepEqual(results, [30, 10, 20]);
+});
@@ -0,0 +1,38 @@
+// Rejection message of work stopped by the user, which handleOcr reports as a cancellation
+export const CANCELLED_MESSAGE = 'Operation cancelled';
+
+/**
+ * Settles with the promise, or rejects as cancelled as soon as the signal aborts
+ */
+export const abortable = <T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> => {
+  if (!signal) return promise;
+  if (signal.aborted) return Promise.reject(new Error(CANCELLED_MESSAGE));
+  return new Promise((resolve, reject) => {
+    const onAbort = () => reject(new Error(CANCELLED_MESSAGE));
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+};
+
+/**
+ * Maps items with at most limit calls in flight; once a call rejects no further items are started
+ * @returns The results in the order of the items
+ */
+export const mapConcurrent = async <T, R>(items: T[], limit: number, map: (item: T, index: number) => Promise<R>): Promise<R[]> => {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  let failed = false;
+  const run = async () => {
+    while (!failed && next < items.length) {
+      const index = next++;
+      try {
+        results[index] = await map(items[index], index);
+      } catch (error) {
+        failed = true;
+        throw error;
+      }
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, run));
+  return results;
+};
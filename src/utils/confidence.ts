@@ -0,0 +1,38 @@
+import { LabResultField, LabResultRow } from '../components/LabResultsTemplate';
+import { OcrWord } from '../types/ocr';
+import { isResultField } from './resultSeries';
+
+// Fields whose misreading changes a clinical value: every result and the reference bounds
+export const isNumericField = (field: LabResultField): boolean =>
+  isResultField(field) || field === 'referenceLower' || field === 'referenceUpper';
+
+export interface UncertainCell {
+  rowIndex: number;
+  field: LabResultField;
+  confidence: number;
+}
+
+/**
+ * The lowest confidence among words, since one misread word makes the whole value uncertain
+ * @returns null when no word carries a confidence
+ */
+export const lowestConfidence = (words: OcrWord[]): number | null => {
+  const values = words.map(word => word.confidence).filter((c): c is number => c !== undefined);
+  return values.length > 0 ? Math.min(...values) : null;
+};
+
+/**
+ * Lists cells below the threshold that have not been confirmed, in reading order
+ */
+export const findUncertainCells = (rows: LabResultRow[], threshold: number): UncertainCell[] =>
+  rows.flatMap((row, rowIndex) =>
+    Object.entries(row.cellMeta ?? {})
+      .filter(([, meta]) => meta?.confidence !== undefined && meta.confidence < threshold && !meta.confirmed)
+      .map(([field, meta]) => ({ rowIndex, field: field as LabResultField, confidence: meta!.confidence! }))
+  );
+
+/**
+ * The uncertain cells that hold a value or reference bound, which may not reach the analysis unchecked
+ */
+export const findUncertainValues = (rows: LabResultRow[], threshold: number): UncertainCell[] =>
+  findUncertainCells(rows, threshold).filter(({ field }) => isNumericField(field));
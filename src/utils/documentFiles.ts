@@ -0,0 +1,100 @@
+import * as pdfjsLib from 'pdfjs-dist';
+import * as UTIF from 'utif';
+import { MAX_FILE_SIZE_MB, MAX_PAGES } from '../config/uploadLimits';
+
+// TIFF and HEIC are decoded here, since most browsers cannot; other images are decoded by the browser
+export type DocumentKind = 'pdf' | 'tiff' | 'heic' | 'image';
+
+// For the file input; HEIC and TIFF files often come without a MIME type, so extensions are listed too
+export const ACCEPTED_FILE_TYPES = '.pdf,.tif,.tiff,.heic,.heif,image/*';
+
+/**
+ * Tells what kind of document a file is from its MIME type or, failing that, its extension
+ * @returns The kind, or null when the file cannot be read
+ */
+export const documentKind = (file: File): DocumentKind | null => {
+  const extension = file.name.split('.').pop()?.toLowerCase() ?? '';
+  if (file.type === 'application/pdf' || extension === 'pdf') return 'pdf';
+  if (file.type === 'image/tiff' || extension === 'tif' || extension === 'tiff') return 'tiff';
+  if (file.type === 'image/heic' || file.type === 'image/heif' || extension === 'heic' || extension === 'heif') return 'heic';
+  if (file.type.startsWith('image/') || ['jpg', 'jpeg', 'png', 'webp', 'bmp', 'gif'].includes(extension)) return 'image';
+  return null;
+};
+
+const countPages = async (file: File, kind: DocumentKind): Promise<number> => {
+  if (kind === 'pdf') {
+    const pdf = await pdfjsLib.getDocument({ data: await file.arrayBuffer() }).promise;
+    const { numPages } = pdf;
+    await pdf.destroy();
+    return numPages;
+  }
+  if (kind === 'tiff') {
+    return UTIF.decode(await file.arrayBuffer()).length;
+  }
+  return 1;
+};
+
+/**
+ * Checks that a file can be read and stays within the size and page limits
+ * @returns Why the file cannot be added, or null when it can
+ */
+export const validateDocumentFile = async (file: File): Promise<string | null> => {
+  const kind = documentKind(file);
+  if (!kind) {
+    return 'Not a PDF or image file';
+  }
+  if (file.size > MAX_FILE_SIZE_MB * 1024 * 1024) {
+    return `Larger than ${MAX_FILE_SIZE_MB} MB`;
+  }
+  try {
+    const pages = await countPages(file, kind);
+    if (pages === 0) {
+      return 'Contains no pages';
+    }
+    if (pages > MAX_PAGES) {
+      return `Has ${pages} pages; at most ${MAX_PAGES} can be read`;
+    }
+  } catch {
+    return 'The file could not be opened';
+  }
+  return null;
+};
+
+const decodeTiff = async (file: File, limit: number): Promise<ImageBitmap[]> => {
+  const buffer = await file.arrayBuffer();
+  return Promise.all(UTIF.decode(buffer).slice(0, limit).map(ifd => {
+    UTIF.decodeImage(buffer, ifd);
+    const rgba = new Uint8ClampedArray(UTIF.toRGBA8(ifd));
+    return createImageBitmap(new ImageData(rgba, ifd.width, ifd.height));
+  }));
+};
+
+const decodeHeic = async (file: File): Promise<ImageBitmap[]> => {
+  // Safari reads HEIC itself; elsewhere the decoder (about 1 MB) is loaded only when needed
+  try {
+    return [await createImageBitmap(file)];
+  } catch {
+    const { default: heic2any } = await import('heic2any');
+    const converted = await heic2any({ blob: file, toType: 'image/png' });
+    return [await createImageBitmap(Array.isArray(converted) ? converted[0] : converted)];
+  }
+};
+
+/**
+ * Decodes the pages of an image document for OCR
+ * @param file A TIFF (every page), HEIC or other image file
+ * @param limit Pages to decode at most, for previews
+ * @returns One bitmap per page
+ */
+export const decodeImagePages = async (file: File, limit = MAX_PAGES): Promise<ImageBitmap[]> => {
+  switch (documentKind(file)) {
+    case 'tiff':
+      return decodeTiff(file, limit);
+    case 'heic':
+      return decodeHeic(file);
+    case 'image':
+      return [await createImageBitmap(file)];
+    default:
+      throw new Error(`${file.name} is not an image file`);
+  }
+};
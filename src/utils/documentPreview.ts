@@ -0,0 +1,37 @@
+import * as pdfjsLib from 'pdfjs-dist';
+import { decodeImagePages, documentKind } from './documentFiles';
+
+/**
+ * Renders the first page of a PDF or image document small enough to preview quickly
+ * @param file The selected document
+ * @param maxWidth Width the render is reduced to
+ * @returns A canvas the caller removes when done
+ */
+export const renderFirstPage = async (file: File, maxWidth: number): Promise<HTMLCanvasElement> => {
+  const canvas = document.createElement('canvas');
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('Failed to get canvas context');
+  }
+
+  if (documentKind(file) === 'pdf') {
+    const pdf = await pdfjsLib.getDocument({ data: await file.arrayBuffer() }).promise;
+    const page = await pdf.getPage(1);
+    const unscaled = page.getViewport({ scale: 1 });
+    const viewport = page.getViewport({ scale: Math.min(1.5, maxWidth / unscaled.width) });
+    canvas.width = viewport.width;
+    canvas.height = viewport.height;
+    await page.render({ canvasContext: context, viewport }).promise;
+    await pdf.destroy();
+    return canvas;
+  }
+
+  // TIFF and HEIC are converted like for OCR; the first page is enough for a preview
+  const [image] = await decodeImagePages(file, 1);
+  const ratio = Math.min(1, maxWidth / image.width);
+  canvas.width = Math.round(image.width * ratio);
+  canvas.height = Math.round(image.height * ratio);
+  context.drawImage(image, 0, 0, canvas.width, canvas.height);
+  image.close();
+  return canvas;
+};
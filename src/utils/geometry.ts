@@ -0,0 +1,207 @@
+import { GrayImage, Point, Quad, RgbaImage } from '../types/preprocessing';
+import { otsuThreshold, scaleImage } from './imagePipeline';
+
+/**
+ * Shrinks an image so its longest side is at most maxSide, for fast estimates
+ * @returns The reduced image and the factor it was reduced by
+ */
+export const reduceForAnalysis = (image: GrayImage, maxSide: number): { image: GrayImage; factor: number } => {
+  const factor = Math.min(1, maxSide / Math.max(image.width, image.height));
+  return { image: scaleImage(image, factor), factor };
+};
+
+// Coordinates of dark (ink) pixels, thinned out to at most limit points
+const inkPoints = (image: GrayImage, limit = 20000): Point[] => {
+  const threshold = otsuThreshold(image);
+  const points: Point[] = [];
+  for (let y = 0; y < image.height; y++) {
+    for (let x = 0; x < image.width; x++) {
+      if (image.data[y * image.width + x] <= threshold) points.push({ x, y });
+    }
+  }
+  const stride = Math.max(1, Math.ceil(points.length / limit));
+  return stride === 1 ? points : points.filter((_, index) => index % stride === 0);
+};
+
+// How sharply the ink falls into bands across the given direction: text lines give tall, narrow peaks
+const profileScore = (points: Point[], angle: number, vertical: boolean): number => {
+  const radians = (angle * Math.PI) / 180;
+  const sin = Math.sin(radians);
+  const cos = Math.cos(radians);
+  const bins = new Map<number, number>();
+  points.forEach(({ x, y }) => {
+    const offset = vertical ? Math.round(x * cos + y * sin) : Math.round(y * cos - x * sin);
+    bins.set(offset, (bins.get(offset) ?? 0) + 1);
+  });
+  let score = 0;
+  bins.forEach(count => {
+    score += count * count;
+  });
+  return score;
+};
+
+const bestAngle = (points: Point[], maxAngle: number, vertical: boolean): { angle: number; score: number } => {
+  let best = { angle: 0, score: -1 };
+  const search = (from: number, to: number, step: number) => {
+    for (let angle = from; angle <= to + 1e-9; angle += step) {
+      const score = profileScore(points, angle, vertical);
+      if (score > best.score) best = { angle, score };
+    }
+  };
+  search(-maxAngle, maxAngle, 0.5);
+  // Refine around the coarse peak
+  const coarse = best.angle;
+  search(coarse - 0.5, coarse + 0.5, 0.05);
+  return best;
+};
+
+/**
+ * Finds whether text lines run across or down the page, and how far they are tilted
+ * @param image The page, ideally reduced to about 1000 pixels
+ * @param maxAngle Largest tilt looked for, in degrees
+ * @returns vertical is true when lines run down the page (turned a quarter); skew is the angle in
+ * degrees the lines descend to the right (clockwise on screen)
+ */
+export const analyzeTextDirection = (image: GrayImage, maxAngle = 15): { vertical: boolean; skew: number } => {
+  const points = inkPoints(image);
+  if (points.length < 50) {
+    return { vertical: false, skew: 0 };
+  }
+  const horizontal = bestAngle(points, maxAngle, false);
+  const vertical = bestAngle(points, maxAngle, true);
+  // Require a clear margin, since tables also have strong column structure
+  return vertical.score > horizontal.score * 1.3
+    ? { vertical: true, skew: vertical.angle }
+    : { vertical: false, skew: horizontal.angle };
+};
+
+const quadArea = (quad: Quad): number =>
+  Math.abs(quad.reduce((sum, point, index) => {
+    const next = quad[(index + 1) % 4];
+    return sum + point.x * next.y - next.x * point.y;
+  }, 0)) / 2;
+
+/**
+ * Finds the page in a photo as the largest bright region and takes its outermost corners
+ * @param image The photo, ideally reduced to about 400 pixels
+ * @returns The corners in the image's coordinates, or null when no page stands out from the
+ * background or the page already fills the image
+ */
+export const detectPageQuad = (image: GrayImage): Quad | null => {
+  const { width, height, data } = image;
+  const threshold = otsuThreshold(image);
+  const labels = new Int32Array(width * height).fill(-1);
+  const queue = new Int32Array(width * height);
+  let best: { label: number; size: number } = { label: -1, size: 0 };
+
+  // Label bright regions with a flood fill and keep the largest
+  let label = 0;
+  for (let start = 0; start < data.length; start++) {
+    if (data[start] <= threshold || labels[start] !== -1) continue;
+    let head = 0;
+    let tail = 0;
+    queue[tail++] = start;
+    labels[start] = label;
+    while (head < tail) {
+      const index = queue[head++];
+      const x = index % width;
+      const neighbours = [x > 0 ? index - 1 : -1, x < width - 1 ? index + 1 : -1, index - width, index + width];
+      for (const next of neighbours) {
+        if (next < 0 || next >= data.length || labels[next] !== -1 || data[next] <= threshold) continue;
+        labels[next] = label;
+        queue[tail++] = next;
+      }
+    }
+    if (tail > best.size) best = { label, size: tail };
+    label++;
+  }
+  if (best.size < width * height * 0.2) {
+    return null;
+  }
+
+  // Outermost points along the diagonals are the corners
+  let topLeft = { x: 0, y: 0, value: Infinity };
+  let bottomRight = { x: 0, y: 0, value: -Infinity };
+  let topRight = { x: 0, y: 0, value: -Infinity };
+  let bottomLeft = { x: 0, y: 0, value: Infinity };
+  for (let index = 0; index < labels.length; index++) {
+    if (labels[index] !== best.label) continue;
+    const x = index % width;
+    const y = Math.floor(index / width);
+    if (x + y < topLeft.value) topLeft = { x, y, value: x + y };
+    if (x + y > bottomRight.value) bottomRight = { x, y, value: x + y };
+    if (x - y > topRight.value) topRight = { x, y, value: x - y };
+    if (x - y < bottomLeft.value) bottomLeft = { x, y, value: x - y };
+  }
+  const quad: Quad = [topLeft, topRight, bottomRight, bottomLeft].map(({ x, y }) => ({ x, y })) as Quad;
+
+  const area = quadArea(quad);
+  if (area < width * height * 0.2 || area > width * height * 0.9) {
+    return null;
+  }
+  return quad;
+};
+
+// Solves the 8 homography coefficients that map the destination rectangle onto the quad
+const homography = (from: Quad, to: Quad): number[] => {
+  const matrix: number[][] = [];
+  from.forEach((source, index) => {
+    const { x: u, y: v } = to[index];
+    matrix.push([source.x, source.y, 1, 0, 0, 0, -source.x * u, -source.y * u, u]);
+    matrix.push([0, 0, 0, source.x, source.y, 1, -source.x * v, -source.y * v, v]);
+  });
+
+  // Gaussian elimination with partial pivoting
+  for (let column = 0; column < 8; column++) {
+    let pivot = column;
+    for (let row = column + 1; row < 8; row++) {
+      if (Math.abs(matrix[row][column]) > Math.abs(matrix[pivot][column])) pivot = row;
+    }
+    [matrix[column], matrix[pivot]] = [matrix[pivot], matrix[column]];
+    for (let row = 0; row < 8; row++) {
+      if (row === column) continue;
+      const factor = matrix[row][column] / matrix[column][column];
+      for (let k = column; k < 9; k++) matrix[row][k] -= factor * matrix[column][k];
+    }
+  }
+  return matrix.map((row, index) => row[8] / row[index]);
+};
+
+const distance = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y);
+
+/**
+ * Maps the page inside the quad onto an upright rectangle
+ * @param image The photo
+ * @param quad The page corners in the photo's coordinates
+ * @returns The flattened page, sized after the longer of each pair of opposite edges
+ */
+export const warpPerspective = (image: RgbaImage, quad: Quad): RgbaImage => {
+  const [topLeft, topRight, bottomRight, bottomLeft] = quad;
+  const width = Math.max(1, Math.round(Math.max(distance(topLeft, topRight), distance(bottomLeft, bottomRight))));
+  const height = Math.max(1, Math.round(Math.max(distance(topLeft, bottomLeft), distance(topRight, bottomRight))));
+  const rectangle: Quad = [{ x: 0, y: 0 }, { x: width - 1, y: 0 }, { x: width - 1, y: height - 1 }, { x: 0, y: height - 1 }];
+  const [a, b, c, d, e, f, g, h] = homography(rectangle, quad);
+
+  const data = new Uint8ClampedArray(width * height * 4);
+  const { data: src, width: srcWidth, height: srcHeight } = image;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const w = g * x + h * y + 1;
+      const sx = Math.min(srcWidth - 1, Math.max(0, (a * x + b * y + c) / w));
+      const sy = Math.min(srcHeight - 1, Math.max(0, (d * x + e * y + f) / w));
+      const x0 = Math.floor(sx);
+      const y0 = Math.floor(sy);
+      const x1 = Math.min(srcWidth - 1, x0 + 1);
+      const y1 = Math.min(srcHeight - 1, y0 + 1);
+      const fx = sx - x0;
+      const fy = sy - y0;
+      const target = (y * width + x) * 4;
+      for (let channel = 0; channel < 4; channel++) {
+        const top = src[(y0 * srcWidth + x0) * 4 + channel] * (1 - fx) + src[(y0 * srcWidth + x1) * 4 + channel] * fx;
+        const bottom = src[(y1 * srcWidth + x0) * 4 + channel] * (1 - fx) + src[(y1 * srcWidth + x1) * 4 + channel] * fx;
+        data[target + channel] = top * (1 - fy) + bottom * fy;
+      }
+    }
+  }
+  return { width, height, data };
+};
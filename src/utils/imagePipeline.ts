@@ -0,0 +1,262 @@
+import { GrayImage, LineMode, PreprocessingStage } from '../types/preprocessing';
+
+/**
+ * Converts RGBA pixels to luminance
+ */
+export const toGray = (rgba: Uint8ClampedArray, width: number, height: number): GrayImage => {
+  const data = new Uint8ClampedArray(width * height);
+  for (let i = 0, p = 0; p < data.length; i += 4, p++) {
+    data[p] = 0.2989 * rgba[i] + 0.5870 * rgba[i + 1] + 0.1140 * rgba[i + 2];
+  }
+  return { width, height, data };
+};
+
+/**
+ * Expands luminance back to opaque RGBA for drawing
+ */
+export const toRgba = (image: GrayImage): Uint8ClampedArray => {
+  const rgba = new Uint8ClampedArray(image.width * image.height * 4);
+  for (let p = 0, i = 0; p < image.data.length; p++, i += 4) {
+    rgba[i] = rgba[i + 1] = rgba[i + 2] = image.data[p];
+    rgba[i + 3] = 255;
+  }
+  return rgba;
+};
+
+/**
+ * Bilinear resize; factors below 1 shrink the image
+ */
+export const scaleImage = (image: GrayImage, factor: number): GrayImage => {
+  if (factor === 1) return image;
+  const width = Math.max(1, Math.round(image.width * factor));
+  const height = Math.max(1, Math.round(image.height * factor));
+  const data = new Uint8ClampedArray(width * height);
+  const { data: src, width: srcWidth, height: srcHeight } = image;
+
+  for (let y = 0; y < height; y++) {
+    const sy = Math.min(srcHeight - 1, Math.max(0, (y + 0.5) / factor - 0.5));
+    const y0 = Math.floor(sy);
+    const y1 = Math.min(srcHeight - 1, y0 + 1);
+    const fy = sy - y0;
+    for (let x = 0; x < width; x++) {
+      const sx = Math.min(srcWidth - 1, Math.max(0, (x + 0.5) / factor - 0.5));
+      const x0 = Math.floor(sx);
+      const x1 = Math.min(srcWidth - 1, x0 + 1);
+      const fx = sx - x0;
+      const top = src[y0 * srcWidth + x0] * (1 - fx) + src[y0 * srcWidth + x1] * fx;
+      const bottom = src[y1 * srcWidth + x0] * (1 - fx) + src[y1 * srcWidth + x1] * fx;
+      data[y * width + x] = top * (1 - fy) + bottom * fy;
+    }
+  }
+  return { width, height, data };
+};
+
+// Stretches the 1st-99th percentile to the full range, then applies contrast around mid-grey
+const stretchContrast = (image: GrayImage, contrast: number): GrayImage => {
+  const histogram = new Array<number>(256).fill(0);
+  image.data.forEach(value => histogram[value]++);
+  const cutoff = image.data.length * 0.01;
+  let low = 0;
+  for (let count = 0; low < 255 && count + histogram[low] <= cutoff; low++) count += histogram[low];
+  let high = 255;
+  for (let count = 0; high > 0 && count + histogram[high] <= cutoff; high--) count += histogram[high];
+  const range = Math.max(1, high - low);
+
+  const data = new Uint8ClampedArray(image.data.length);
+  for (let p = 0; p < data.length; p++) {
+    const stretched = ((image.data[p] - low) / range) * 255;
+    data[p] = (stretched - 128) * contrast + 128;
+  }
+  return { ...image, data };
+};
+
+/**
+ * Otsu's threshold: the grey level that best separates ink from paper in the histogram
+ */
+export const otsuThreshold = (image: GrayImage): number => {
+  const histogram = new Array<number>(256).fill(0);
+  image.data.forEach(value => histogram[value]++);
+  const total = image.data.length;
+  const sumAll = histogram.reduce((sum, count, level) => sum + count * level, 0);
+
+  let best = 127;
+  let bestVariance = -1;
+  let weightBackground = 0;
+  let sumBackground = 0;
+  for (let level = 0; level < 256; level++) {
+    weightBackground += histogram[level];
+    if (weightBackground === 0) continue;
+    const weightForeground = total - weightBackground;
+    if (weightForeground === 0) break;
+    sumBackground += level * histogram[level];
+    const meanBackground = sumBackground / weightBackground;
+    const meanForeground = (sumAll - sumBackground) / weightForeground;
+    const variance = weightBackground * weightForeground * (meanBackground - meanForeground) ** 2;
+    if (variance > bestVariance) {
+      bestVariance = variance;
+      best = level;
+    }
+  }
+  return best;
+};
+
+const binarizeOtsu = (image: GrayImage): GrayImage => {
+  const threshold = otsuThreshold(image);
+  return { ...image, data: image.data.map(value => (value > threshold ? 255 : 0)) };
+};
+
+// Sauvola: a local threshold from the mean and spread of a window, so shadows and uneven
+// lighting do not swallow text. Window sums are kept per column and slid down the rows,
+// which needs memory for one row instead of a full integral image.
+const binarizeSauvola = (image: GrayImage, windowSize: number, k: number): GrayImage => {
+  const { width, height, data: src } = image;
+  const half = Math.max(1, Math.floor(windowSize / 2));
+  const columnSum = new Float64Array(width);
+  const columnSquares = new Float64Array(width);
+  const data = new Uint8ClampedArray(src.length);
+
+  const addRow = (y: number, sign: number) => {
+    for (let x = 0; x < width; x++) {
+      const value = src[y * width + x];
+      columnSum[x] += sign * value;
+      columnSquares[x] += sign * value * value;
+    }
+  };
+
+  // Prime the window for row 0
+  for (let y = 0; y <= Math.min(half, height - 1); y++) addRow(y, 1);
+
+  for (let y = 0; y < height; y++) {
+    const rows = Math.min(height - 1, y + half) - Math.max(0, y - half) + 1;
+    let sum = 0;
+    let squares = 0;
+    for (let x = 0; x <= Math.min(half, width - 1); x++) {
+      sum += columnSum[x];
+      squares += columnSquares[x];
+    }
+    for (let x = 0; x < width; x++) {
+      const columns = Math.min(width - 1, x + half) - Math.max(0, x - half) + 1;
+      const count = rows * columns;
+      const mean = sum / count;
+      const deviation = Math.sqrt(Math.max(0, squares / count - mean * mean));
+      const threshold = mean * (1 + k * (deviation / 128 - 1));
+      data[y * width + x] = src[y * width + x] > threshold ? 255 : 0;
+
+      // Slide the window one column to the right
+      const entering = x + half + 1;
+      const leaving = x - half;
+      if (entering < width) {
+        sum += columnSum[entering];
+        squares += columnSquares[entering];
+      }
+      if (leaving >= 0) {
+        sum -= columnSum[leaving];
+        squares -= columnSquares[leaving];
+      }
+    }
+
+    // Slide the window one row down
+    if (y + half + 1 < height) addRow(y + half + 1, 1);
+    if (y - half >= 0) addRow(y - half, -1);
+  }
+  return { ...image, data };
+};
+
+const denoise = (image: GrayImage, radius: number): GrayImage => {
+  const { width, height, data: src } = image;
+  const r = Math.max(1, Math.round(radius));
+  const data = new Uint8ClampedArray(src.length);
+  const values = new Uint8Array((2 * r + 1) ** 2);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      // Insertion sort is fast for the 9 or 25 values of a small window
+      let count = 0;
+      for (let yy = Math.max(0, y - r); yy <= Math.min(height - 1, y + r); yy++) {
+        for (let xx = Math.max(0, x - r); xx <= Math.min(width - 1, x + r); xx++) {
+          const value = src[yy * width + xx];
+          let i = count++;
+          while (i > 0 && values[i - 1] > value) {
+            values[i] = values[i - 1];
+            i--;
+          }
+          values[i] = value;
+        }
+      }
+      data[y * width + x] = values[count >> 1];
+    }
+  }
+  return { ...image, data };
+};
+
+// Finds dark runs along rows (horizontal) or columns (vertical) that are long enough to be table rules
+const processLines = (image: GrayImage, mode: LineMode, minLength: number): GrayImage => {
+  const { width, height, data: src } = image;
+  const data = new Uint8ClampedArray(src);
+  const paint = mode === 'remove' ? 255 : 0;
+
+  const scan = (length: number, span: number, index: (along: number, across: number) => number) => {
+    const minRun = Math.max(2, Math.round(length * minLength));
+    for (let across = 0; across < span; across++) {
+      let start = -1;
+      for (let along = 0; along <= length; along++) {
+        const dark = along < length && src[index(along, across)] < 128;
+        if (dark && start === -1) start = along;
+        if (!dark && start !== -1) {
+          if (along - start >= minRun) {
+            // Removing clears the rule; enhancing also thickens it by a pixel each side
+            const reach = mode === 'enhance' ? 1 : 0;
+            for (let a = start; a < along; a++) {
+              for (let c = Math.max(0, across - reach); c <= Math.min(span - 1, across + reach); c++) {
+                data[index(a, c)] = paint;
+              }
+            }
+          }
+          start = -1;
+        }
+      }
+    }
+  };
+
+  scan(width, height, (x, y) => y * width + x);
+  scan(height, width, (y, x) => y * width + x);
+  return { ...image, data };
+};
+
+/**
+ * Runs one stage; disabled stages pass the image through
+ */
+export const applyStage = (image: GrayImage, stage: PreprocessingStage): GrayImage => {
+  if (!stage.enabled) return image;
+  switch (stage.type) {
+    case 'scale':
+      return scaleImage(image, stage.factor);
+    case 'grayscale':
+      return stretchContrast(image, stage.contrast);
+    case 'binarize':
+      return stage.method === 'otsu' ? binarizeOtsu(image) : binarizeSauvola(image, stage.windowSize, stage.k);
+    case 'denoise':
+      return denoise(image, stage.radius);
+    case 'lines':
+      return processLines(image, stage.mode, stage.minLength);
+  }
+};
+
+/**
+ * Runs the stages in order
+ * @param keepSteps Keep each stage's output, for the preview
+ * @returns The final image, the total scale applied, and the output of every stage when requested
+ */
+export const runPipeline = (
+  image: GrayImage,
+  stages: PreprocessingStage[],
+  keepSteps = false
+): { image: GrayImage; scale: number; steps: GrayImage[] } => {
+  const steps: GrayImage[] = [];
+  let current = image;
+  stages.forEach(stage => {
+    current = applyStage(current, stage);
+    if (keepSteps) steps.push(current);
+  });
+  return { image: current, scale: current.width / image.width, steps };
+};
@@ -0,0 +1,90 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { OcrWord } from '../types/ocr';
+import { parseLabReport } from './labReportParser';
+
+// Words at the given x positions, one line of the page per entry
+const wordsFrom = (lines: [string, number][][]): OcrWord[] =>
+  lines.flatMap((line, lineIndex) =>
+    line.map(([text, x]) => ({ text, bbox: { x0: x, x1: x + text.length * 8, y0: lineIndex * 20, y1: lineIndex * 20 + 10 } }))
+  );
+
+const HEADER: [string, number][] = [
+  ['Testen', 0], ['Resultaten', 200], ['Vorige', 300], ['Onderl.', 500], ['Bovenl.', 600], ['Eenheden', 700]
+];
+
+test('reads the Testen/Resultaten/Vorige/Onderl./Bovenl./Eenheden columns by position', () => {
+  const words = wordsFrom([
+    HEADER,
+    [['Hemoglobine', 0], ['7,2', 200], ['8,0', 300], ['8,5', 500], ['11,0', 600], ['mmol/L', 700]],
+    [['Ferritine', 0], ['12', 200], ['30-400', 520], ['µg/L', 700]]
+  ]);
+  const { rows, unparsedLines, headerFound } = parseLabReport('', words);
+
+  assert.equal(headerFound, true);
+  assert.deepEqual(unparsedLines, []);
+  assert.deepEqual(
+    rows.map(({ testName, results, referenceLower, referenceUpper, unit }) => ({ testName, results, referenceLower, referenceUpper, unit })),
+    [
+      {
+        testName: 'Hemoglobine',
+        results: [{ value: '7,2', date: '' }, { value: '8,0', date: '' }],
+        referenceLower: '8,5',
+        referenceUpper: '11,0',
+        unit: 'mmol/L'
+      },
+      // A range printed in one cell is split over both bounds
+      { testName: 'Ferritine', results: [{ value: '12', date: '' }, { value: '', date: '' }], referenceLower: '30', referenceUpper: '400', unit: 'µg/L' }
+    ]
+  );
+});
+
+test('reports the lines it cannot parse with the reason', () => {
+  const text = 'Testen Resultaten Vorige Onderl. Bovenl. Eenheden\nHemoglobine\n12,5 13,0\nKalium 4,1 3,5 5,1 mmol/L';
+  const { rows, unparsedLines } = parseLabReport(text);
+
+  assert.deepEqual(rows.map(row => row.testName), ['Kalium']);
+  assert.deepEqual(unparsedLines, [
+    { lineNumber: 2, text: 'Hemoglobine', reason: 'No result value found' },
+    { lineNumber: 3, text: '12,5 13,0', reason: 'Test name contains no letters' }
+  ]);
+});
+
+test('reads "<5" and ">60" as one-sided reference bounds and keeps them as results', () => {
+  const text = 'Testen Resultaten\nCRP 3 <5 mg/L\neGFR >60 >60 mL/min/1.73m²';
+  const [crp, egfr] = parseLabReport(text).rows;
+
+  assert.deepEqual([crp.results[0].value, crp.referenceLower, crp.referenceUpper], ['3', '', '5']);
+  assert.deepEqual([egfr.results[0].value, egfr.referenceLower, egfr.referenceUpper], ['>60', '60', '']);
+});
+
+test('joins a reference range split over two tokens', () => {
+  const text = 'Testen Resultaten\nKalium 4,1 3,5 - 5,1 mmol/L\nNatrium 139 135 -145 mmol/L';
+  const [kalium, natrium] = parseLabReport(text).rows;
+
+  assert.deepEqual([kalium.results.map(result => result.value), kalium.referenceLower, kalium.referenceUpper, kalium.unit], [['4,1'], '3,5', '5,1', 'mmol/L']);
+  assert.deepEqual([natrium.results.map(result => result.value), natrium.referenceLower, natrium.referenceUpper], [['139'], '135', '145']);
+});
+
+test('dates under the header become result columns, numbered newest first', () => {
+  const words = wordsFrom([
+    HEADER,
+    [['01/11/2025', 200], ['12/03/2026', 300], ['05/05/2025', 400]],
+    [['Ferritine', 0], ['45', 200], ['31', 300], ['52', 400], ['30', 500], ['400', 600], ['µg/L', 700]]
+  ]);
+  const [row] = parseLabReport('', words).rows;
+
+  assert.deepEqual(row.results, [
+    { value: '31', date: '2026-03-12' },
+    { value: '45', date: '2025-11-01' },
+    { value: '52', date: '2025-05-05' }
+  ]);
+  assert.deepEqual([row.referenceLower, row.referenceUpper, row.unit], ['30', '400', 'µg/L']);
+});
+
+test('dates under a text header date the values of each line', () => {
+  const text = 'Testen Resultaten Vorige\n01/11/2025 12/03/2026\nFerritine 45 31 30 - 400 µg/L';
+  const [row] = parseLabReport(text).rows;
+
+  assert.deepEqual(row.results, [{ value: '31', date: '2026-03-12' }, { value: '45', date: '2025-11-01' }]);
+});
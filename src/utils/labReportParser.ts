@@ -0,0 +1,413 @@
+import { LabResultField, LabResultRow, ResultField } from '../components/LabResultsTemplate';
+import { OcrWord } from '../types/ocr';
+import { lowestConfidence } from './confidence';
+import { unionBox } from './tableReconstruction';
+import { isResultField, parseSampleDate, resultField, resultIndex, sortNewestFirst } from './resultSeries';
+import { formatSectionName, isSectionHeader } from './sections';
+
+// A line the parser looked at but could not turn into a row
+export interface UnparsedLine {
+  lineNumber: number;
+  text: string;
+  reason: string;
+}
+
+export interface LabReportParseResult {
+  rows: LabResultRow[];
+  unparsedLines: UnparsedLine[];
+  headerFound: boolean;
+}
+
+type ColumnField = Exclude<LabResultField, 'comments'>;
+
+interface ColumnAnchor {
+  field: ColumnField;
+  x0: number;
+  x1: number;
+  // Sample date of a result column, from the dates printed under the header
+  date?: string;
+}
+
+interface WordLine {
+  pageNumber: number;
+  words: OcrWord[];
+  text: string;
+}
+
+// Header words of the "Testen / Resultaten / Vorige resultaten / Onderl. / Bovenl. / Eenheden" layout
+const HEADER_FIELDS: { field: ColumnField; pattern: RegExp }[] = [
+  { field: 'testName', pattern: /^Testen$/i },
+  { field: resultField(0), pattern: /^Resultaten$/i },
+  { field: resultField(1), pattern: /^Vorige$/i },
+  { field: 'referenceLower', pattern: /^Onderl\.?$/i },
+  { field: 'referenceUpper', pattern: /^Bovenl\.?$/i },
+  { field: 'unit', pattern: /^Eenheden$/i },
+];
+
+const SINGLE_LINE_HEADER = /Testen.*Resultaten/i;
+const DATE_LINE = /^\s*(\d{1,2}\/\d{1,2}\/\d{2,4}\s*)+$/;
+const DATE_TOKEN = /\d{1,2}\/\d{1,2}\/\d{2,4}/g;
+const PAGE_FOOTER = /^(?:blz|pagina|page)\b/i;
+const NUMERIC_VALUE = /^[<>≤≥]?=?\d+(?:[.,]\d+)?$/;
+const QUALITATIVE_VALUE = /^(?:neg(?:atief|ative)?|pos(?:itief|itive)?|spoor|trace)\.?$/i;
+const RANGE_VALUE = /^(\d+(?:[.,]\d+)?)\s*[-–]\s*(\d+(?:[.,]\d+)?)$/;
+const RANGE_SEPARATOR = /^[-–]$/;
+// One half of a range whose separator sticks to a bound ("135 -145", "135- 145")
+const RANGE_HALF = /^(?:[-–]\d+(?:[.,]\d+)?|\d+(?:[.,]\d+)?[-–])$/;
+// Abnormal-value markers some labs print next to the result
+const RESULT_FLAG = /^(?:[*+↑↓]+|H|L|HH|LL)$/;
+
+const emptyRow = (): LabResultRow => ({
+  testName: '',
+  results: [],
+  referenceLower: '',
+  referenceUpper: '',
+  unit: '',
+  comments: ''
+});
+
+/**
+ * Repairs the usual OCR confusions inside something that should be a number
+ * (O for 0, l or I for 1) without touching real words
+ */
+export const normalizeNumericToken = (token: string): string => {
+  const candidate = token.trim();
+  if (!/\d/.test(candidate) || !/^[<>≤≥]?=?[\dOoIl|]+(?:[.,][\dOoIl|]+)?[*]?$/.test(candidate)) {
+    return candidate;
+  }
+  return candidate.replace(/[Oo]/g, '0').replace(/[Il|]/g, '1').replace(/\*$/, '');
+};
+
+const isValueToken = (token: string): boolean =>
+  NUMERIC_VALUE.test(token) || QUALITATIVE_VALUE.test(token) || RANGE_VALUE.test(token);
+
+// Splits "<5" and ">60" into the bound they describe
+const applyOneSidedBound = (row: LabResultRow, token: string): boolean => {
+  const match = token.match(/^([<>≤≥])=?(\d+(?:[.,]\d+)?)$/);
+  if (!match) return false;
+  if (match[1] === '<' || match[1] === '≤') {
+    row.referenceUpper = match[2];
+  } else {
+    row.referenceLower = match[2];
+  }
+  return true;
+};
+
+/**
+ * Parses a single text line of the form "name value [earlier values] [lower] [-] [upper] [unit]"
+ * @param dates Sample dates of the result columns in printed order, from the date line under the header
+ * @returns The parsed row, or a reason the line was rejected
+ */
+export const parseTextLine = (line: string, dates: string[] = []): { row: LabResultRow } | { reason: string } => {
+  const tokens = line.trim().split(/\s+/).map(normalizeNumericToken);
+  const firstValue = tokens.findIndex((token, index) => index > 0 && isValueToken(token));
+
+  if (firstValue === -1) {
+    return { reason: /\d/.test(line) ? 'Could not separate test name from values' : 'No result value found' };
+  }
+
+  const name = tokens.slice(0, firstValue).join(' ');
+  if (!/\p{L}/u.test(name)) {
+    return { reason: 'Test name contains no letters' };
+  }
+
+  const row = emptyRow();
+  row.testName = name;
+
+  const values: string[] = [];
+  let unitStart = tokens.length;
+  for (let i = firstValue; i < tokens.length; i++) {
+    const token = tokens[i];
+    if (isValueToken(token) || RANGE_SEPARATOR.test(token) || RANGE_HALF.test(token)) {
+      values.push(token);
+    } else if (RESULT_FLAG.test(token)) {
+      continue;
+    } else {
+      unitStart = i;
+      break;
+    }
+  }
+  row.unit = tokens.slice(unitStart).join(' ');
+
+  // An explicit range ("12,0 - 16,0" or "12,0-16,0") pins down the reference bounds
+  const joined = values.join(' ').replace(/\s*([-–])\s*/g, '$1');
+  const rangeMatch = joined.match(/(?:^|\s)(\d+(?:[.,]\d+)?)[-–](\d+(?:[.,]\d+)?)$/);
+  let results = joined.split(/\s+/).filter(Boolean);
+  if (rangeMatch) {
+    row.referenceLower = rangeMatch[1];
+    row.referenceUpper = rangeMatch[2];
+    results = joined.slice(0, rangeMatch.index).split(/\s+/).filter(Boolean);
+  } else if (results.length > 1 && applyOneSidedBound(row, results[results.length - 1])) {
+    results = results.slice(0, -1);
+  } else if (results.length >= 4) {
+    row.referenceUpper = results[results.length - 1];
+    row.referenceLower = results[results.length - 2];
+    results = results.slice(0, -2);
+  } else if (results.length === 3) {
+    row.referenceUpper = results[2];
+    row.referenceLower = results[1];
+    results = results.slice(0, 1);
+  }
+
+  if (results.length === 0) {
+    return { reason: 'Only reference values found, no result' };
+  }
+  row.results = sortNewestFirst(results.map((value, index) => ({ value, date: dates[index] ?? '' })));
+
+  return { row };
+};
+
+// Groups words into lines per page using their vertical centres
+const groupWordsIntoLines = (words: OcrWord[]): WordLine[] => {
+  const heights = words.map(w => w.bbox.y1 - w.bbox.y0).sort((a, b) => a - b);
+  const medianHeight = heights[Math.floor(heights.length / 2)] || 10;
+  const tolerance = medianHeight * 0.6;
+
+  const byPage = new Map<number, OcrWord[]>();
+  words.forEach(word => {
+    const page = word.pageNumber ?? 1;
+    if (!byPage.has(page)) byPage.set(page, []);
+    byPage.get(page)!.push(word);
+  });
+
+  const lines: WordLine[] = [];
+  Array.from(byPage.keys()).sort((a, b) => a - b).forEach(pageNumber => {
+    const pageLines: { y: number; words: OcrWord[] }[] = [];
+    byPage.get(pageNumber)!
+      .filter(word => word.text.trim())
+      .sort((a, b) => a.bbox.y0 - b.bbox.y0)
+      .forEach(word => {
+        const midY = (word.bbox.y0 + word.bbox.y1) / 2;
+        const line = pageLines.find(l => Math.abs(l.y - midY) < tolerance);
+        if (line) {
+          line.words.push(word);
+          line.y = (line.y * (line.words.length - 1) + midY) / line.words.length;
+        } else {
+          pageLines.push({ y: midY, words: [word] });
+        }
+      });
+
+    pageLines
+      .sort((a, b) => a.y - b.y)
+      .forEach(line => {
+        const sorted = line.words.sort((a, b) => a.bbox.x0 - b.bbox.x0);
+        lines.push({ pageNumber, words: sorted, text: sorted.map(w => w.text).join(' ') });
+      });
+  });
+
+  return lines;
+};
+
+const findHeaderAnchors = (line: WordLine): ColumnAnchor[] | null => {
+  const anchors: ColumnAnchor[] = [];
+  HEADER_FIELDS.forEach(({ field, pattern }) => {
+    const word = line.words.find(w => pattern.test(w.text.trim()));
+    if (word) {
+      anchors.push({ field, x0: word.bbox.x0, x1: word.bbox.x1 });
+    }
+  });
+
+  const hasCore = anchors.some(a => a.field === 'testName') && anchors.some(a => a.field === resultField(0));
+  return hasCore ? anchors.sort((a, b) => a.x0 - b.x0) : null;
+};
+
+/**
+ * Replaces the result columns of the header with one column per date printed under it,
+ * numbered newest first, so reports with three or four result columns are read completely
+ */
+const withDateAnchors = (anchors: ColumnAnchor[], line: WordLine): ColumnAnchor[] => {
+  const dated = line.words
+    .map(word => ({ word, date: parseSampleDate(word.text) }))
+    .filter(({ date }) => date);
+  if (dated.length === 0) return anchors;
+  const newestFirst = [...dated].sort((a, b) => b.date.localeCompare(a.date));
+  const dateAnchors = dated.map(({ word, date }) => ({
+    field: resultField(newestFirst.findIndex(entry => entry.word === word)),
+    x0: word.bbox.x0,
+    x1: word.bbox.x1,
+    date
+  }));
+  return [...anchors.filter(anchor => !isResultField(anchor.field)), ...dateAnchors].sort((a, b) => a.x0 - b.x0);
+};
+
+// Assigns a word to the column whose span (from header to header) contains its centre
+const columnForWord = (word: OcrWord, anchors: ColumnAnchor[]): ColumnField => {
+  const centre = (word.bbox.x0 + word.bbox.x1) / 2;
+  for (let i = anchors.length - 1; i > 0; i--) {
+    const boundary = (anchors[i - 1].x1 + anchors[i].x0) / 2;
+    if (centre >= boundary) {
+      return anchors[i].field;
+    }
+  }
+  return anchors[0].field;
+};
+
+const parseColumnLine = (line: WordLine, anchors: ColumnAnchor[], dates: string[]): { row: LabResultRow } | { reason: string } => {
+  const cells: Partial<Record<ColumnField, string[]>> = {};
+  const cellWords: Partial<Record<ColumnField, OcrWord[]>> = {};
+  line.words.forEach(word => {
+    const field = columnForWord(word, anchors);
+    cells[field] = [...(cells[field] ?? []), word.text.trim()];
+    cellWords[field] = [...(cellWords[field] ?? []), word];
+  });
+
+  const cell = (field: ColumnField): string =>
+    (cells[field] ?? []).filter(token => !RESULT_FLAG.test(token)).map(normalizeNumericToken).join(' ');
+
+  const row = emptyRow();
+  row.testName = (cells.testName ?? []).join(' ');
+  const resultAnchors = anchors
+    .filter((anchor): anchor is ColumnAnchor & { field: ResultField } => isResultField(anchor.field))
+    .sort((a, b) => resultIndex(a.field) - resultIndex(b.field));
+  row.results = resultAnchors.map(anchor => ({ value: cell(anchor.field), date: anchor.date ?? '' }));
+  row.referenceLower = cell('referenceLower');
+  row.referenceUpper = cell('referenceUpper');
+  row.unit = (cells.unit ?? []).join(' ');
+
+  // A range printed across the lower/upper columns ends up in one cell
+  const range = row.referenceLower.match(RANGE_VALUE) ?? row.referenceUpper.match(RANGE_VALUE);
+  if (range) {
+    row.referenceLower = range[1];
+    row.referenceUpper = range[2];
+  } else {
+    row.referenceLower = row.referenceLower.replace(/\s*[-–]\s*$/, '');
+    row.referenceUpper = row.referenceUpper.replace(/^\s*[-–]\s*/, '');
+  }
+
+  // Confidence and source region per cell, for review against the original
+  const metaFor = (words: OcrWord[]) => {
+    const confidence = lowestConfidence(words);
+    return {
+      ...(confidence !== null && { confidence }),
+      source: { pageNumber: line.pageNumber, bbox: unionBox(words.map(word => word.bbox)) }
+    };
+  };
+  const cellMeta: NonNullable<LabResultRow['cellMeta']> = {};
+  (Object.keys(cellWords) as ColumnField[]).forEach(field => {
+    cellMeta[field] = metaFor(cellWords[field] ?? []);
+  });
+  if (range) {
+    // Both bounds came from the same cell
+    const rangeMeta = metaFor([...(cellWords.referenceLower ?? []), ...(cellWords.referenceUpper ?? [])]);
+    cellMeta.referenceLower = rangeMeta;
+    cellMeta.referenceUpper = { ...rangeMeta };
+  }
+  row.cellMeta = cellMeta;
+
+  if (!row.testName) {
+    return { reason: 'No test name in the Testen column' };
+  }
+  // A test may be missing from the newest sample and still have earlier results
+  const firstResult = row.results.find(result => result.value)?.value;
+  if (!firstResult) {
+    // Fall back to token parsing when the columns do not line up
+    return parseTextLine(line.text, dates);
+  }
+  if (!isValueToken(firstResult.split(/\s+/)[0])) {
+    return { reason: `Result "${firstResult}" is not a value` };
+  }
+  return { row };
+};
+
+const parseWithWords = (words: OcrWord[]): LabReportParseResult | null => {
+  const lines = groupWordsIntoLines(words);
+  const rows: LabResultRow[] = [];
+  const unparsedLines: UnparsedLine[] = [];
+  let anchors: ColumnAnchor[] | null = null;
+  let dates: string[] = [];
+  // The panel heading the following rows are printed under
+  let section = '';
+  let headerFound = false;
+
+  lines.forEach((line, index) => {
+    const headerAnchors = findHeaderAnchors(line);
+    if (headerAnchors) {
+      // Every page may repeat the header, possibly at a slightly different position
+      anchors = headerAnchors;
+      dates = [];
+      headerFound = true;
+      return;
+    }
+    if (!anchors) return;
+
+    const text = line.text.trim();
+    if (DATE_LINE.test(text)) {
+      // The dates under the header mark the result columns and when each sample was taken
+      anchors = withDateAnchors(anchors, line);
+      dates = text.match(DATE_TOKEN)!.map(parseSampleDate);
+      return;
+    }
+    if (!text || PAGE_FOOTER.test(text) || /^Resultaten$/i.test(text)) return;
+    if (isSectionHeader(text)) {
+      section = formatSectionName(text);
+      return;
+    }
+
+    const parsed = parseColumnLine(line, anchors, dates);
+    if ('row' in parsed) {
+      rows.push(section ? { ...parsed.row, section } : parsed.row);
+    } else {
+      unparsedLines.push({ lineNumber: index + 1, text, reason: parsed.reason });
+    }
+  });
+
+  return headerFound ? { rows, unparsedLines, headerFound } : null;
+};
+
+const parseWithText = (text: string): LabReportParseResult => {
+  const lines = text.split('\n');
+  const rows: LabResultRow[] = [];
+  const unparsedLines: UnparsedLine[] = [];
+
+  // The header is either on one line or split into "Testen" and "Resultaten" lines
+  let headerIndex = lines.findIndex(line => SINGLE_LINE_HEADER.test(line));
+  if (headerIndex === -1) {
+    headerIndex = lines.findIndex(line => /^\s*Resultaten\s*$/i.test(line));
+  }
+  const headerFound = headerIndex !== -1;
+  // Sample dates of the result columns, in printed order
+  let dates: string[] = [];
+  let section = '';
+
+  lines.forEach((rawLine, index) => {
+    const line = rawLine.trim();
+    if (index <= headerIndex || !line) return;
+    if (DATE_LINE.test(line)) {
+      dates = line.match(DATE_TOKEN)!.map(parseSampleDate);
+      return;
+    }
+    if (/^(Testen|Resultaten|Vorige resultaten|Onderl\.?|Bovenl\.?|Eenheden)$/i.test(line)) return;
+    if (isSectionHeader(line)) {
+      section = formatSectionName(line);
+      return;
+    }
+    if (PAGE_FOOTER.test(line)) return;
+
+    const parsed = parseTextLine(line, dates);
+    if ('row' in parsed) {
+      rows.push(section ? { ...parsed.row, section } : parsed.row);
+    } else if (headerFound || /\d/.test(line)) {
+      // Without a header only lines that could hold values are worth reporting
+      unparsedLines.push({ lineNumber: index + 1, text: line, reason: parsed.reason });
+    }
+  });
+
+  return { rows, unparsedLines, headerFound };
+};
+
+/**
+ * Parses a Dutch lab report into template rows
+ * @param text The OCR text of the report
+ * @param words Recognised words with bounding boxes; when they contain the table header the
+ *   columns are read by position, otherwise each text line is split into tokens
+ * @returns The parsed rows and every line that could not be parsed, with the reason
+ */
+export const parseLabReport = (text: string, words: OcrWord[] = []): LabReportParseResult => {
+  if (words.length > 0) {
+    const positional = parseWithWords(words);
+    if (positional) {
+      return positional;
+    }
+  }
+  return parseWithText(text);
+};
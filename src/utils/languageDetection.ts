@@ -0,0 +1,25 @@
+import { OcrLanguage } from '../config/ocrLanguages';
+
+// Frequent function words plus words typical of a lab report header, per language
+const LANGUAGE_WORDS: Record<OcrLanguage, string[]> = {
+  nld: ['de', 'het', 'een', 'van', 'en', 'is', 'voor', 'met', 'niet', 'bij', 'uitslag', 'uitslagen', 'resultaten', 'testen', 'patiënt', 'geboortedatum', 'aanvrager', 'eenheden', 'vorige', 'referentie', 'bloed'],
+  eng: ['the', 'and', 'of', 'to', 'in', 'is', 'for', 'with', 'not', 'by', 'result', 'results', 'test', 'patient', 'date', 'birth', 'requested', 'units', 'previous', 'reference', 'blood'],
+  fra: ['le', 'la', 'les', 'des', 'du', 'et', 'pour', 'avec', 'pas', 'par', 'résultat', 'résultats', 'analyse', 'patient', 'naissance', 'prescripteur', 'unités', 'antérieur', 'référence', 'sang'],
+  deu: ['der', 'die', 'das', 'und', 'ist', 'für', 'mit', 'nicht', 'von', 'zu', 'ergebnis', 'ergebnisse', 'befund', 'patient', 'geburtsdatum', 'einsender', 'einheit', 'vorwert', 'referenzbereich', 'blut']
+};
+
+/**
+ * Guesses the language of a page by counting typical words
+ * @param text Text of the first page
+ * @returns The best scoring language, or null when too few words were recognised
+ */
+export const detectLanguage = (text: string): OcrLanguage | null => {
+  const words = text.toLowerCase().split(/[^\p{L}]+/u).filter(Boolean);
+  const scores = (Object.keys(LANGUAGE_WORDS) as OcrLanguage[]).map(language => {
+    const vocabulary = new Set(LANGUAGE_WORDS[language]);
+    return { language, score: words.filter(word => vocabulary.has(word)).length };
+  });
+  const [best, runnerUp] = scores.sort((a, b) => b.score - a.score);
+  // "patient" is shared, so a single hit or a tie says nothing
+  return best.score >= 2 && best.score > runnerUp.score ? best.language : null;
+};
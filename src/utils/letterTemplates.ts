@@ -0,0 +1,174 @@
+import { LabResultRow } from '../components/LabResultsTemplate';
+import { PracticeSettings } from '../config/settings';
+import { AnalysisFinding } from './analysisFindings';
+import { evaluateRow, RowEvaluation } from './rangeEvaluation';
+import { currentResult, formatSampleDate, newestSampleDate } from './resultSeries';
+import { groupSections } from './sections';
+
+export type LetterTemplate = 'normal' | 'follow-up' | 'urgent';
+export type LetterLanguage = 'nl' | 'en';
+export type ReadingLevel = 'plain' | 'standard';
+
+export interface LetterOptions {
+  template: LetterTemplate;
+  language: LetterLanguage;
+  readingLevel: ReadingLevel;
+  // Set when the sample date is known, so the letter names it through the sample date placeholder
+  mentionSampleDate?: boolean;
+}
+
+export const LETTER_TEMPLATES: { value: LetterTemplate; label: string }[] = [
+  { value: 'normal', label: 'Normal results' },
+  { value: 'follow-up', label: 'Follow-up needed' },
+  { value: 'urgent', label: 'Urgent' }
+];
+
+export const LETTER_LANGUAGES: { value: LetterLanguage; label: string }[] = [
+  { value: 'nl', label: 'Nederlands' },
+  { value: 'en', label: 'English' }
+];
+
+export const READING_LEVELS: { value: ReadingLevel; label: string }[] = [
+  { value: 'plain', label: 'Plain language' },
+  { value: 'standard', label: 'Standard' }
+];
+
+// Placeholders left in generated letters and filled locally from the practice settings and the report
+export const LETTER_PLACEHOLDERS = {
+  practiceName: '[PRACTICE_NAME]',
+  physicianName: '[PHYSICIAN_NAME]',
+  signature: '[SIGNATURE]',
+  sampleDate: '[SAMPLE_DATE]'
+};
+
+interface LetterText {
+  salutation: string;
+  intro: Record<LetterTemplate, string>;
+  sampled: string;
+  resultsHeading: string;
+  noAbnormal: string;
+  high: Record<ReadingLevel, string>;
+  low: Record<ReadingLevel, string>;
+  reference: string;
+  previously: string;
+  closing: Record<LetterTemplate, string>;
+}
+
+const TEXT: Record<LetterLanguage, LetterText> = {
+  nl: {
+    salutation: 'Beste patiënt,',
+    intro: {
+      'normal': 'Wij hebben de resultaten van uw recente bloedonderzoek bekeken. Goed nieuws: de uitslagen zijn in orde.',
+      'follow-up': 'Wij hebben de resultaten van uw recente bloedonderzoek bekeken. Een aantal waarden wijkt af; deze willen wij graag met u bespreken.',
+      'urgent': 'Wij hebben de resultaten van uw recente bloedonderzoek bekeken. Een aantal waarden vraagt snel aandacht.'
+    },
+    sampled: `Het bloed is afgenomen op ${LETTER_PLACEHOLDERS.sampleDate}.`,
+    resultsHeading: 'Deze waarden vallen buiten het normale gebied:',
+    noAbnormal: 'Alle gemeten waarden vallen binnen het normale gebied.',
+    high: { plain: 'hoger dan normaal', standard: 'verhoogd' },
+    low: { plain: 'lager dan normaal', standard: 'verlaagd' },
+    reference: 'normaal',
+    previously: 'eerder',
+    closing: {
+      'normal': 'U hoeft hiervoor niets te doen. Heeft u toch vragen, neem dan gerust contact met ons op.',
+      'follow-up': 'Wilt u een afspraak maken om de uitslagen te bespreken? U kunt hiervoor de praktijk bellen.',
+      'urgent': 'Neem zo snel mogelijk, liefst vandaag nog, contact op met de praktijk.'
+    }
+  },
+  en: {
+    salutation: 'Dear patient,',
+    intro: {
+      'normal': 'We have reviewed the results of your recent blood test. Good news: your results are fine.',
+      'follow-up': 'We have reviewed the results of your recent blood test. Some values are outside the normal range and we would like to discuss them with you.',
+      'urgent': 'We have reviewed the results of your recent blood test. Some values need prompt attention.'
+    },
+    sampled: `Your blood sample was taken on ${LETTER_PLACEHOLDERS.sampleDate}.`,
+    resultsHeading: 'These values are outside the normal range:',
+    noAbnormal: 'All measured values are within the normal range.',
+    high: { plain: 'higher than normal', standard: 'elevated' },
+    low: { plain: 'lower than normal', standard: 'decreased' },
+    reference: 'normal',
+    previously: 'previously',
+    closing: {
+      'normal': 'You do not need to do anything. If you have any questions, please contact us.',
+      'follow-up': 'Please make an appointment to discuss these results. You can call the practice to arrange this.',
+      'urgent': 'Please contact the practice as soon as possible, preferably today.'
+    }
+  }
+};
+
+/**
+ * Suggests a template from the findings: severe findings are urgent, any finding needs follow-up
+ */
+export const suggestLetterTemplate = (findings: AnalysisFinding[]): LetterTemplate => {
+  if (findings.some(f => f.severity === 'severe')) return 'urgent';
+  return findings.length > 0 ? 'follow-up' : 'normal';
+};
+
+/**
+ * Builds a letter from the template rows without a language model, so letters work offline
+ * @param rows The template rows; out-of-range values are listed per report section using the local evaluation
+ * @param options Template, language and reading level
+ * @returns A letter that still contains the practice placeholders
+ */
+export const buildTemplateLetter = (rows: LabResultRow[], options: LetterOptions): string => {
+  const text = TEXT[options.language];
+  const describeRow = (row: LabResultRow, evaluation: RowEvaluation): string => {
+    const direction = evaluation.status === 'high' ? text.high[options.readingLevel] : text.low[options.readingLevel];
+    const value = `${currentResult(row)} ${row.unit}`.trim();
+    if (options.readingLevel === 'plain') {
+      return `- ${row.testName}: ${direction}`;
+    }
+    const range = `${row.referenceLower || '…'} - ${row.referenceUpper || '…'}`;
+    // The most recent earlier value shows whether the result is new
+    const earlier = row.results.slice(1).find(result => result.value.trim());
+    const previously = earlier
+      ? `; ${text.previously} ${earlier.value}${earlier.date ? ` (${formatSampleDate(earlier.date)})` : ''}`
+      : '';
+    return `- ${row.testName}: ${value}, ${direction} (${text.reference} ${range}${previously})`;
+  };
+
+  // Out-of-range values per report section, in the order of the template
+  const groups = groupSections(rows)
+    .map(({ name, rowIndexes }) => ({
+      name,
+      lines: rowIndexes
+        .map(rowIndex => ({ row: rows[rowIndex], evaluation: evaluateRow(rows[rowIndex]) }))
+        .filter(({ evaluation }) => evaluation.status === 'high' || evaluation.status === 'low')
+        .map(({ row, evaluation }) => describeRow(row, evaluation))
+    }))
+    .filter(group => group.lines.length > 0);
+  // A single section needs no heading of its own
+  const blocks = groups.length > 1
+    ? groups.map(group => `${group.name}:\n${group.lines.join('\n')}`)
+    : groups.map(group => group.lines.join('\n'));
+
+  const body = blocks.length > 0 ? `${text.resultsHeading}\n${blocks.join('\n\n')}` : text.noAbnormal;
+
+  return [
+    text.salutation,
+    '',
+    newestSampleDate(rows) ? `${text.intro[options.template]} ${text.sampled}` : text.intro[options.template],
+    '',
+    body,
+    '',
+    text.closing[options.template],
+    '',
+    LETTER_PLACEHOLDERS.signature,
+    LETTER_PLACEHOLDERS.physicianName,
+    LETTER_PLACEHOLDERS.practiceName
+  ].join('\n');
+};
+
+/**
+ * Replaces the placeholders in a letter with the locally configured values and the sample date
+ * @param sampleDate The newest sample date as YYYY-MM-DD, see resultSeries
+ */
+export const fillLetterPlaceholders = (letter: string, practice: PracticeSettings, sampleDate = ''): string =>
+  letter
+    .split(LETTER_PLACEHOLDERS.sampleDate).join(formatSampleDate(sampleDate))
+    .split(LETTER_PLACEHOLDERS.practiceName).join(practice.practiceName)
+    .split(LETTER_PLACEHOLDERS.physicianName).join(practice.physicianName)
+    .split(LETTER_PLACEHOLDERS.signature).join(practice.signature)
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
@@ -0,0 +1,99 @@
+import { PageCorrection, Quad } from '../types/preprocessing';
+import { analyzeTextDirection, detectPageQuad, reduceForAnalysis, warpPerspective } from './geometry';
+import { canvasToGray, canvasToRgba, PageCanvas, rgbaToCanvas, rotateCanvas } from './imageProcessing';
+
+// Tilts smaller than this are left alone; rotating resamples the text
+const MIN_SKEW = 0.3;
+
+export interface CorrectionOptions {
+  // Corners picked by hand, as fractions of the width and height
+  manualQuad?: Quad | null;
+  // Look for a page against a background; only photos have one
+  detectPerspective: boolean;
+}
+
+/**
+ * A strip across the middle of the page, small enough to recognise twice quickly
+ */
+export const orientationSample = (canvas: PageCanvas): OffscreenCanvas => {
+  const ratio = Math.min(1, 1000 / canvas.width);
+  const sample = new OffscreenCanvas(Math.round(canvas.width * ratio), Math.round((canvas.height / 3) * ratio));
+  sample.getContext('2d')!.drawImage(canvas, 0, canvas.height / 3, canvas.width, canvas.height / 3, 0, 0, sample.width, sample.height);
+  return sample;
+};
+
+/**
+ * Flattens a page and turns sideways text across, the part of the correction the ink layout decides
+ * @param canvas The photo or rendered page; it is not changed
+ * @param options Manual corners and whether to look for a page outline
+ * @returns The page (the input canvas when nothing was needed), what was done, and the measured
+ * skew, which finishPage applies once the page is known to be upright
+ */
+export const straightenPage = (
+  canvas: PageCanvas,
+  options: CorrectionOptions
+): { canvas: PageCanvas; correction: PageCorrection; skew: number } => {
+  const correction: PageCorrection = { rotation: 0, skew: 0, perspective: null };
+  let current = canvas;
+
+  // Perspective first, since quarter turns and skew are measured on the flattened page
+  if (options.manualQuad) {
+    const quad = options.manualQuad.map(({ x, y }) => ({ x: x * canvas.width, y: y * canvas.height })) as Quad;
+    current = rgbaToCanvas(warpPerspective(canvasToRgba(current), quad));
+    correction.perspective = 'manual';
+  } else if (options.detectPerspective) {
+    const { image, factor } = reduceForAnalysis(canvasToGray(current), 400);
+    const quad = detectPageQuad(image);
+    if (quad) {
+      const fullQuad = quad.map(({ x, y }) => ({ x: x / factor, y: y / factor })) as Quad;
+      current = rgbaToCanvas(warpPerspective(canvasToRgba(current), fullQuad));
+      correction.perspective = 'auto';
+    }
+  }
+
+  let direction = analyzeTextDirection(reduceForAnalysis(canvasToGray(current), 1000).image);
+  if (direction.vertical) {
+    current = rotateCanvas(current, 90);
+    correction.rotation = 90;
+    direction = analyzeTextDirection(reduceForAnalysis(canvasToGray(current), 1000).image);
+  }
+
+  return { canvas: current, correction, skew: direction.skew };
+};
+
+/**
+ * Turns a straightened page the right way up and levels it
+ * @param upsideDown Whether recognising the orientation sample found the page upside down
+ * @returns The finished page and the completed correction
+ */
+export const finishPage = (
+  canvas: PageCanvas,
+  correction: PageCorrection,
+  skew: number,
+  upsideDown: boolean
+): { canvas: PageCanvas; correction: PageCorrection } => {
+  let current = canvas;
+  const finished = { ...correction };
+  if (upsideDown) {
+    current = rotateCanvas(current, 180);
+    // A half turn keeps the slope of the lines, so the measured skew still applies
+    finished.rotation = correction.rotation === 90 ? 270 : 180;
+  }
+  if (Math.abs(skew) >= MIN_SKEW) {
+    current = rotateCanvas(current, -skew);
+    finished.skew = Math.round(skew * 10) / 10;
+  }
+  return { canvas: current, correction: finished };
+};
+
+/**
+ * Describes a correction for the status display, or null when the page was used as it was
+ */
+export const describeCorrection = (correction: PageCorrection): string | null => {
+  const parts = [
+    correction.perspective && `perspective ${correction.perspective === 'manual' ? 'cropped by hand' : 'corrected'}`,
+    correction.rotation !== 0 && `rotated ${correction.rotation}°`,
+    correction.skew !== 0 && `deskewed ${correction.skew}°`
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(', ') : null;
+};
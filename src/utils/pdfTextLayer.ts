@@ -0,0 +1,95 @@
+import { Util } from 'pdfjs-dist';
+import type { PDFPageProxy, PageViewport } from 'pdfjs-dist';
+import type { TextItem } from 'pdfjs-dist/types/src/display/api';
+import { OcrWord } from '../types/ocr';
+
+export interface PdfTextLayer {
+  text: string;
+  words: OcrWord[];
+}
+
+// A page counts as digital when it has at least this many words and little unreadable text
+const MIN_WORDS = 5;
+const MIN_READABLE_RATIO = 0.9;
+
+// Private-use and replacement characters appear when a font has no Unicode mapping
+const UNREADABLE_CHAR = /[\uE000-\uF8FF\uFFFD\u0000-\u0008]/u;
+
+/**
+ * Splits one text item into words, spreading the item width over its characters
+ */
+const itemToWords = (item: TextItem, viewport: PageViewport, pageNumber: number): OcrWord[] => {
+  // Map the glyph matrix into viewport pixels, the same space the OCR boxes use
+  const [, , c, d, x, y] = Util.transform(viewport.transform, item.transform) as number[];
+  const fontHeight = Math.hypot(c, d);
+  const width = item.width * viewport.scale;
+  const charWidth = item.str.length > 0 ? width / item.str.length : 0;
+
+  const words: OcrWord[] = [];
+  for (const match of item.str.matchAll(/\S+/g)) {
+    const x0 = x + match.index * charWidth;
+    words.push({
+      text: match[0],
+      bbox: { x0, x1: x0 + match[0].length * charWidth, y0: y - fontHeight, y1: y },
+      pageNumber,
+      confidence: 100
+    });
+  }
+  return words;
+};
+
+// Rebuilds plain text lines from word boxes; wide gaps become double spaces like Tesseract's output
+const wordsToText = (words: OcrWord[]): string => {
+  const lines: { y: number; height: number; words: OcrWord[] }[] = [];
+
+  words.forEach(word => {
+    const height = word.bbox.y1 - word.bbox.y0;
+    const midY = (word.bbox.y0 + word.bbox.y1) / 2;
+    const line = lines.find(l => Math.abs(l.y - midY) < Math.max(l.height, height) / 2);
+    if (line) {
+      line.words.push(word);
+    } else {
+      lines.push({ y: midY, height, words: [word] });
+    }
+  });
+
+  return lines
+    .sort((a, b) => a.y - b.y)
+    .map(line => {
+      const sorted = line.words.sort((a, b) => a.bbox.x0 - b.bbox.x0);
+      return sorted
+        .map((word, index) => {
+          if (index === 0) return word.text;
+          const gap = word.bbox.x0 - sorted[index - 1].bbox.x1;
+          return (gap > line.height ? '  ' : ' ') + word.text;
+        })
+        .join('');
+    })
+    .join('\n');
+};
+
+/**
+ * Reads the embedded text of a PDF page as word boxes in viewport coordinates
+ * @param page The pdf.js page
+ * @param viewport The viewport the page would be rendered at for OCR
+ * @param pageNumber 1-based page number stored on each word
+ * @returns The page text and words, or null when the page has no usable text layer
+ */
+export const extractPdfTextLayer = async (
+  page: PDFPageProxy,
+  viewport: PageViewport,
+  pageNumber: number
+): Promise<PdfTextLayer | null> => {
+  const content = await page.getTextContent();
+  const words = content.items
+    .filter((item): item is TextItem => 'str' in item && item.str.trim() !== '')
+    .flatMap(item => itemToWords(item, viewport, pageNumber));
+
+  const characters = words.flatMap(word => Array.from(word.text));
+  const unreadable = characters.filter(char => UNREADABLE_CHAR.test(char)).length;
+  if (words.length < MIN_WORDS || characters.length === 0 || 1 - unreadable / characters.length < MIN_READABLE_RATIO) {
+    return null;
+  }
+
+  return { text: wordsToText(words), words };
+};
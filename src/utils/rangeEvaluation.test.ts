@@ -0,0 +1,80 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { LabResultRow } from '../components/LabResultsTemplate';
+import { evaluateRow, parseLabValue } from './rangeEvaluation';
+
+const row = (result: string, referenceLower: string, referenceUpper: string): LabResultRow => ({
+  testName: 'Test',
+  results: [{ value: result, date: '' }],
+  referenceLower,
+  referenceUpper,
+  unit: '',
+  comments: ''
+});
+
+const status = (result: string, lower: string, upper: string) => evaluateRow(row(result, lower, upper)).status;
+
+test('parseLabValue reads comma decimals and thousands separators', () => {
+  assert.deepEqual(parseLabValue('4,3'), { kind: 'numeric', value: 4.3, qualifier: null });
+  assert.deepEqual(parseLabValue('1.234,5'), { kind: 'numeric', value: 1234.5, qualifier: null });
+  assert.deepEqual(parseLabValue('1,234.5'), { kind: 'numeric', value: 1234.5, qualifier: null });
+  assert.equal(parseLabValue('zie opmerking'), null);
+});
+
+test('parseLabValue reads qualifiers and qualitative results', () => {
+  assert.deepEqual(parseLabValue('<5'), { kind: 'numeric', value: 5, qualifier: '<' });
+  assert.deepEqual(parseLabValue('>60'), { kind: 'numeric', value: 60, qualifier: '>' });
+  assert.deepEqual(parseLabValue('≤0,5'), { kind: 'numeric', value: 0.5, qualifier: '<=' });
+  assert.deepEqual(parseLabValue('neg.'), { kind: 'qualitative', value: 'negative' });
+  assert.deepEqual(parseLabValue('pos.'), { kind: 'qualitative', value: 'positive' });
+});
+
+test('comma decimals are compared as numbers', () => {
+  assert.equal(status('4,3', '3,5', '5,1'), 'normal');
+  assert.equal(status('5,2', '3,5', '5,1'), 'high');
+  assert.equal(status('1.234,5', '0', '1.000'), 'high');
+});
+
+test('qualified results are judged by what they can be', () => {
+  assert.equal(status('<5', '', '5'), 'normal');
+  assert.equal(status('<5', '10', '50'), 'low');
+  assert.equal(status('>60', '60', ''), 'normal');
+  assert.equal(status('>60', '0', '45'), 'high');
+  // ">60" may lie on either side of 90
+  assert.equal(status('>60', '0', '90'), 'unparseable');
+});
+
+test('qualitative results are expected negative unless the reference says positive', () => {
+  assert.equal(status('neg.', '', ''), 'normal');
+  assert.equal(status('pos.', '', ''), 'high');
+  assert.equal(status('pos.', 'pos', ''), 'normal');
+});
+
+test('one-sided ranges use the bound that is given, also in the other column', () => {
+  assert.equal(status('3', '', '5'), 'normal');
+  assert.equal(status('7', '', '5'), 'high');
+  assert.equal(status('55', '>60', ''), 'low');
+  // "<5" printed in the lower column is still an upper limit
+  assert.equal(status('7', '<5', ''), 'high');
+  assert.equal(status('4', '12,0 - 16,0', ''), 'low');
+});
+
+test('rows without bounds or result are not evaluated', () => {
+  assert.deepEqual(evaluateRow(row('7', '', '')), {
+    status: 'unparseable', value: { kind: 'numeric', value: 7, qualifier: null }, lower: null, upper: null, deviation: null, deviationPercent: null, reason: 'No reference range'
+  });
+  assert.equal(evaluateRow(row('', '1', '2')).reason, 'No result');
+  assert.equal(evaluateRow(row('hemolytisch', '1', '2')).reason, 'Result is not a recognised value');
+});
+
+test('deviation is measured from the crossed bound', () => {
+  const high = evaluateRow(row('80', '0', '45'));
+  assert.deepEqual([high.deviation, high.deviationPercent], [35, 77.78]);
+  const low = evaluateRow(row('7,2', '8,5', '11,0'));
+  assert.deepEqual([low.deviation, low.deviationPercent], [-1.3, -15.29]);
+  // A bound of zero has no percentage
+  const aboveZero = evaluateRow(row('2', '', '0'));
+  assert.deepEqual([aboveZero.status, aboveZero.deviation, aboveZero.deviationPercent], ['high', 2, null]);
+  const within = evaluateRow(row('9', '8,5', '11'));
+  assert.deepEqual([within.deviation, within.deviationPercent], [0, 0]);
+});
@@ -0,0 +1,227 @@
+import { LabResultRow } from '../components/LabResultsTemplate';
+import { rowAnalyte } from './analytes';
+import { currentResult, describeEarlierResults } from './resultSeries';
+import { LabSection } from './sections';
+
+export type RangeStatus = 'low' | 'normal' | 'high' | 'unparseable';
+
+export type ValueQualifier = '<' | '<=' | '>' | '>=';
+
+export type ParsedLabValue =
+  | { kind: 'numeric'; value: number; qualifier: ValueQualifier | null }
+  | { kind: 'qualitative'; value: 'negative' | 'positive' | 'trace' };
+
+export interface RowEvaluation {
+  status: RangeStatus;
+  value: ParsedLabValue | null;
+  lower: number | null;
+  upper: number | null;
+  // Distance outside the range in the row's unit, positive above and negative below
+  deviation: number | null;
+  // The same distance relative to the bound that was crossed
+  deviationPercent: number | null;
+  reason?: string;
+}
+
+const QUALIFIERS: Record<string, ValueQualifier> = {
+  '<': '<',
+  '≤': '<=',
+  '<=': '<=',
+  '>': '>',
+  '≥': '>=',
+  '>=': '>='
+};
+
+/**
+ * Parses a decimal written with either comma or point, including thousands separators
+ * ("4,3", "4.3", "1.234,5", "250 000")
+ */
+export const parseDecimal = (raw: string): number | null => {
+  let text = raw.trim().replace(/\s(?=\d{3}\b)/g, '');
+  if (!/^[+-]?[\d.,]+$/.test(text) || !/\d/.test(text)) {
+    return null;
+  }
+
+  const lastComma = text.lastIndexOf(',');
+  const lastPoint = text.lastIndexOf('.');
+  if (lastComma !== -1 && lastPoint !== -1) {
+    // Whichever separator comes last is the decimal one
+    const decimal = lastComma > lastPoint ? ',' : '.';
+    const thousands = decimal === ',' ? '.' : ',';
+    text = text.split(thousands).join('').replace(decimal, '.');
+  } else {
+    text = text.replace(',', '.');
+  }
+
+  if ((text.match(/\./g) ?? []).length > 1) {
+    return null;
+  }
+  const value = Number(text);
+  return Number.isFinite(value) ? value : null;
+};
+
+/**
+ * Parses a lab result such as "4,3", "<5", ">60", "neg." or "pos"
+ * @returns The parsed value, or null when the text is not a result
+ */
+export const parseLabValue = (raw: string): ParsedLabValue | null => {
+  const text = raw.trim().replace(/[*↑↓]+$/, '').trim();
+  if (!text) return null;
+
+  if (/^(?:neg(?:atief|ative)?|niet aanwezig|afwezig|absent)\.?$/i.test(text)) {
+    return { kind: 'qualitative', value: 'negative' };
+  }
+  if (/^(?:pos(?:itief|itive)?|aanwezig|present|\++)\.?$/i.test(text)) {
+    return { kind: 'qualitative', value: 'positive' };
+  }
+  if (/^(?:spoor|sporen|trace)\.?$/i.test(text)) {
+    return { kind: 'qualitative', value: 'trace' };
+  }
+
+  const match = text.match(/^(<=|>=|[<>≤≥])?\s*(.+?)\s*$/);
+  if (!match) return null;
+  const value = parseDecimal(match[2]);
+  if (value === null) return null;
+
+  return { kind: 'numeric', value, qualifier: match[1] ? QUALIFIERS[match[1]] : null };
+};
+
+// Reference bounds may carry a qualifier too ("<5" as an upper limit)
+const parseBound = (raw: string): number | null => {
+  const parsed = parseLabValue(raw);
+  return parsed?.kind === 'numeric' ? parsed.value : null;
+};
+
+/**
+ * Parses a range written in one cell, as some reports do ("12,0 - 16,0")
+ */
+export const parseRangeCell = (raw: string): [number, number] | null => {
+  const match = raw.trim().match(/^([\d.,]+)\s*[-–]\s*([\d.,]+)$/);
+  if (!match) return null;
+  const lower = parseDecimal(match[1]);
+  const upper = parseDecimal(match[2]);
+  return lower !== null && upper !== null ? [lower, upper] : null;
+};
+
+const readBounds = (row: LabResultRow): { lower: number | null; upper: number | null } => {
+  const range = parseRangeCell(row.referenceLower) ?? parseRangeCell(row.referenceUpper);
+  if (range) {
+    return { lower: range[0], upper: range[1] };
+  }
+
+  const lowerQualified = parseLabValue(row.referenceLower);
+  const upperQualified = parseLabValue(row.referenceUpper);
+  let lower = parseBound(row.referenceLower);
+  let upper = parseBound(row.referenceUpper);
+
+  // "<5" written in the lower column still means an upper limit, and vice versa
+  if (lowerQualified?.kind === 'numeric' && lowerQualified.qualifier?.startsWith('<') && upper === null) {
+    upper = lower;
+    lower = null;
+  }
+  if (upperQualified?.kind === 'numeric' && upperQualified.qualifier?.startsWith('>') && lower === null) {
+    lower = upper;
+    upper = null;
+  }
+  return { lower, upper };
+};
+
+const round = (value: number): number => Math.round(value * 100) / 100;
+
+const percentOf = (difference: number, bound: number): number | null =>
+  bound === 0 ? null : round((difference / Math.abs(bound)) * 100);
+
+/**
+ * Decides whether a template row's newest result is below, within or above its reference range
+ * @param row The template row to evaluate
+ * @returns The status plus how far outside the range the value lies
+ */
+export const evaluateRow = (row: LabResultRow): RowEvaluation => {
+  const result = currentResult(row);
+  const value = parseLabValue(result);
+  const { lower, upper } = readBounds(row);
+  const base = { value, lower, upper, deviation: null, deviationPercent: null };
+
+  if (!value) {
+    return { ...base, status: 'unparseable', reason: result.trim() ? 'Result is not a recognised value' : 'No result' };
+  }
+
+  if (value.kind === 'qualitative') {
+    // Qualitative tests are expected to be negative unless the reference says otherwise
+    const expectsPositive = /pos/i.test(`${row.referenceLower} ${row.referenceUpper}`);
+    const normal = expectsPositive ? value.value === 'positive' : value.value === 'negative';
+    return { ...base, status: normal ? 'normal' : 'high' };
+  }
+
+  if (lower === null && upper === null) {
+    return { ...base, status: 'unparseable', reason: 'No reference range' };
+  }
+
+  // A qualified result only tells us the value lies somewhere beyond the number
+  const min = value.qualifier?.startsWith('>') ? value.value : value.qualifier ? -Infinity : value.value;
+  const max = value.qualifier?.startsWith('<') ? value.value : value.qualifier ? Infinity : value.value;
+
+  if (upper !== null && (min > upper || (min === upper && value.qualifier === '>'))) {
+    const deviation = round(value.value - upper);
+    return { ...base, status: 'high', deviation, deviationPercent: percentOf(deviation, upper) };
+  }
+  if (lower !== null && (max < lower || (max === lower && value.qualifier === '<'))) {
+    const deviation = round(value.value - lower);
+    return { ...base, status: 'low', deviation, deviationPercent: percentOf(deviation, lower) };
+  }
+  if ((lower === null || min >= lower) && (upper === null || max <= upper)) {
+    return { ...base, status: 'normal', deviation: 0, deviationPercent: 0 };
+  }
+  return { ...base, status: 'unparseable', reason: 'Qualified result overlaps the reference bound' };
+};
+
+export const evaluateRows = (rows: LabResultRow[]): RowEvaluation[] => rows.map(evaluateRow);
+
+// Short human-readable description, e.g. "High (+2.5, +12%)"
+export const describeEvaluation = (evaluation: RowEvaluation): string => {
+  const label = evaluation.status.charAt(0).toUpperCase() + evaluation.status.slice(1);
+  if ((evaluation.status === 'high' || evaluation.status === 'low') && evaluation.deviation !== null) {
+    const sign = evaluation.deviation > 0 ? '+' : '';
+    const percent = evaluation.deviationPercent !== null ? `, ${sign}${evaluation.deviationPercent}%` : '';
+    return `${label} (${sign}${evaluation.deviation}${percent})`;
+  }
+  return evaluation.reason ? `${label}: ${evaluation.reason}` : label;
+};
+
+const formatEvaluationLine = (row: LabResultRow, evaluation: RowEvaluation): string => {
+  const range = `${row.referenceLower || '…'} - ${row.referenceUpper || '…'}`;
+  // The catalogue identity tells the model which test a local or abbreviated name is
+  const analyte = rowAnalyte(row);
+  const identity = analyte ? ` [${analyte.label}, LOINC ${analyte.loinc}]` : '';
+  const sampled = row.results[0]?.date ? ` sampled ${row.results[0].date}` : '';
+  // Earlier values are context for the newest one; only the newest is evaluated
+  const earlier = describeEarlierResults(row);
+  const history = earlier.length > 0 ? `; earlier: ${earlier.join(', ')}` : '';
+  return `- ${row.testName}${identity}: ${currentResult(row)} ${row.unit}${sampled} (reference ${range}) => ${describeEvaluation(evaluation).toUpperCase()}${history}`;
+};
+
+/**
+ * Formats the local evaluation as a block that is sent along with the analysis request
+ * @param sections When given, the lines are grouped under a heading per section that counts its out-of-range results
+ */
+export const formatEvaluationSummary = (
+  rows: LabResultRow[],
+  evaluations: RowEvaluation[],
+  sections: LabSection[] = [{ name: '', rowIndexes: rows.map((_, index) => index) }]
+): string => {
+  const blocks = sections
+    .map(({ name, rowIndexes }) => {
+      const filled = rowIndexes.filter(index => rows[index].testName.trim() || currentResult(rows[index]).trim());
+      if (filled.length === 0) return '';
+      const lines = filled.map(index => formatEvaluationLine(rows[index], evaluations[index])).join('\n');
+      if (!name) return lines;
+      const outOfRange = filled.filter(index => evaluations[index].status === 'high' || evaluations[index].status === 'low').length;
+      return `${name} (${outOfRange} of ${filled.length} out of range):\n${lines}`;
+    })
+    .filter(Boolean);
+
+  if (blocks.length === 0) {
+    return '';
+  }
+  return `Locally evaluated results:\n${blocks.join('\n')}`;
+};
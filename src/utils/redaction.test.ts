@@ -0,0 +1,15 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { redactText } from './redaction';
+
+test('lab lines with a reference range come through unchanged', () => {
+  const text = 'Hemoglobine 14.2 13.5-17.5 g/dL\nLeukocyten 6.1 4.0-10.0 10^9/L\nKalium 4,1 3,5 - 5,1 mmol/L';
+  const { redactedText, entities } = redactText(text);
+  assert.equal(redactedText, text);
+  assert.deepEqual(entities, []);
+});
+
+test('day-first dates are redacted only with a repeated separator and a valid day and month', () => {
+  const { redactedText } = redactText('Afname 12-03-2026, ontvangen 13/03/26, verslag 2026-03-14\nNiet 12.03-2026 of 12-13-2026');
+  assert.equal(redactedText, 'Afname [DATE_1], ontvangen [DATE_2], verslag [DATE_3]\nNiet 12.03-2026 of 12-13-2026');
+});
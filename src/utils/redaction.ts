@@ -0,0 +1,216 @@
+export type RedactionCategory =
+  | 'PATIENT'
+  | 'NAME'
+  | 'ADDRESS'
+  | 'DATE'
+  | 'PHONE'
+  | 'EMAIL'
+  | 'ID'
+  | 'REF'
+  | 'LAB';
+
+// A single detected span of personal information in the source text
+export interface PiiMatch {
+  category: RedactionCategory;
+  start: number;
+  end: number;
+  value: string;
+}
+
+// One distinct value, shared by every span that contains it
+export interface RedactionEntity {
+  placeholder: string;
+  category: RedactionCategory;
+  value: string;
+  occurrences: number;
+  enabled: boolean;
+}
+
+export interface RedactionResult {
+  redactedText: string;
+  entities: RedactionEntity[];
+}
+
+interface Detector {
+  category: RedactionCategory;
+  pattern: RegExp;
+  // Capture group holding the sensitive value; 0 means the whole match
+  group?: number;
+  // Rejects matches the pattern alone cannot rule out
+  accept?: (match: RegExpExecArray) => boolean;
+}
+
+const NAME_WORD = "[\\p{Lu}][\\p{L}'’-]*\\.?";
+const NAME_VALUE = `${NAME_WORD}(?:[ \\t]+${NAME_WORD})*`;
+const STREET_SUFFIXES = 'straat|laan|weg|plein|lei|steenweg|dreef|baan|kaai|markt|singel|gracht|dijk|hof|pad|park|veld|kade|street|road|avenue|lane';
+const MONTHS = 'januari|februari|maart|april|mei|juni|juli|augustus|september|oktober|november|december|january|february|march|may|june|july|august|october';
+
+// Order matters: earlier detectors win when spans overlap
+const DETECTORS: Detector[] = [
+  // Labelled header fields, the value runs until a wide gap or the end of the line
+  { category: 'PATIENT', pattern: /\b(?:Pati[ëe]nt(?:e|naam)?|Naam|Name)[ \t]*:[ \t]*(.+?)(?=[ \t]{2,}|[ \t]+Ref\b|$)/gimu, group: 1 },
+  { category: 'REF', pattern: /\b(?:Ref(?:erentie)?|Staal(?:nummer|nr)?|Aanvraag(?:nummer|nr)?|Dossier(?:nummer|nr)?|Sample(?: ?ID)?)[ \t]*\.?[ \t]*(?:nr\.?|nummer)?[ \t]*:[ \t]*([A-Z0-9][A-Z0-9./-]*)/gi, group: 1 },
+  { category: 'ID', pattern: /\b(?:BSN|INSZ|RRN|Rijksregister(?:nummer)?|Nat(?:ionaal)?\.?[ \t]?(?:nr|nummer)\.?|SSN)[ \t]*:?[ \t]*([0-9][0-9 .-]{6,}[0-9])/gi, group: 1 },
+  { category: 'NAME', pattern: new RegExp(`\\b(?:Dr|Dokter|Arts|Aanvrager|Aanvragende arts|Voorschrijver|Huisarts|Physician)\\.?[ \\t]*:?[ \\t]*((?:Dr\\.?[ \\t]*)?${NAME_VALUE})`, 'gu'), group: 1 },
+  { category: 'EMAIL', pattern: /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/g },
+  // Day-first dates repeat their separator, so reference ranges such as "13.5-17.5" or "4.0-10.0" are not dates
+  {
+    category: 'DATE',
+    pattern: /(?<![\d.,-])(\d{1,2})([/.-])(\d{1,2})\2(\d{2,4})(?![.,-]?\d)/g,
+    accept: match => Number(match[1]) >= 1 && Number(match[1]) <= 31 && Number(match[3]) >= 1 && Number(match[3]) <= 12
+  },
+  { category: 'DATE', pattern: new RegExp(`\\b(?:\\d{4}-\\d{2}-\\d{2}|\\d{1,2}[ \\t]+(?:${MONTHS})[ \\t]+\\d{4})\\b`, 'gi') },
+  // Belgian national register number written with its usual separators
+  { category: 'ID', pattern: /\b\d{2}\.\d{2}\.\d{2}[-. ]\d{3}\.\d{2}\b/g },
+  { category: 'PHONE', pattern: /\b(?:Tel|Telefoon|GSM|Fax|Phone)\.?[ \t]*:?[ \t]*(\+?[0-9][0-9 ()/.-]{6,}[0-9])/gi, group: 1 },
+  { category: 'PHONE', pattern: /(?<![\d.,])(?:\+3[12][ \t]?(?:\(0\))?[ \t]?|0)\d{1,3}(?:[ \t/.-]?\d{2,3}){2,4}(?![\d.,])/g },
+  { category: 'ADDRESS', pattern: new RegExp(`\\b[\\p{Lu}][\\p{L}'’-]*(?:${STREET_SUFFIXES})[ \\t]+\\d+[a-zA-Z]?(?:[ \\t]*(?:bus|/)[ \\t]*\\d+)?`, 'gu') },
+  // Postal code and city, only at the start of a line or after a comma to avoid lab values
+  { category: 'ADDRESS', pattern: /(?:^|(?<=,[ \t]?))[ \t]*((?:[1-9]\d{3}[ \t]?[A-Z]{2}|[1-9]\d{3})[ \t]+[\p{Lu}][\p{L}'’-]+(?:[ -][\p{Lu}][\p{L}'’-]+)*)/gmu, group: 1 },
+  // Lab letterhead lines are redacted whole
+  { category: 'LAB', pattern: /^[^\n]*\b(?:Laborator(?:ium|y)|Labo|Klinisch lab)\b[^\n]*$/gim },
+];
+
+// Words that follow name labels but are not names
+const NAME_STOPWORDS = new Set(['REF', 'DATUM', 'DATE', 'BLZ', 'PAGE', 'TESTEN', 'RESULTATEN']);
+
+const findMatches = (text: string): PiiMatch[] => {
+  const matches: PiiMatch[] = [];
+
+  DETECTORS.forEach(({ category, pattern, group = 0, accept }) => {
+    pattern.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(text)) !== null) {
+      if (match[0].length === 0) {
+        pattern.lastIndex++;
+        continue;
+      }
+      const value = match[group];
+      if (!value || !value.trim() || (accept && !accept(match))) continue;
+      const offset = match.index + match[0].indexOf(value);
+      const trimmed = value.trim();
+      const start = offset + value.indexOf(trimmed);
+      matches.push({ category, start, end: start + trimmed.length, value: trimmed });
+    }
+  });
+
+  return matches;
+};
+
+// Keep the first detector's span wherever two detections overlap
+const removeOverlaps = (matches: PiiMatch[]): PiiMatch[] => {
+  const accepted: PiiMatch[] = [];
+  matches.forEach(match => {
+    const overlaps = accepted.some(other => match.start < other.end && other.start < match.end);
+    if (!overlaps) {
+      accepted.push(match);
+    }
+  });
+  return accepted.sort((a, b) => a.start - b.start);
+};
+
+const PLACEHOLDER_PATTERN = /\[(PATIENT|NAME|ADDRESS|DATE|PHONE|EMAIL|ID|REF|LAB)_(\d+)\]/g;
+
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Names found in a labelled field are also redacted wherever they, or their parts, reappear
+const findNameRepeats = (text: string, matches: PiiMatch[]): PiiMatch[] => {
+  const repeats: PiiMatch[] = [];
+  const names = matches.filter(m => m.category === 'PATIENT' || m.category === 'NAME');
+
+  names.forEach(name => {
+    const parts = name.value
+      .split(/[\s,]+/)
+      .map(part => part.replace(/\.$/, ''))
+      .filter(part => part.length >= 3 && !NAME_STOPWORDS.has(part.toUpperCase()) && !/^Dr$/i.test(part));
+
+    [name.value, ...parts].forEach(candidate => {
+      const pattern = new RegExp(`(?<![\\p{L}])${escapeRegExp(candidate)}(?![\\p{L}])`, 'giu');
+      let match: RegExpExecArray | null;
+      while ((match = pattern.exec(text)) !== null) {
+        repeats.push({ category: name.category, start: match.index, end: match.index + match[0].length, value: match[0] });
+      }
+    });
+  });
+
+  return repeats;
+};
+
+/**
+ * Finds names, addresses, dates, phone numbers, identifiers and lab headers in text
+ * @param text The text to scan, usually OCR output
+ * @returns Non-overlapping matches sorted by position
+ */
+export const detectPii = (text: string): PiiMatch[] => {
+  // Placeholders from an earlier redaction pass are never matched again
+  const placeholders = Array.from(text.matchAll(PLACEHOLDER_PATTERN), m => ({ start: m.index, end: m.index + m[0].length }));
+  const outsidePlaceholders = (match: PiiMatch) =>
+    !placeholders.some(p => match.start < p.end && p.start < match.end);
+
+  const primary = removeOverlaps(findMatches(text).filter(outsidePlaceholders));
+  return removeOverlaps([...primary, ...findNameRepeats(text, primary)].filter(outsidePlaceholders));
+};
+
+const valueKey = (category: RedactionCategory, value: string): string =>
+  `${category}:${value.replace(/\s+/g, ' ').toLowerCase()}`;
+
+/**
+ * Replaces detected personal information with consistent placeholders such as [PATIENT_1]
+ * @param text The text to de-identify
+ * @param excluded Placeholders the user chose to keep in clear text
+ * @returns The redacted text and one entity per distinct value
+ */
+export const redactText = (text: string, excluded: ReadonlySet<string> = new Set()): RedactionResult => {
+  const matches = detectPii(text);
+  const entitiesByKey = new Map<string, RedactionEntity>();
+  const counters: Partial<Record<RedactionCategory, number>> = {};
+
+  // Continue after placeholders already in the text, so redacting twice never reuses a number
+  for (const [, category, number] of text.matchAll(PLACEHOLDER_PATTERN)) {
+    const key = category as RedactionCategory;
+    counters[key] = Math.max(counters[key] ?? 0, Number(number));
+  }
+
+  // Number placeholders before applying exclusions so toggling never renumbers them
+  matches.forEach(match => {
+    const key = valueKey(match.category, match.value);
+    const existing = entitiesByKey.get(key);
+    if (existing) {
+      existing.occurrences++;
+      return;
+    }
+    const count = (counters[match.category] ?? 0) + 1;
+    counters[match.category] = count;
+    const placeholder = `[${match.category}_${count}]`;
+    entitiesByKey.set(key, {
+      placeholder,
+      category: match.category,
+      value: match.value,
+      occurrences: 1,
+      enabled: !excluded.has(placeholder)
+    });
+  });
+
+  let redactedText = '';
+  let cursor = 0;
+  matches.forEach(match => {
+    const entity = entitiesByKey.get(valueKey(match.category, match.value))!;
+    if (!entity.enabled) return;
+    redactedText += text.slice(cursor, match.start) + entity.placeholder;
+    cursor = match.end;
+  });
+  redactedText += text.slice(cursor);
+
+  return { redactedText, entities: Array.from(entitiesByKey.values()) };
+};
+
+/**
+ * Puts the original values back in place of any placeholders in a response
+ * @param text Text returned by the model
+ * @param entities The entities produced by redactText
+ * @returns The text with placeholders replaced by the real values
+ */
+export const restoreRedactions = (text: string, entities: RedactionEntity[]): string => {
+  const values = new Map(entities.filter(e => e.enabled).map(e => [e.placeholder, e.value]));
+  return text.replace(PLACEHOLDER_PATTERN, placeholder => values.get(placeholder) ?? placeholder);
+};
@@ -0,0 +1,164 @@
+import { DatedResult, LabResultField, LabResultRow, ResultField } from '../components/LabResultsTemplate';
+
+// A result column with the sample date most of its values carry
+export interface ResultColumn {
+  field: ResultField;
+  index: number;
+  date: string;
+}
+
+const RESULT_FIELD = /^result\.(\d+)$/;
+// Day-first dates as printed above result columns ("12/03/2026", "12-03-26"), or ISO dates
+const DAY_FIRST_DATE = /(?<!\d)(\d{1,2})([/.-])(\d{1,2})\2(\d{4}|\d{2})(?!\d)/;
+const ISO_DATE = /(?<!\d)(\d{4})-(\d{2})-(\d{2})(?!\d)/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const resultField = (index: number): ResultField => `result.${index}`;
+
+export const isResultField = (field: LabResultField): field is ResultField => RESULT_FIELD.test(field);
+
+// The position in the series a result field refers to
+export const resultIndex = (field: ResultField): number => Number(RESULT_FIELD.exec(field)![1]);
+
+/**
+ * The value of the newest result column, the one the reference range is evaluated against
+ */
+export const currentResult = (row: LabResultRow): string => row.results[0]?.value ?? '';
+
+// Fills a series up to a length with empty, undated results
+const padResults = (results: DatedResult[], length: number): DatedResult[] => [
+  ...results,
+  ...Array.from({ length: Math.max(0, length - results.length) }, () => ({ value: '', date: '' }))
+];
+
+export const cellValue = (row: LabResultRow, field: LabResultField): string =>
+  isResultField(field) ? row.results[resultIndex(field)]?.value ?? '' : row[field];
+
+/**
+ * A copy of the row with one cell changed; a result beyond the end of the series extends it
+ */
+export const withCellValue = (row: LabResultRow, field: LabResultField, value: string): LabResultRow => {
+  if (!isResultField(field)) {
+    return { ...row, [field]: value };
+  }
+  const index = resultIndex(field);
+  const results = padResults(row.results, index + 1);
+  results[index] = { ...results[index], value };
+  return { ...row, results };
+};
+
+/**
+ * The result columns to show for the rows: as many as the longest series, each dated with
+ * the date most of its values carry
+ */
+export const resultColumns = (rows: LabResultRow[]): ResultColumn[] => {
+  const count = Math.max(1, ...rows.map(row => row.results.length));
+  return Array.from({ length: count }, (_, index) => {
+    const counts = new Map<string, number>();
+    rows.forEach(row => {
+      const date = row.results[index]?.date;
+      if (date) counts.set(date, (counts.get(date) ?? 0) + 1);
+    });
+    const date = [...counts.entries()].sort((a, b) => b[1] - a[1])[0]?.[0] ?? '';
+    return { field: resultField(index), index, date };
+  });
+};
+
+/**
+ * Gives every row's result in one column the same sample date
+ */
+export const setColumnDate = (rows: LabResultRow[], index: number, date: string): LabResultRow[] =>
+  rows.map(row => {
+    const results = padResults(row.results, index + 1);
+    results[index] = { ...results[index], date };
+    return { ...row, results };
+  });
+
+/**
+ * Adds an empty result column after the oldest one
+ */
+export const addResultColumn = (rows: LabResultRow[]): LabResultRow[] => {
+  const count = resultColumns(rows).length + 1;
+  return rows.map(row => ({ ...row, results: padResults(row.results, count) }));
+};
+
+/**
+ * Puts a series in newest-first order when every value is dated; otherwise the printed order is kept
+ */
+export const sortNewestFirst = (results: DatedResult[]): DatedResult[] =>
+  results.length > 1 && results.every(result => result.date)
+    ? [...results].sort((a, b) => b.date.localeCompare(a.date))
+    : results;
+
+/**
+ * The most recent sample date among the rows
+ * @returns The date as YYYY-MM-DD, or '' when no result is dated
+ */
+export const newestSampleDate = (rows: LabResultRow[]): string =>
+  rows
+    .flatMap(row => row.results.map(result => result.date))
+    .filter(Boolean)
+    .sort()
+    .pop() ?? '';
+
+const isoDate = (year: number, month: number, day: number): string => {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  // Rejects days the month does not have, such as 31/02
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return '';
+  }
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+};
+
+/**
+ * Reads the first sample date in a text, either day-first as printed on the reports ("12/03/2026", "12-03-26")
+ * or as YYYY-MM-DD
+ * @returns The date as YYYY-MM-DD, or '' when the text holds no valid date
+ */
+export const parseSampleDate = (text: string): string => {
+  const iso = ISO_DATE.exec(text);
+  if (iso) {
+    return isoDate(Number(iso[1]), Number(iso[2]), Number(iso[3]));
+  }
+  const dayFirst = DAY_FIRST_DATE.exec(text);
+  if (!dayFirst) return '';
+  // Two-digit years are this century, lab reports do not go back further
+  const year = dayFirst[4].length === 2 ? 2000 + Number(dayFirst[4]) : Number(dayFirst[4]);
+  return isoDate(year, Number(dayFirst[3]), Number(dayFirst[1]));
+};
+
+/**
+ * Writes a YYYY-MM-DD date day-first, as on the reports ("12-03-2026")
+ */
+export const formatSampleDate = (date: string): string => {
+  const match = ISO_DATE.exec(date);
+  return match ? `${match[3]}-${match[2]}-${match[1]}` : date;
+};
+
+/**
+ * The time between two sample dates in words ("14 months"); relative spans keep sample dates out of
+ * the analysis request when the dates themselves are redacted
+ */
+export const describeSpan = (from: string, to: string): string => {
+  const days = Math.round((Date.parse(to) - Date.parse(from)) / DAY_MS);
+  if (days < 60) return days === 1 ? '1 day' : `${days} days`;
+  const months = Math.round(days / 30.44);
+  if (months < 24) return `${months} months`;
+  return `${Math.round(months / 12)} years`;
+};
+
+/**
+ * Describes the older values of a row, e.g. "45 on 2025-11-01 (4 months before)"
+ * @returns One description per earlier value that is filled in
+ */
+export const describeEarlierResults = (row: LabResultRow): string[] => {
+  const newest = row.results[0]?.date ?? '';
+  return row.results
+    .slice(1)
+    .filter(result => result.value.trim())
+    .map(result => {
+      if (!result.date) return result.value;
+      const before = newest && newest > result.date ? ` (${describeSpan(result.date, newest)} before)` : '';
+      return `${result.value} on ${result.date}${before}`;
+    });
+};
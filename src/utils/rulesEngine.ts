@@ -0,0 +1,245 @@
+import { LabResultRow } from '../components/LabResultsTemplate';
+import defaultRules from '../config/rules.json';
+import { FINDING_SEVERITIES, FindingSeverity, normalizeTestName } from './analysisFindings';
+import { findAnalyteById, rowAnalyte } from './analytes';
+import { parseLabValue } from './rangeEvaluation';
+import { currentResult } from './resultSeries';
+
+export type RuleOperator = '<' | '<=' | '>' | '>=';
+export type PatientSex = 'female' | 'male' | 'unknown';
+
+export interface RuleCondition {
+  operator: RuleOperator;
+  value: number;
+}
+
+// A single practice rule; a rule flags values locally, steers the prompt, or both
+export interface LabRule {
+  id: string;
+  description: string;
+  enabled?: boolean;
+  // Test names the rule applies to, matched case-insensitively as substrings
+  tests?: string[];
+  // Catalogue analyte ids the rule applies to, whatever name the lab printed
+  analytes?: string[];
+  sex?: Exclude<PatientSex, 'unknown'>;
+  condition?: RuleCondition;
+  severity?: FindingSeverity;
+  message?: string;
+  // Instruction added to the analysis system prompt when the rule is relevant
+  prompt?: string;
+}
+
+export interface RulesFile {
+  version: number;
+  rules: LabRule[];
+}
+
+// What is known about the patient beyond the lab values
+export interface PatientContext {
+  sex: PatientSex;
+}
+
+export interface RuleFlag {
+  ruleId: string;
+  rowIndex: number;
+  testName: string;
+  severity: FindingSeverity;
+  message: string;
+}
+
+export interface RulesValidation {
+  rulesFile: RulesFile | null;
+  errors: string[];
+}
+
+const STORAGE_KEY = 'labletter.rules';
+const OPERATORS: RuleOperator[] = ['<', '<=', '>', '>='];
+const RULE_KEYS = ['id', 'description', 'enabled', 'tests', 'analytes', 'sex', 'condition', 'severity', 'message', 'prompt'];
+
+/**
+ * Checks a parsed rules file and reports every problem with the rule it belongs to
+ */
+export const validateRulesFile = (json: unknown): RulesValidation => {
+  if (!json || typeof json !== 'object' || Array.isArray(json)) {
+    return { rulesFile: null, errors: ['The rules file must be an object with "version" and "rules"'] };
+  }
+
+  const record = json as Record<string, unknown>;
+  const errors: string[] = [];
+
+  if (typeof record.version !== 'number' || !Number.isInteger(record.version) || record.version < 1) {
+    errors.push('"version" must be a positive whole number');
+  }
+  if (!Array.isArray(record.rules)) {
+    errors.push('"rules" must be an array');
+    return { rulesFile: null, errors };
+  }
+
+  const ids = new Set<string>();
+  record.rules.forEach((item, index) => {
+    if (!item || typeof item !== 'object' || Array.isArray(item)) {
+      errors.push(`Rule ${index + 1}: must be an object`);
+      return;
+    }
+    const rule = item as Record<string, unknown>;
+    const label = typeof rule.id === 'string' && rule.id ? `Rule "${rule.id}"` : `Rule ${index + 1}`;
+
+    Object.keys(rule)
+      .filter(key => !RULE_KEYS.includes(key))
+      .forEach(key => errors.push(`${label}: unknown key "${key}"`));
+
+    if (typeof rule.id !== 'string' || !rule.id.trim()) {
+      errors.push(`${label}: "id" must be a non-empty string`);
+    } else if (ids.has(rule.id)) {
+      errors.push(`${label}: duplicate id`);
+    } else {
+      ids.add(rule.id);
+    }
+    if (typeof rule.description !== 'string') {
+      errors.push(`${label}: "description" must be a string`);
+    }
+    if (rule.enabled !== undefined && typeof rule.enabled !== 'boolean') {
+      errors.push(`${label}: "enabled" must be true or false`);
+    }
+    if (rule.tests !== undefined && (!Array.isArray(rule.tests) || rule.tests.some(t => typeof t !== 'string' || !t.trim()))) {
+      errors.push(`${label}: "tests" must be a list of test names`);
+    }
+    if (rule.analytes !== undefined) {
+      if (!Array.isArray(rule.analytes) || rule.analytes.some(a => typeof a !== 'string')) {
+        errors.push(`${label}: "analytes" must be a list of analyte ids`);
+      } else {
+        rule.analytes
+          .filter(id => !findAnalyteById(id))
+          .forEach(id => errors.push(`${label}: unknown analyte "${id}"`));
+      }
+    }
+    if (rule.sex !== undefined && rule.sex !== 'female' && rule.sex !== 'male') {
+      errors.push(`${label}: "sex" must be "female" or "male"`);
+    }
+    if (rule.severity !== undefined && !FINDING_SEVERITIES.includes(rule.severity as FindingSeverity)) {
+      errors.push(`${label}: "severity" must be one of ${FINDING_SEVERITIES.join(', ')}`);
+    }
+    if (rule.prompt !== undefined && (typeof rule.prompt !== 'string' || !rule.prompt.trim())) {
+      errors.push(`${label}: "prompt" must be a non-empty string`);
+    }
+
+    if (rule.condition !== undefined) {
+      const condition = rule.condition as Record<string, unknown> | null;
+      if (!condition || !OPERATORS.includes(condition.operator as RuleOperator) || typeof condition.value !== 'number') {
+        errors.push(`${label}: "condition" needs an "operator" (${OPERATORS.join(' ')}) and a numeric "value"`);
+      }
+      const targets = [rule.tests, rule.analytes].filter(Array.isArray).flat();
+      if (targets.length === 0) {
+        errors.push(`${label}: a rule with a condition needs "tests" or "analytes"`);
+      }
+      if (typeof rule.message !== 'string' || !rule.message.trim()) {
+        errors.push(`${label}: a rule with a condition needs a "message"`);
+      }
+    } else if (rule.prompt === undefined) {
+      errors.push(`${label}: needs a "condition", a "prompt", or both`);
+    }
+  });
+
+  if (errors.length > 0) {
+    return { rulesFile: null, errors };
+  }
+  return { rulesFile: record as unknown as RulesFile, errors };
+};
+
+export const DEFAULT_RULES_FILE: RulesFile = defaultRules as RulesFile;
+
+/**
+ * Loads the rules saved in the in-app editor, or the bundled rules file
+ */
+export const loadRulesFile = (): RulesFile => {
+  const stored = localStorage.getItem(STORAGE_KEY);
+  if (!stored) {
+    return DEFAULT_RULES_FILE;
+  }
+  try {
+    const { rulesFile, errors } = validateRulesFile(JSON.parse(stored));
+    if (rulesFile) {
+      return rulesFile;
+    }
+    console.warn('Stored rules are invalid, using the bundled rules', errors);
+  } catch (error) {
+    console.warn('Stored rules could not be read, using the bundled rules', error);
+  }
+  return DEFAULT_RULES_FILE;
+};
+
+export const saveRulesFile = (rulesFile: RulesFile) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(rulesFile));
+};
+
+export const resetRulesFile = (): RulesFile => {
+  localStorage.removeItem(STORAGE_KEY);
+  return DEFAULT_RULES_FILE;
+};
+
+// Without targets a rule applies to no row in particular
+const hasTargets = (rule: LabRule): boolean => !!rule.tests || !!rule.analytes;
+
+const matchesRow = (rule: LabRule, row: LabResultRow): boolean => {
+  const analyte = rowAnalyte(row);
+  if (analyte && rule.analytes?.includes(analyte.id)) return true;
+  const name = normalizeTestName(row.testName);
+  return !!name && (rule.tests ?? []).some(test => name.includes(normalizeTestName(test)));
+};
+
+const appliesToPatient = (rule: LabRule, context: PatientContext): boolean =>
+  rule.enabled !== false && (!rule.sex || rule.sex === context.sex);
+
+const compare = (value: number, { operator, value: threshold }: RuleCondition): boolean => {
+  switch (operator) {
+    case '<': return value < threshold;
+    case '<=': return value <= threshold;
+    case '>': return value > threshold;
+    case '>=': return value >= threshold;
+  }
+};
+
+/**
+ * Runs the rules with a condition against the template rows
+ * @returns One flag per row a rule fired on
+ */
+export const evaluateRules = (rulesFile: RulesFile, rows: LabResultRow[], context: PatientContext): RuleFlag[] => {
+  const flags: RuleFlag[] = [];
+
+  rulesFile.rules
+    .filter(rule => rule.condition && appliesToPatient(rule, context))
+    .forEach(rule => {
+      rows.forEach((row, rowIndex) => {
+        if (!matchesRow(rule, row)) return;
+        const value = parseLabValue(currentResult(row));
+        if (value?.kind !== 'numeric') return;
+        // A qualified value ("<5") can only be known to satisfy a condition pointing the same way
+        if (value.qualifier && value.qualifier[0] !== rule.condition!.operator[0]) return;
+        if (!compare(value.value, rule.condition!)) return;
+        flags.push({
+          ruleId: rule.id,
+          rowIndex,
+          testName: row.testName,
+          severity: rule.severity ?? 'mild',
+          message: rule.message!
+        });
+      });
+    });
+
+  return flags;
+};
+
+/**
+ * Picks the prompt instructions that apply: rules without tests or analytes always, others when a matching row is present
+ */
+export const selectPromptInstructions = (rulesFile: RulesFile, rows: LabResultRow[], context: PatientContext): string[] =>
+  rulesFile.rules
+    .filter(rule => rule.prompt && appliesToPatient(rule, context))
+    .filter(rule => !hasTargets(rule) || rows.some(row => matchesRow(rule, row)))
+    .map(rule => rule.prompt!);
+
+export const formatRuleFlags = (flags: RuleFlag[]): string =>
+  flags.length === 0
+    ? ''
+    : `Practice rule flags:\n${flags.map(flag => `- ${flag.testName}: ${flag.message} (${flag.severity})`).join('\n')}`;
@@ -0,0 +1,98 @@
+import { LabResultRow } from '../components/LabResultsTemplate';
+import { ANALYTE_CATEGORIES } from '../config/analytes';
+import { normalizeTestName } from './analysisFindings';
+import { rowAnalyte } from './analytes';
+import { evaluateRow } from './rangeEvaluation';
+
+// A panel of the report and the positions of its rows in the template
+export interface LabSection {
+  name: string;
+  rowIndexes: number[];
+}
+
+export interface SectionSummary {
+  // Rows whose newest result could be evaluated
+  evaluated: number;
+  high: number;
+  low: number;
+}
+
+// Rows with neither a printed section nor a catalogue analyte
+export const OTHER_SECTION = 'Other';
+
+// Panel headings are printed in capitals ("HEMATOLOGIE", "LEVER & GAL")
+const SECTION_HEADER = /^[A-ZÄËÏÖÜÁÉÍÓÚÀÈÌÒÙ\s&/-]+$/;
+
+export const isSectionHeader = (line: string): boolean =>
+  SECTION_HEADER.test(line) && line.replace(/[^A-Z]/g, '').length > 3;
+
+/**
+ * Writes a printed panel heading in sentence case ("HEMATOLOGIE" -> "Hematologie")
+ */
+export const formatSectionName = (heading: string): string => {
+  const name = heading.trim().replace(/\s+/g, ' ').toLowerCase();
+  return name.charAt(0).toUpperCase() + name.slice(1);
+};
+
+/**
+ * The section a row belongs to: the one printed on the report or chosen by the user, else the
+ * catalogue category of its analyte
+ */
+export const rowSection = (row: LabResultRow): string => {
+  if (row.section?.trim()) return row.section.trim();
+  const category = rowAnalyte(row)?.category;
+  return ANALYTE_CATEGORIES.find(({ value }) => value === category)?.label ?? OTHER_SECTION;
+};
+
+/**
+ * Groups the rows by section, in the order each section first appears
+ */
+export const groupSections = (rows: LabResultRow[]): LabSection[] => {
+  const sections = new Map<string, number[]>();
+  rows.forEach((row, rowIndex) => {
+    const name = rowSection(row);
+    if (!sections.has(name)) sections.set(name, []);
+    sections.get(name)!.push(rowIndex);
+  });
+  return [...sections.entries()].map(([name, rowIndexes]) => ({ name, rowIndexes }));
+};
+
+/**
+ * Moves a section one place up or down; the rows end up grouped by section in the new order
+ */
+export const moveSection = (rows: LabResultRow[], name: string, offset: -1 | 1): LabResultRow[] => {
+  const sections = groupSections(rows);
+  const from = sections.findIndex(section => section.name === name);
+  const to = from + offset;
+  if (from === -1 || to < 0 || to >= sections.length) return rows;
+  [sections[from], sections[to]] = [sections[to], sections[from]];
+  return sections.flatMap(section => section.rowIndexes.map(rowIndex => rows[rowIndex]));
+};
+
+/**
+ * Puts every row of a section into another section, which may be new or one that already exists
+ */
+export const renameSection = (rows: LabResultRow[], from: string, to: string): LabResultRow[] =>
+  rows.map(row => (rowSection(row) === from ? { ...row, section: to } : row));
+
+/**
+ * Counts the evaluated and out-of-range results among the given rows
+ */
+export const summarizeSection = (rows: LabResultRow[]): SectionSummary =>
+  rows.map(evaluateRow).reduce<SectionSummary>(
+    (summary, { status }) => ({
+      evaluated: summary.evaluated + (status === 'unparseable' ? 0 : 1),
+      high: summary.high + (status === 'high' ? 1 : 0),
+      low: summary.low + (status === 'low' ? 1 : 0)
+    }),
+    { evaluated: 0, high: 0, low: 0 }
+  );
+
+/**
+ * The section of the row with the given test name, used to file findings under their panel
+ * @returns null when no row has that test name
+ */
+export const sectionForTest = (rows: LabResultRow[], testName: string): string | null => {
+  const row = rows.find(candidate => normalizeTestName(candidate.testName) === normalizeTestName(testName));
+  return row ? rowSection(row) : null;
+};
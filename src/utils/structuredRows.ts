@@ -0,0 +1,216 @@
+import { LabResultRow, TextField } from '../components/LabResultsTemplate';
+import { parseSampleDate, resultField, sortNewestFirst } from './resultSeries';
+import { formatSectionName, isSectionHeader } from './sections';
+
+type CellValue = string | number | null;
+
+// One result column of a row, with the sample date as printed above it
+export interface StructuredResult {
+  value: CellValue;
+  date: string | null;
+}
+
+// One row exactly as the structuring prompt asks the model to return it
+export interface StructuredLabRow {
+  test_name: string;
+  results: StructuredResult[];
+  reference_range_lower_value: CellValue;
+  reference_range_upper_value: CellValue;
+  unit: string | null;
+  comment: string | null;
+  // Panel heading the row is printed under
+  section: string | null;
+}
+
+export interface StructuredRowsValidation {
+  rows: StructuredLabRow[];
+  errors: string[];
+}
+
+const SCHEMA: Record<keyof StructuredLabRow, 'text' | 'value' | 'results'> = {
+  test_name: 'text',
+  results: 'results',
+  reference_range_lower_value: 'value',
+  reference_range_upper_value: 'value',
+  unit: 'text',
+  comment: 'text',
+  section: 'text'
+};
+
+type TextKey = Exclude<keyof StructuredLabRow, 'results' | 'section'>;
+
+// Which template column each text response key fills
+const FIELD_MAP: Record<TextKey, TextField> = {
+  test_name: 'testName',
+  reference_range_lower_value: 'referenceLower',
+  reference_range_upper_value: 'referenceUpper',
+  unit: 'unit',
+  comment: 'comments'
+};
+
+const SCHEMA_KEYS = Object.keys(SCHEMA) as (keyof StructuredLabRow)[];
+const TEXT_KEYS = Object.keys(FIELD_MAP) as TextKey[];
+
+const isCellValue = (value: unknown): boolean =>
+  value === null || typeof value === 'string' || (typeof value === 'number' && Number.isFinite(value));
+
+const isStructuredResult = (value: unknown): boolean => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return false;
+  const record = value as Record<string, unknown>;
+  return Object.keys(record).every(key => key === 'value' || key === 'date') &&
+    'value' in record && isCellValue(record.value) &&
+    'date' in record && (record.date === null || typeof record.date === 'string');
+};
+
+// The model may wrap the array in an object, e.g. { "rows": [...] }
+const extractRowArray = (json: unknown): unknown[] | null => {
+  if (Array.isArray(json)) {
+    return json;
+  }
+  if (json && typeof json === 'object') {
+    const arrays = Object.values(json).filter(Array.isArray);
+    if (arrays.length === 1) {
+      return arrays[0];
+    }
+  }
+  return null;
+};
+
+/**
+ * Checks a parsed structuring response against the strict row schema
+ * @param json The parsed JSON returned by the model
+ * @returns The rows that passed, plus a message for every violation
+ */
+export const validateStructuredRows = (json: unknown): StructuredRowsValidation => {
+  const items = extractRowArray(json);
+  if (!items) {
+    return { rows: [], errors: ['Response must be an array of rows, or an object with a single array property'] };
+  }
+
+  const rows: StructuredLabRow[] = [];
+  const errors: string[] = [];
+
+  items.forEach((item, index) => {
+    const label = `Row ${index + 1}`;
+    if (!item || typeof item !== 'object' || Array.isArray(item)) {
+      errors.push(`${label}: must be an object`);
+      return;
+    }
+
+    const record = item as Record<string, unknown>;
+    const rowErrors: string[] = [];
+
+    Object.keys(record)
+      .filter(key => !(key in SCHEMA))
+      .forEach(key => rowErrors.push(`${label}: unexpected key "${key}"`));
+
+    SCHEMA_KEYS.forEach(key => {
+      if (!(key in record)) {
+        rowErrors.push(`${label}: missing key "${key}"`);
+        return;
+      }
+      const value = record[key];
+      if (SCHEMA[key] === 'results') {
+        if (!Array.isArray(value) || !value.every(isStructuredResult)) {
+          rowErrors.push(`${label}: "${key}" must be a list of { "value", "date" } objects`);
+        }
+        return;
+      }
+      const valid = SCHEMA[key] === 'value' ? isCellValue(value) : value === null || typeof value === 'string';
+      if (!valid) {
+        rowErrors.push(`${label}: "${key}" has invalid type ${typeof value}`);
+      }
+    });
+
+    if (typeof record.test_name !== 'string' || !record.test_name.trim()) {
+      rowErrors.push(`${label}: "test_name" must be a non-empty string`);
+    }
+
+    if (rowErrors.length > 0) {
+      errors.push(...rowErrors);
+    } else {
+      rows.push(record as unknown as StructuredLabRow);
+    }
+  });
+
+  return { rows, errors };
+};
+
+// Splits "ERROR: reason" style tags off a cell value
+const parseCell = (value: CellValue): { text: string; error?: string } => {
+  if (value === null) {
+    return { text: '' };
+  }
+  const text = String(value).trim();
+  const match = text.match(/^(.*?)\s*\bERROR\b[:\s-]*(.*)$/i);
+  if (!match) {
+    return { text };
+  }
+  const reason = match[2].trim();
+  return {
+    // Keep whatever the model could read so the user only has to correct it
+    text: match[1].trim(),
+    error: reason ? `Flagged by structuring: ${reason}` : 'Flagged by structuring'
+  };
+};
+
+/**
+ * Maps validated structuring rows onto template rows, turning "ERROR" tags into cell markers
+ */
+export const mapStructuredRows = (rows: StructuredLabRow[]): LabResultRow[] =>
+  rows.map(row => {
+    const mapped: LabResultRow = {
+      testName: '',
+      results: [],
+      referenceLower: '',
+      referenceUpper: '',
+      unit: '',
+      comments: '',
+      cellMeta: {}
+    };
+
+    TEXT_KEYS.forEach(key => {
+      const field = FIELD_MAP[key];
+      const { text, error } = parseCell(row[key]);
+      mapped[field] = text;
+      if (error) {
+        mapped.cellMeta![field] = { error };
+      }
+    });
+
+    // Ordered before the tags are split off, so each marker stays with its value
+    const results = sortNewestFirst(row.results.map(result => ({
+      value: result.value === null ? '' : String(result.value),
+      date: parseSampleDate(result.date ?? '')
+    })));
+    mapped.results = results.map((result, index) => {
+      const { text, error } = parseCell(result.value);
+      if (error) {
+        mapped.cellMeta![resultField(index)] = { error };
+      }
+      return { ...result, value: text };
+    });
+
+    const section = row.section?.trim();
+    if (section) {
+      mapped.section = isSectionHeader(section) ? formatSectionName(section) : section;
+    }
+
+    return mapped;
+  });
+
+/**
+ * Applies a text transform to every string value in the rows, e.g. to put redacted values back
+ */
+export const mapStructuredText = (rows: StructuredLabRow[], transform: (text: string) => string): StructuredLabRow[] => {
+  const text = <T extends CellValue>(value: T): T => (typeof value === 'string' ? transform(value) as T : value);
+  return rows.map(row => ({
+    test_name: text(row.test_name),
+    results: row.results.map(result => ({ value: text(result.value), date: text(result.date) })),
+    reference_range_lower_value: text(row.reference_range_lower_value),
+    reference_range_upper_value: text(row.reference_range_upper_value),
+    unit: text(row.unit),
+    comment: text(row.comment),
+    section: text(row.section)
+  }));
+};
@@ -0,0 +1,307 @@
+import { OcrWord } from '../types/ocr';
+import { Box, ReconstructedTable, TableCell, TableColumn, TablePage, TableRow } from '../types/table';
+import { lowestConfidence } from './confidence';
+
+interface Line {
+  words: OcrWord[];
+  box: Box;
+}
+
+interface ColumnSpan {
+  x0: number;
+  x1: number;
+}
+
+// Working state for a row while continuation lines are merged into it
+interface RowDraft {
+  lines: Line[];
+  box: Box;
+  hasValues: boolean;
+}
+
+// Words that name columns in the lab reports we receive, Dutch and English
+const HEADER_KEYWORD = /^(?:testen?|tests?|analyses?|onderzoek|parameters?|resultaten?|results?|uitslag(?:en)?|vorige|previous|onderl\.?|bovenl\.?|ondergrens|bovengrens|referentie(?:waarden?)?|reference|normaalwaarden?|range|eenheden?|eenheid|units?)$/i;
+const NUMERIC_TOKEN = /^[<>≤≥]?=?[-+]?\d+(?:[.,]\d+)*%?$/;
+// Sample dates printed under the header, one per result column
+const DATE_TOKEN = /^\d{1,2}([/.-])\d{1,2}\1\d{2,4}$/;
+
+// Width of one histogram bin in pixels
+const BIN_SIZE = 2;
+// Fraction of rows that may cross a gap before it stops counting as a column boundary
+const GAP_NOISE_RATIO = 0.05;
+
+const median = (values: number[], fallback: number): number => {
+  if (values.length === 0) return fallback;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+};
+
+/**
+ * The smallest box around all given boxes
+ */
+export const unionBox = (boxes: Box[]): Box => ({
+  x0: Math.min(...boxes.map(b => b.x0)),
+  x1: Math.max(...boxes.map(b => b.x1)),
+  y0: Math.min(...boxes.map(b => b.y0)),
+  y1: Math.max(...boxes.map(b => b.y1))
+});
+
+const standardDeviation = (values: number[]): number => {
+  const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+  return Math.sqrt(values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / values.length);
+};
+
+const isNumeric = (word: OcrWord): boolean => NUMERIC_TOKEN.test(word.text.trim());
+
+// Groups the words of one page into lines by their vertical centres
+const groupLines = (words: OcrWord[], tolerance: number): Line[] => {
+  const lines: { y: number; words: OcrWord[] }[] = [];
+
+  [...words]
+    .sort((a, b) => a.bbox.y0 - b.bbox.y0)
+    .forEach(word => {
+      const midY = (word.bbox.y0 + word.bbox.y1) / 2;
+      const line = lines.find(l => Math.abs(l.y - midY) < tolerance);
+      if (line) {
+        line.words.push(word);
+        line.y = (line.y * (line.words.length - 1) + midY) / line.words.length;
+      } else {
+        lines.push({ y: midY, words: [word] });
+      }
+    });
+
+  return lines
+    .sort((a, b) => a.y - b.y)
+    .map(line => ({
+      words: line.words.sort((a, b) => a.bbox.x0 - b.bbox.x0),
+      box: unionBox(line.words.map(w => w.bbox))
+    }));
+};
+
+// Number of word groups on a line separated by gaps wider than minGap
+const countClusters = (line: Line, minGap: number): number =>
+  line.words.reduce((count, word, index) =>
+    index > 0 && word.bbox.x0 - line.words[index - 1].bbox.x1 > minGap ? count + 1 : count, 1);
+
+const headerKeywordCount = (line: Line): number =>
+  line.words.filter(word => HEADER_KEYWORD.test(word.text.trim())).length;
+
+// The table starts at a line with header words, or else at the first line with three groups
+const findTableStart = (lines: Line[], minGap: number): number => {
+  const header = lines.findIndex(line => headerKeywordCount(line) >= 2);
+  if (header !== -1) return header;
+  const wide = lines.findIndex(line => countClusters(line, minGap) >= 3);
+  return wide === -1 ? 0 : wide;
+};
+
+/**
+ * Finds column spans from a histogram of how many lines cover each x position.
+ * Runs of covered bins are columns; gaps that almost no line crosses separate them.
+ */
+const findColumnSpans = (lines: Line[], minGap: number): ColumnSpan[] => {
+  // Rows with values define the columns best; titles and headers only fill in when there are none
+  const tableLines = lines.filter(line => countClusters(line, minGap) >= 2);
+  const valueLines = tableLines.filter(line => line.words.some(isNumeric));
+  const source = valueLines.length > 0 ? valueLines : tableLines.length > 0 ? tableLines : lines;
+  const left = Math.min(...source.map(l => l.box.x0));
+  const right = Math.max(...source.map(l => l.box.x1));
+  const bins = Math.ceil((right - left) / BIN_SIZE) + 1;
+  const coverage = new Array<number>(bins).fill(0);
+
+  source.forEach(line => {
+    const covered = new Set<number>();
+    line.words.forEach(word => {
+      const from = Math.floor((word.bbox.x0 - left) / BIN_SIZE);
+      const to = Math.floor((word.bbox.x1 - left) / BIN_SIZE);
+      for (let bin = from; bin <= to; bin++) covered.add(bin);
+    });
+    covered.forEach(bin => coverage[bin]++);
+  });
+
+  const noise = Math.floor(source.length * GAP_NOISE_RATIO);
+  const spans: ColumnSpan[] = [];
+  let start = -1;
+  let lastCovered = -1;
+  coverage.forEach((count, bin) => {
+    if (count <= noise) return;
+    // Gaps narrower than a word space belong to the column they sit in
+    if (start === -1 || (bin - lastCovered) * BIN_SIZE > minGap) {
+      if (start !== -1) spans.push({ x0: left + start * BIN_SIZE, x1: left + (lastCovered + 1) * BIN_SIZE });
+      start = bin;
+    }
+    lastCovered = bin;
+  });
+  if (start !== -1) {
+    spans.push({ x0: left + start * BIN_SIZE, x1: left + (lastCovered + 1) * BIN_SIZE });
+  }
+
+  return spans.length > 0 ? spans : [{ x0: left, x1: right }];
+};
+
+// The column containing the word's centre, or the nearest one when it falls in a gap
+const columnForWord = (word: OcrWord, spans: ColumnSpan[]): number => {
+  const centre = (word.bbox.x0 + word.bbox.x1) / 2;
+  let best = 0;
+  let bestDistance = Infinity;
+  spans.forEach((span, index) => {
+    const distance = centre < span.x0 ? span.x0 - centre : centre > span.x1 ? centre - span.x1 : 0;
+    if (distance < bestDistance) {
+      best = index;
+      bestDistance = distance;
+    }
+  });
+  return best;
+};
+
+const buildCells = (lines: Line[], spans: ColumnSpan[], pageNumber: number, rowIndex: number): TableCell[] => {
+  const columnWords: OcrWord[][] = spans.map(() => []);
+  lines.forEach(line => line.words.forEach(word => columnWords[columnForWord(word, spans)].push(word)));
+
+  return columnWords.map((words, columnIndex) => ({
+    // Lines are already in reading order, so words keep their line order
+    text: words.map(w => w.text.trim()).filter(Boolean).join(' '),
+    words,
+    bbox: words.length > 0 ? unionBox(words.map(w => w.bbox)) : null,
+    confidence: lowestConfidence(words),
+    pageNumber,
+    rowIndex,
+    columnIndex
+  }));
+};
+
+const isHeaderLine = (line: Line, spans: ColumnSpan[]): boolean => {
+  if (line.words.some(isNumeric)) return false;
+  const filled = new Set(line.words.map(word => columnForWord(word, spans)));
+  return filled.size >= 2 && headerKeywordCount(line) >= 1;
+};
+
+// A second header line ("Vorige" over "resultaten") or the sample dates of the result columns:
+// no values and nothing in the first column
+const isHeaderContinuation = (line: Line, spans: ColumnSpan[]): boolean =>
+  !line.words.some(isNumeric) &&
+  line.words.every(word => columnForWord(word, spans) !== 0) &&
+  (line.words.every(word => /^[\p{L}.()/-]+$/u.test(word.text.trim())) ||
+    line.words.every(word => DATE_TOKEN.test(word.text.trim())));
+
+const hasValues = (line: Line, spans: ColumnSpan[]): boolean =>
+  line.words.some(word => isNumeric(word) && columnForWord(word, spans) > 0);
+
+const isAllCaps = (line: Line): boolean => {
+  const letters = line.words.map(w => w.text).join('').replace(/[^\p{L}]/gu, '');
+  return letters.length > 1 && letters === letters.toUpperCase();
+};
+
+/**
+ * Merges wrapped lines into rows. A text-only line joins whichever neighbour it sits closer to:
+ * the row above (a wrapped comment or name) or the row of values below (a label that starts
+ * above its values). Lines in capitals are section titles and always stand alone.
+ */
+const mergeRows = (lines: Line[], spans: ColumnSpan[], lineHeight: number): RowDraft[] => {
+  const drafts: RowDraft[] = [];
+  const maxGap = lineHeight * 0.6;
+  // Set when the last row is a label still waiting for the values on the next line
+  let awaitingValues = false;
+
+  lines.forEach((line, index) => {
+    const previous = drafts[drafts.length - 1];
+    const next = lines[index + 1];
+    const lineHasValues = hasValues(line, spans);
+    const firstColumnEmpty = line.words.every(word => columnForWord(word, spans) !== 0);
+    const gapAbove = previous ? line.box.y0 - previous.box.y1 : Infinity;
+    const gapBelow = next && hasValues(next, spans) ? next.box.y0 - line.box.y1 : Infinity;
+
+    const append = () => {
+      previous.lines.push(line);
+      previous.box = unionBox([previous.box, line.box]);
+      previous.hasValues = previous.hasValues || lineHasValues;
+    };
+    const start = () => drafts.push({ lines: [line], box: line.box, hasValues: lineHasValues });
+
+    if (lineHasValues) {
+      const completesLabel = gapAbove < maxGap && !previous.hasValues && (awaitingValues || firstColumnEmpty);
+      if (completesLabel) append(); else start();
+      awaitingValues = false;
+      return;
+    }
+
+    awaitingValues = false;
+    if (isAllCaps(line)) {
+      start();
+    } else if (gapAbove < maxGap && (firstColumnEmpty || gapAbove <= gapBelow)) {
+      append();
+    } else {
+      start();
+      awaitingValues = gapBelow < maxGap;
+    }
+  });
+
+  return drafts;
+};
+
+// Right-aligned columns have steadier right edges than left edges
+const detectAlignment = (rows: TableRow[], columnIndex: number): TableColumn['align'] => {
+  const boxes = rows.map(row => row.cells[columnIndex].bbox).filter((box): box is Box => box !== null);
+  if (boxes.length < 2) return 'left';
+  return standardDeviation(boxes.map(b => b.x1)) < standardDeviation(boxes.map(b => b.x0)) ? 'right' : 'left';
+};
+
+const reconstructPage = (words: OcrWord[], pageNumber: number): TablePage => {
+  const lineHeight = median(words.map(w => w.bbox.y1 - w.bbox.y0), 10);
+  const minGap = lineHeight * 0.8;
+  const allLines = groupLines(words, lineHeight * 0.6);
+  const lines = allLines.slice(findTableStart(allLines, minGap));
+  const spans = findColumnSpans(lines, minGap);
+
+  // The header is one of the first lines; anything above it is letterhead
+  const headerIndex = lines.slice(0, 3).findIndex(line => isHeaderLine(line, spans));
+  let bodyStart = headerIndex + 1;
+  const headerLines = headerIndex === -1 ? [] : [lines[headerIndex]];
+  while (headerLines.length > 0 && bodyStart < lines.length && isHeaderContinuation(lines[bodyStart], spans)) {
+    headerLines.push(lines[bodyStart]);
+    bodyStart++;
+  }
+
+  const header: TableRow | null = headerLines.length > 0
+    ? { pageNumber, rowIndex: -1, lineCount: headerLines.length, cells: buildCells(headerLines, spans, pageNumber, -1) }
+    : null;
+
+  const rows: TableRow[] = mergeRows(lines.slice(bodyStart), spans, lineHeight).map((draft, rowIndex) => ({
+    pageNumber,
+    rowIndex,
+    lineCount: draft.lines.length,
+    cells: buildCells(draft.lines, spans, pageNumber, rowIndex)
+  }));
+
+  const columns: TableColumn[] = spans.map((span, index) => ({
+    index,
+    name: header?.cells[index].text || `Column ${index + 1}`,
+    x0: span.x0,
+    x1: span.x1,
+    align: detectAlignment(rows, index)
+  }));
+
+  return { pageNumber, columns, header, rows };
+};
+
+/**
+ * Rebuilds the table on each page from word boxes. Pages are handled separately because
+ * every page has its own coordinate space.
+ * @param words Recognised words with bounding boxes and page numbers
+ * @returns One table page per page that has words, with page, row and column provenance per cell
+ */
+export const reconstructTable = (words: OcrWord[]): ReconstructedTable => {
+  const byPage = new Map<number, OcrWord[]>();
+  words
+    .filter(word => word.text.trim())
+    .forEach(word => {
+      const page = word.pageNumber ?? 1;
+      if (!byPage.has(page)) byPage.set(page, []);
+      byPage.get(page)!.push(word);
+    });
+
+  return {
+    pages: Array.from(byPage.keys())
+      .sort((a, b) => a - b)
+      .map(pageNumber => reconstructPage(byPage.get(pageNumber)!, pageNumber))
+  };
+};
@@ -0,0 +1,139 @@
+import { LabResultRow } from '../components/LabResultsTemplate';
+import { normalizeAnalyteName, rowAnalyte } from './analytes';
+import { evaluateRow, ValueQualifier } from './rangeEvaluation';
+import { describeSpan } from './resultSeries';
+import { checkRowUnit, convertAnalyteValue, formatValue } from './units';
+
+// One report's rows at the date its samples were taken
+export interface TrendSource {
+  // null for the report being worked on, which may not be saved yet
+  reportId: string | null;
+  // Date of newest results that do not carry their own date
+  collectedAt: string;
+  rows: LabResultRow[];
+}
+
+export interface TrendPoint {
+  reportId: string | null;
+  date: string;
+  value: number;
+  qualifier: ValueQualifier | null;
+  // Reference bounds of that report, in the trend's unit
+  lower: number | null;
+  upper: number | null;
+}
+
+// The values of one analyte across reports, all in the same unit
+export interface AnalyteTrend {
+  // Analyte id, or the normalised test name for tests outside the catalogue
+  key: string;
+  label: string;
+  unit: string;
+  points: TrendPoint[];
+}
+
+// Changes smaller than this are reported as stable
+const STABLE_PERCENT = 5;
+
+/**
+ * Collects every numeric result per analyte, converted to the analyte's usual unit
+ *
+ * Earlier results printed next to the newest one count as well when they are dated. A sample found in
+ * several reports is plotted once, preferably from the report in which it was the newest result.
+ * Tests outside the catalogue are matched by name and only combined when their unit is written the same way;
+ * values whose unit is unknown or does not fit are left out rather than mixed in.
+ * @returns Trends sorted by label, each with its points oldest first
+ */
+export const buildTrends = (sources: TrendSource[]): AnalyteTrend[] => {
+  const trends = new Map<string, AnalyteTrend>();
+  // Per trend and date, whether the point came from a newest result
+  const newest = new Map<string, boolean>();
+
+  sources.forEach(({ reportId, collectedAt, rows }) => {
+    rows.forEach(row => row.results.forEach((result, index) => {
+      const date = result.date || (index === 0 ? collectedAt : '');
+      if (!date) return;
+      // Each value is evaluated against the row's reference range as if it were the newest
+      const evaluation = evaluateRow({ ...row, results: [result] });
+      if (evaluation.value?.kind !== 'numeric') return;
+      const analyte = rowAnalyte(row);
+      const { unit, issue } = checkRowUnit(row);
+
+      let key: string;
+      let convert: (value: number) => number | null;
+      let trend: Omit<AnalyteTrend, 'points'>;
+      if (analyte) {
+        if (issue || !unit) return;
+        key = analyte.id;
+        convert = value => convertAnalyteValue(value, unit, analyte.defaultUnit, analyte);
+        trend = { key, label: analyte.label, unit: analyte.defaultUnit };
+      } else {
+        const name = normalizeAnalyteName(row.testName);
+        if (!name) return;
+        key = `name:${name}`;
+        convert = value => value;
+        trend = { key, label: row.testName.trim(), unit: unit ?? row.unit.trim() };
+        if (trends.has(key) && trends.get(key)!.unit !== trend.unit) return;
+      }
+
+      const value = convert(evaluation.value.value);
+      if (value === null) return;
+      const sample = `${key}|${date}`;
+      if (newest.has(sample) && (newest.get(sample) || index > 0)) return;
+      const bound = (raw: number | null) => (raw === null ? null : convert(raw));
+      if (!trends.has(key)) trends.set(key, { ...trend, points: [] });
+      const points = trends.get(key)!.points;
+      const replaced = points.findIndex(point => point.date === date);
+      if (replaced !== -1) points.splice(replaced, 1);
+      points.push({
+        reportId,
+        date,
+        value,
+        qualifier: evaluation.value.qualifier,
+        lower: bound(evaluation.lower),
+        upper: bound(evaluation.upper)
+      });
+      newest.set(sample, index === 0);
+    }));
+  });
+
+  return [...trends.values()]
+    .map(trend => ({ ...trend, points: trend.points.sort((a, b) => a.date.localeCompare(b.date)) }))
+    .sort((a, b) => a.label.localeCompare(b.label));
+};
+
+/**
+ * Describes how a value moved from the first to the last sample,
+ * e.g. "Ferritin dropped 40% over 3 samples in 14 months (52 → 31 µg/L)"
+ * @returns The description, or null when the trend has fewer than two values
+ */
+export const describeTrend = (trend: AnalyteTrend): string | null => {
+  if (trend.points.length < 2) return null;
+  const first = trend.points[0];
+  const last = trend.points[trend.points.length - 1];
+  const period = `over ${trend.points.length} samples in ${describeSpan(first.date, last.date)}`;
+  const values = `(${formatValue(first.value)} → ${formatValue(last.value)} ${trend.unit})`;
+  // A change from zero has no percentage
+  if (first.value === 0 && last.value !== 0) {
+    return `${trend.label} ${last.value > 0 ? 'rose' : 'dropped'} from 0 ${period} ${values}`;
+  }
+  const percent = first.value === 0 ? 0 : Math.round(((last.value - first.value) / Math.abs(first.value)) * 100);
+  if (Math.abs(percent) < STABLE_PERCENT) {
+    return `${trend.label} stayed stable ${period} ${values}`;
+  }
+  return `${trend.label} ${percent > 0 ? 'rose' : 'dropped'} ${Math.abs(percent)}% ${period} ${values}`;
+};
+
+/**
+ * Formats the trends with at least two values as a block that is sent along with the analysis request
+ */
+export const formatTrendSummary = (trends: AnalyteTrend[]): string => {
+  const lines = trends
+    .map(describeTrend)
+    .filter((line): line is string => line !== null)
+    .map(line => `- ${line}`);
+  if (lines.length === 0) {
+    return '';
+  }
+  return `Trends over saved reports:\n${lines.join('\n')}`;
+};
@@ -0,0 +1,227 @@
+import { LabResultRow } from '../components/LabResultsTemplate';
+import { Analyte } from '../config/analytes';
+import { rowAnalyte } from './analytes';
+import { parseLabValue, parseRangeCell } from './rangeEvaluation';
+import { currentResult } from './resultSeries';
+
+export type UnitSystem = 'reported' | 'si' | 'conventional';
+
+// Units convert freely within a dimension; mass and substance convert into each other through the molar mass
+type Dimension =
+  | 'massConcentration'
+  | 'substanceConcentration'
+  | 'catalyticConcentration'
+  | 'count'
+  | 'fraction'
+  | 'mass'
+  | 'amount'
+  | 'volume'
+  | 'rate'
+  | 'clearance'
+  | 'ratio';
+
+interface UnitDefinition {
+  dimension: Dimension;
+  // Multiplier to the base unit of the dimension (g/L, mol/L, U/L, /L, g, mol, ...)
+  factor: number;
+  // Other spellings, in the lowercase, space-free form produced by unitKey
+  aliases?: string[];
+}
+
+// Known units by their canonical spelling
+const UNITS: Record<string, UnitDefinition> = {
+  'g/L': { dimension: 'massConcentration', factor: 1 },
+  'g/dL': { dimension: 'massConcentration', factor: 10 },
+  'mg/L': { dimension: 'massConcentration', factor: 1e-3 },
+  'mg/dL': { dimension: 'massConcentration', factor: 1e-2, aliases: ['mg%'] },
+  'µg/mL': { dimension: 'massConcentration', factor: 1e-3 },
+  'µg/L': { dimension: 'massConcentration', factor: 1e-6 },
+  'µg/dL': { dimension: 'massConcentration', factor: 1e-5 },
+  'ng/mL': { dimension: 'massConcentration', factor: 1e-6 },
+  'ng/dL': { dimension: 'massConcentration', factor: 1e-8 },
+  'ng/L': { dimension: 'massConcentration', factor: 1e-9 },
+  'pg/mL': { dimension: 'massConcentration', factor: 1e-9 },
+  'mol/L': { dimension: 'substanceConcentration', factor: 1 },
+  'mmol/L': { dimension: 'substanceConcentration', factor: 1e-3 },
+  'µmol/L': { dimension: 'substanceConcentration', factor: 1e-6 },
+  'nmol/L': { dimension: 'substanceConcentration', factor: 1e-9 },
+  'pmol/L': { dimension: 'substanceConcentration', factor: 1e-12 },
+  // Dutch reports write "E/l" or "IE/l" for units
+  'U/L': { dimension: 'catalyticConcentration', factor: 1, aliases: ['iu/l', 'ie/l', 'e/l'] },
+  'mU/L': { dimension: 'catalyticConcentration', factor: 1e-3, aliases: ['miu/l', 'mie/l', 'me/l', 'µu/ml', 'µiu/ml', 'uu/ml', 'uiu/ml'] },
+  'kU/L': { dimension: 'catalyticConcentration', factor: 1e3, aliases: ['kiu/l', 'u/ml', 'iu/ml'] },
+  // 1 µkat is the activity that converts 1 µmol per second, which is 60 U
+  'µkat/L': { dimension: 'catalyticConcentration', factor: 60 },
+  '10^9/L': { dimension: 'count', factor: 1e9, aliases: ['/nl', '10^3/µl', 'k/µl'] },
+  '10^12/L': { dimension: 'count', factor: 1e12, aliases: ['/pl', 't/l', '10^6/µl'] },
+  'L/L': { dimension: 'fraction', factor: 1 },
+  '%': { dimension: 'fraction', factor: 1e-2 },
+  'pg': { dimension: 'mass', factor: 1e-12 },
+  'fmol': { dimension: 'amount', factor: 1e-15 },
+  'fL': { dimension: 'volume', factor: 1, aliases: ['µm^3', 'µm3'] },
+  'mm/h': { dimension: 'rate', factor: 1, aliases: ['mm/hr', 'mm/uur', 'mm/1uur', 'mm/1h'] },
+  'mL/min': { dimension: 'clearance', factor: 1 },
+  'mL/min/1.73m²': { dimension: 'clearance', factor: 1, aliases: ['ml/min/1.73m2', 'ml/min/1,73m²', 'ml/min/1,73m2', 'ml/min/1.73m^2'] },
+  'mmol/mol': { dimension: 'ratio', factor: 1 },
+  'mg/mmol': { dimension: 'ratio', factor: 1 }
+};
+
+// Reduces a spelling to lowercase, space-free text with the common prefixes and words written the same way
+const unitKey = (raw: string): string =>
+  raw
+    .trim()
+    .toLowerCase()
+    .replace(/\s+/g, '')
+    .replace(/μ/g, 'µ') // Greek mu to the micro sign
+    .replace(/micro|mc(?=g\b)/g, 'µ')
+    .replace(/milli/g, 'm')
+    .replace(/nano/g, 'n')
+    .replace(/pico/g, 'p')
+    .replace(/femto/g, 'f')
+    .replace(/deci/g, 'd')
+    .replace(/lit(?:er|re)s?|ltr/g, 'l')
+    .replace(/grams?/g, 'g')
+    .replace(/moles?/g, 'mol')
+    .replace(/(^|\/)u(?=g|mol)/g, '$1µ') // "ug", "umol"
+    .replace(/^(?:x|×)?10(?:\^|\*\*?|e)?(\d+)/, '10^$1'); // "10E9/L", "x10*9/l"
+
+const UNIT_KEYS = new Map(
+  Object.entries(UNITS).flatMap(([unit, definition]) =>
+    [unit.toLowerCase(), ...(definition.aliases ?? [])].map(key => [key, unit] as const)
+  )
+);
+
+/**
+ * Brings a unit written on a report to its canonical spelling ("umol/l", "micromol/L" -> "µmol/L")
+ * @returns The canonical unit, or null when the unit is not known
+ */
+export const normalizeUnit = (raw: string): string | null => UNIT_KEYS.get(unitKey(raw)) ?? null;
+
+/**
+ * Converts a value between two canonical units
+ * @param molarMass g/mol of the analyte, needed between mass and substance units
+ * @returns The converted value, or null when the units cannot be converted into each other
+ */
+export const convertValue = (value: number, from: string, to: string, molarMass?: number): number | null => {
+  const source = UNITS[from];
+  const target = UNITS[to];
+  if (!source || !target) return null;
+  const base = value * source.factor;
+  if (source.dimension === target.dimension) {
+    return base / target.factor;
+  }
+  if (!molarMass) return null;
+  const pair = `${source.dimension}>${target.dimension}`;
+  if (pair === 'massConcentration>substanceConcentration' || pair === 'mass>amount') {
+    return base / molarMass / target.factor;
+  }
+  if (pair === 'substanceConcentration>massConcentration' || pair === 'amount>mass') {
+    return (base * molarMass) / target.factor;
+  }
+  return null;
+};
+
+/**
+ * Converts a value of an analyte between its units, including units related by a formula (HbA1c in %)
+ * @returns The converted value, or null when the unit does not belong to the analyte
+ */
+export const convertAnalyteValue = (value: number, from: string, to: string, analyte: Analyte): number | null => {
+  const derivedFrom = analyte.derivedUnits?.find(derived => derived.unit === from);
+  const si = derivedFrom ? derivedFrom.slope * value + derivedFrom.intercept : convertValue(value, from, analyte.si, analyte.molarMass);
+  if (si === null) return null;
+  const derivedTo = analyte.derivedUnits?.find(derived => derived.unit === to);
+  return derivedTo ? (si - derivedTo.intercept) / derivedTo.slope : convertValue(si, analyte.si, to, analyte.molarMass);
+};
+
+export interface UnitCheck {
+  analyte: Analyte | null;
+  // Canonical spelling of the row's unit, when known
+  unit: string | null;
+  // Why the unit cannot be trusted, if it cannot
+  issue: string | null;
+}
+
+const numericValue = (raw: string): number | null => {
+  const parsed = parseLabValue(raw);
+  return parsed?.kind === 'numeric' ? parsed.value : null;
+};
+
+/**
+ * Checks that a row's unit is known, belongs to its analyte and gives plausible values
+ */
+export const checkRowUnit = (row: LabResultRow): UnitCheck => {
+  const analyte = rowAnalyte(row);
+  const unit = row.unit.trim() ? normalizeUnit(row.unit) : null;
+  const values = row.results.map(result => numericValue(result.value)).filter((value): value is number => value !== null);
+
+  if (row.unit.trim() && !unit) {
+    return { analyte, unit, issue: `Unknown unit "${row.unit.trim()}"` };
+  }
+  if (!analyte || values.length === 0) {
+    return { analyte, unit, issue: null };
+  }
+  if (!unit) {
+    return { analyte, unit, issue: `No unit given; ${analyte.label} is usually reported in ${analyte.defaultUnit}` };
+  }
+  if (convertAnalyteValue(1, unit, analyte.si, analyte) === null) {
+    return { analyte, unit, issue: `${unit} is not a unit of ${analyte.label}` };
+  }
+  const [min, max] = analyte.plausible;
+  const implausible = values.some(value => {
+    const si = convertAnalyteValue(value, unit, analyte.si, analyte)!;
+    return si < min || si > max;
+  });
+  return { analyte, unit, issue: implausible ? `Implausible ${analyte.label} value in ${unit}; check the unit` : null };
+};
+
+/**
+ * Formats a converted value with about three significant digits, without resorting to exponents
+ */
+export const formatValue = (value: number): string => {
+  if (value === 0) return '0';
+  const decimals = Math.min(6, Math.max(0, 2 - Math.floor(Math.log10(Math.abs(value)))));
+  return String(Number(value.toFixed(decimals)));
+};
+
+// Converts the numbers in a result or reference cell, keeping qualifiers and leaving text as it is
+const convertCell = (raw: string, convert: (value: number) => number): string => {
+  const range = parseRangeCell(raw);
+  if (range) {
+    return `${formatValue(convert(range[0]))} - ${formatValue(convert(range[1]))}`;
+  }
+  const parsed = parseLabValue(raw);
+  if (parsed?.kind !== 'numeric') return raw;
+  return `${parsed.qualifier ?? ''}${formatValue(convert(parsed.value))}`;
+};
+
+/**
+ * Shows a row's results and reference range in SI or conventional units
+ * @returns The converted row, or null when the row has no trustworthy unit of a known analyte
+ */
+export const convertRow = (row: LabResultRow, system: Exclude<UnitSystem, 'reported'>): LabResultRow | null => {
+  const { analyte, unit, issue } = checkRowUnit(row);
+  if (!analyte || !unit || issue) return null;
+  const target = analyte[system];
+  const convert = (value: number) => convertAnalyteValue(value, unit, target, analyte)!;
+  return {
+    ...row,
+    results: row.results.map(result => ({ ...result, value: convertCell(result.value, convert) })),
+    referenceLower: convertCell(row.referenceLower, convert),
+    referenceUpper: convertCell(row.referenceUpper, convert),
+    unit: target
+  };
+};
+
+/**
+ * Lists rows whose unit could not be verified, as a block sent along with the analysis request
+ */
+export const formatUnitIssues = (rows: LabResultRow[]): string => {
+  const lines = rows.flatMap(row => {
+    const { issue } = checkRowUnit(row);
+    return issue ? [`- ${row.testName}: ${currentResult(row)} ${row.unit} => ${issue}`] : [];
+  });
+  if (lines.length === 0) {
+    return '';
+  }
+  return `Unit warnings:\n${lines.join('\n')}`;
+};
@@ -1,9 +1,10 @@
 /// <reference types="vite/client" />
 
 interface ImportMetaEnv {
-  readonly VITE_OPENAI_API_KEY: string
+  // Optional; defaults to the /api dev proxy in front of the local server
+  readonly VITE_API_BASE_URL?: string
 }
 
 interface ImportMeta {
   readonly env: ImportMetaEnv
-} 
\ No newline at end of file
+}
@@ -0,0 +1,49 @@
+import { FinishResult, PreprocessingRequest, PreprocessingResponse, PreviewResult, StraightenResult } from '../types/preprocessing';
+import { runPipeline } from '../utils/imagePipeline';
+import { bitmapToCanvas, canvasToBlob, canvasToGray, grayToCanvas, rotateCanvas } from '../utils/imageProcessing';
+import { finishPage, orientationSample, straightenPage } from '../utils/pageCorrection';
+
+// Corrects and preprocesses pages off the main thread, so large scans do not block the UI
+const scope = self as unknown as Worker;
+
+const straighten = async (request: Extract<PreprocessingRequest, { type: 'straighten' }>): Promise<StraightenResult> => {
+  const { canvas, correction, skew } = straightenPage(bitmapToCanvas(request.image), request);
+  const sample = orientationSample(canvas);
+  const samples = { upright: await canvasToBlob(sample), turned: await canvasToBlob(rotateCanvas(sample, 180)) };
+  const image = await createImageBitmap(canvas);
+  return { image, correction, skew, samples };
+};
+
+const finish = async (request: Extract<PreprocessingRequest, { type: 'finish' }>): Promise<FinishResult> => {
+  const { canvas, correction } = finishPage(bitmapToCanvas(request.image), request.correction, request.skew, request.upsideDown);
+  const page = await canvasToBlob(canvas);
+  try {
+    const { image, scale } = runPipeline(canvasToGray(canvas), request.stages);
+    const processed = await canvasToBlob(grayToCanvas(image));
+    return { page, processed, scale, width: canvas.width, height: canvas.height, correction };
+  } catch (err) {
+    console.warn('Image optimization failed, proceeding with unoptimized image', err);
+    return { page, processed: page, scale: 1, width: canvas.width, height: canvas.height, correction };
+  }
+};
+
+const preview = async (request: Extract<PreprocessingRequest, { type: 'preview' }>): Promise<PreviewResult> => {
+  const { steps } = runPipeline(request.image, request.stages, true);
+  return { steps: await Promise.all([request.image, ...steps].map(step => canvasToBlob(grayToCanvas(step)))) };
+};
+
+scope.onmessage = async (event: MessageEvent<PreprocessingRequest>) => {
+  const request = event.data;
+  let response: PreprocessingResponse;
+  try {
+    const result = request.type === 'straighten'
+      ? await straighten(request)
+      : request.type === 'finish'
+        ? await finish(request)
+        : await preview(request);
+    response = { ok: true, result };
+  } catch (error) {
+    response = { ok: false, error: error instanceof Error ? error.message : String(error) };
+  }
+  scope.postMessage(response, response.ok && 'image' in response.result ? [response.result.image] : []);
+};
@@ -32,5 +32,12 @@ export default defineConfig({
       usePolling: true,
     },
     open: true, // Open browser automatically
+    // Forward API calls to the local server that holds the OpenAI key
+    proxy: {
+      '/api': {
+        target: 'http://127.0.0.1:8787',
+        rewrite: path => path.replace(/^\/api/, ''),
+      },
+    },
   }
 }); 
\ No newline at end of file